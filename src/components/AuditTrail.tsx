@@ -0,0 +1,36 @@
+import { formatAuditFormula, formatAuditRate } from '../engine';
+import type { AuditStep, MoneyFormatter } from '../engine';
+
+interface AuditTrailProps {
+  steps: AuditStep[];
+  money: MoneyFormatter;
+}
+
+export default function AuditTrail({ steps, money }: AuditTrailProps) {
+  return (
+    <ol className="space-y-1 text-sm">
+      {steps.map((step, i) => (
+        <li key={i} className="grid grid-cols-[8rem_1fr] gap-3">
+          <span className="font-semibold text-gray-700">{step.label}</span>
+          <span className="text-gray-600">
+            {step.note}
+            {(step.formula || step.value !== undefined) && (
+              <span className="block font-mono text-xs text-gray-800">
+                {step.formula && formatAuditFormula(step, money.format)}
+                {step.formula && step.value !== undefined && ' = '}
+                {step.value !== undefined && (
+                  <strong>{step.unit === 'rate' ? formatAuditRate(step.value) : money.format(step.value)}</strong>
+                )}
+                {step.operands && step.operands.length > 0 && (
+                  <span className="ml-2 font-sans text-gray-400">
+                    ({step.operands.map((operand) => operand.label).join(', ')})
+                  </span>
+                )}
+              </span>
+            )}
+          </span>
+        </li>
+      ))}
+    </ol>
+  );
+}
@@ -0,0 +1,142 @@
+import { useMemo } from 'react';
+import { History } from 'lucide-react';
+import { STRATEGIES, runBacktest } from '../engine';
+import type { BacktestRun, BacktestSettings, HistoricalSeries, MoneyFormatter, ProjectionInputs } from '../engine';
+import { HISTORICAL_RETURNS } from '../data/historicalReturns';
+
+interface BacktestPanelProps {
+  projectionInputs: ProjectionInputs;
+  settings: BacktestSettings;
+  onSettingsChange: (settings: BacktestSettings) => void;
+  periodLabel: string;
+  money: MoneyFormatter;
+}
+
+const SERIES_LABELS: Record<HistoricalSeries, string> = {
+  stocks: 'US Stocks',
+  bonds: 'US 10Y Bonds',
+  balanced: '60/40 Mix'
+};
+
+const firstYear = HISTORICAL_RETURNS[0].year;
+const lastYear = HISTORICAL_RETURNS[HISTORICAL_RETURNS.length - 1].year;
+
+export default function BacktestPanel({
+  projectionInputs,
+  settings,
+  onSettingsChange,
+  periodLabel,
+  money
+}: BacktestPanelProps) {
+  const result = useMemo(() => runBacktest({
+    ...projectionInputs,
+    history: HISTORICAL_RETURNS,
+    series: settings.series,
+    adjustForInflation: settings.adjustForInflation
+  }), [projectionInputs, settings]);
+
+  const summaryCards: { label: string; run: BacktestRun | null; color: string }[] = [
+    { label: 'Worst Start Year', run: result.worst, color: 'text-red-600' },
+    { label: 'Median Start Year', run: result.median, color: 'text-gray-800' },
+    { label: 'Best Start Year', run: result.best, color: 'text-green-600' }
+  ];
+
+  return (
+    <div className="bg-white rounded-xl p-6 mb-6 border border-gray-200">
+      <h3 className="text-lg font-bold text-gray-800 mb-4 flex items-center gap-2">
+        <History className="w-5 h-5 text-indigo-600" />
+        Historical Backtest ({firstYear}–{lastYear})
+      </h3>
+
+      <div className="flex flex-wrap items-center gap-2 mb-6">
+        {(Object.keys(SERIES_LABELS) as HistoricalSeries[]).map((series) => (
+          <button
+            key={series}
+            onClick={() => onSettingsChange({ ...settings, series })}
+            className={`px-4 py-2 rounded-lg text-sm font-semibold transition-all ${
+              settings.series === series
+                ? 'bg-indigo-600 text-white shadow-lg'
+                : 'bg-white text-gray-700 border-2 border-gray-300 hover:border-indigo-400'
+            }`}
+          >
+            {SERIES_LABELS[series]}
+          </button>
+        ))}
+        <label className="flex items-center gap-2 ml-4 text-sm font-medium text-gray-700">
+          <input
+            type="checkbox"
+            checked={settings.adjustForInflation}
+            onChange={(e) => onSettingsChange({ ...settings, adjustForInflation: e.target.checked })}
+            className="w-4 h-4 accent-indigo-600"
+          />
+          Inflation-adjusted (real) returns
+        </label>
+      </div>
+
+      {result.runs.length === 0 ? (
+        <p className="text-sm text-gray-600 p-3 bg-gray-50 rounded-lg border border-gray-200">
+          The projection is longer than the {HISTORICAL_RETURNS.length} years of bundled history. Shorten the duration to backtest it.
+        </p>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 mb-6">
+            {summaryCards.map(({ label, run, color }) => (
+              <div key={label} className="bg-gray-50 rounded-lg p-4 border border-gray-200">
+                <p className="text-xs text-gray-500 mb-1">{label}</p>
+                <p className={`text-lg font-bold ${color}`}>
+                  {money.format(run?.finalBalance ?? 0)}
+                </p>
+                <p className="text-xs text-gray-500 mt-1">Starting {run?.startYear}</p>
+              </div>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 mb-6">
+            {(['take-salary', 'capital-protect'] as const).map((strategy) => {
+              const years = result.failedStartYears[strategy];
+              return (
+                <div key={strategy} className="bg-gray-50 rounded-lg p-4 border border-gray-200">
+                  <p className="text-xs text-gray-500 mb-1">
+                    {STRATEGIES[strategy].name} ran out in {years.length} of {result.runs.length} start years
+                  </p>
+                  <p className={`text-sm font-semibold ${years.length > 0 ? 'text-red-600' : 'text-green-600'}`}>
+                    {years.length > 0 ? years.join(', ') : 'Never'}
+                  </p>
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="overflow-x-auto max-h-80 overflow-y-auto">
+            <table className="w-full">
+              <thead className="sticky top-0 bg-purple-100">
+                <tr className="border-b-2 border-purple-200">
+                  <th className="text-left py-3 px-4 font-semibold text-gray-700">Start Year</th>
+                  <th className="text-left py-3 px-4 font-semibold text-gray-700">End Year</th>
+                  <th className="text-right py-3 px-4 font-semibold text-blue-600">Cash In</th>
+                  <th className="text-right py-3 px-4 font-semibold text-green-600">Cash Out</th>
+                  <th className="text-right py-3 px-4 font-semibold text-gray-700">Final Balance</th>
+                  <th className="text-right py-3 px-4 font-semibold text-red-600">Ran Out</th>
+                </tr>
+              </thead>
+              <tbody>
+                {result.runs.map((run) => (
+                  <tr key={run.startYear} className="border-b border-purple-100 hover:bg-purple-50 transition-colors">
+                    <td className="py-2 px-4 font-semibold text-indigo-600">{run.startYear}</td>
+                    <td className="py-2 px-4 text-gray-700">{run.endYear}</td>
+                    <td className="text-right py-2 px-4 text-blue-600">{money.format(run.totalCashIn)}</td>
+                    <td className="text-right py-2 px-4 text-green-600">{money.format(run.totalCashOut)}</td>
+                    <td className="text-right py-2 px-4 font-semibold text-gray-900">{money.format(run.finalBalance)}</td>
+                    <td className="text-right py-2 px-4 text-red-600">
+                      {run.depletedPeriod !== null ? `${periodLabel} ${run.depletedPeriod}` : '-'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,99 @@
+import { Coins } from 'lucide-react';
+import { CURRENCIES, NUMBER_LOCALES, createMoneyFormatter, getBundledRate } from '../engine';
+import type { CurrencyCode, CurrencySettings } from '../engine';
+import { FX_RATES_AS_OF } from '../data/fxRates';
+import NumberInput from './NumberInput';
+
+interface CurrencyPanelProps {
+  settings: CurrencySettings;
+  onSettingsChange: (settings: CurrencySettings) => void;
+}
+
+const CODES = Object.keys(CURRENCIES) as CurrencyCode[];
+
+export default function CurrencyPanel({ settings, onSettingsChange }: CurrencyPanelProps) {
+  const converting = settings.display !== settings.code;
+  const bundledRate = getBundledRate(settings.code, settings.display);
+  const sample = createMoneyFormatter({ ...settings, code: settings.display }).format(12345678);
+
+  // A new currency brings its usual number format; a user-entered rate is for one pair only
+  const setCode = (code: CurrencyCode) =>
+    onSettingsChange({ ...settings, code, display: converting ? settings.display : code, locale: CURRENCIES[code].locale, rate: 0 });
+  const setDisplay = (display: CurrencyCode) =>
+    onSettingsChange({ ...settings, display, locale: CURRENCIES[display].locale, rate: 0 });
+
+  return (
+    <div className="bg-gray-50 rounded-xl p-6 mb-8">
+      <h2 className="text-xl font-bold text-gray-800 mb-4 flex items-center gap-2">
+        <Coins className="w-5 h-5 text-indigo-600" />
+        Currency
+      </h2>
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+        <div>
+          <label className="block text-sm font-semibold text-gray-700 mb-2">Scenario Currency</label>
+          <select
+            value={settings.code}
+            onChange={(e) => setCode(e.target.value as CurrencyCode)}
+            className="w-full px-4 py-2 border-2 border-gray-300 rounded-lg focus:border-indigo-500 focus:outline-none"
+          >
+            {CODES.map((code) => (
+              <option key={code} value={code}>{code} · {CURRENCIES[code].name}</option>
+            ))}
+          </select>
+          <p className="text-xs text-gray-500 mt-1">The currency your amounts are entered in</p>
+        </div>
+        <div>
+          <label className="block text-sm font-semibold text-gray-700 mb-2">Show Figures In</label>
+          <select
+            value={settings.display}
+            onChange={(e) => setDisplay(e.target.value as CurrencyCode)}
+            className="w-full px-4 py-2 border-2 border-gray-300 rounded-lg focus:border-indigo-500 focus:outline-none"
+          >
+            {CODES.map((code) => (
+              <option key={code} value={code}>{code} · {CURRENCIES[code].name}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-semibold text-gray-700 mb-2">Number Format</label>
+          <select
+            value={settings.locale}
+            onChange={(e) => onSettingsChange({ ...settings, locale: e.target.value })}
+            className="w-full px-4 py-2 border-2 border-gray-300 rounded-lg focus:border-indigo-500 focus:outline-none"
+          >
+            {Object.entries(NUMBER_LOCALES).map(([locale, label]) => (
+              <option key={locale} value={locale}>{label}</option>
+            ))}
+          </select>
+          <p className="text-xs text-gray-500 mt-1">e.g. {sample}</p>
+        </div>
+        {converting && (
+          <div>
+            <label className="block text-sm font-semibold text-gray-700 mb-2">
+              1 {settings.code} = ? {settings.display}
+            </label>
+            <NumberInput
+              field="currency.rate"
+              step="0.0001"
+              value={settings.rate || Number(bundledRate.toPrecision(6))}
+              onChange={(rate) => onSettingsChange({ ...settings, rate })}
+              className="w-full px-4 py-2 border-2 border-gray-300 rounded-lg focus:border-indigo-500 focus:outline-none"
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              {settings.rate > 0 ? (
+                <button
+                  onClick={() => onSettingsChange({ ...settings, rate: 0 })}
+                  className="text-indigo-600 hover:text-indigo-800 font-semibold"
+                >
+                  Use the bundled rate ({FX_RATES_AS_OF})
+                </button>
+              ) : (
+                `Bundled rate as of ${FX_RATES_AS_OF}; type your own to override`
+              )}
+            </p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
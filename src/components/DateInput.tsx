@@ -0,0 +1,36 @@
+import { useState } from 'react';
+import { checkDateInput } from '../engine';
+import type { DateCheck } from '../engine';
+
+interface DateInputProps {
+  value: string;  // YYYY-MM-DD
+  onChange: (value: string) => void;
+  className: string;
+}
+
+// The date counterpart of NumberInput: a cleared or invalid date keeps the last valid one
+// and says so underneath, instead of passing '' on to the scenario.
+export default function DateInput({ value, onChange, className }: DateInputProps) {
+  const [draft, setDraft] = useState<string | null>(null);
+  const [check, setCheck] = useState<DateCheck | null>(null);
+  const error = check && check.value === value ? check.error : undefined;
+
+  return (
+    <>
+      <input
+        type="date"
+        value={draft ?? value}
+        onChange={(e) => {
+          const next = checkDateInput(e.target.value, value);
+          setDraft(e.target.value);
+          setCheck(next);
+          if (next.value !== value) onChange(next.value);
+        }}
+        onBlur={() => setDraft(null)}
+        aria-invalid={error !== undefined}
+        className={error ? className.replace('border-gray-300', 'border-red-400') : className}
+      />
+      {error && <p className="text-xs text-red-600 mt-1">{error}</p>}
+    </>
+  );
+}
@@ -0,0 +1,141 @@
+import { useMemo, useState } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, ReferenceLine } from 'recharts';
+import { Landmark } from 'lucide-react';
+import { compareDebtVsInvest, getExpectedReturn } from '../engine';
+import type { LoanSettings, MoneyFormatter, Scenario } from '../engine';
+import NumberInput from './NumberInput';
+
+interface DebtPanelProps {
+  scenario: Scenario;
+  money: MoneyFormatter;
+}
+
+const FIELDS: { key: keyof LoanSettings; label: string; unit?: string; step: string }[] = [
+  { key: 'principal', label: 'Loan Balance', step: '1000' },
+  { key: 'apr', label: 'APR', unit: '%', step: '0.1' },
+  { key: 'termMonths', label: 'Term Left', unit: 'months', step: '12' },
+  { key: 'extraPayment', label: 'Extra Cash per Month', step: '50' }
+];
+
+export default function DebtPanel({ scenario, money }: DebtPanelProps) {
+  const [loan, setLoan] = useState<LoanSettings>({ principal: 20000, apr: 6, termMonths: 60, extraPayment: 200 });
+  const [showSchedule, setShowSchedule] = useState<boolean>(false);
+
+  const comparison = useMemo(() => compareDebtVsInvest(loan, scenario), [loan, scenario]);
+  const loanEnd = comparison.netWorth[loan.termMonths];
+  const final = comparison.netWorth[comparison.netWorth.length - 1];
+  const investReturn = getExpectedReturn(scenario.roiPercentage, scenario.portfolio);
+
+  return (
+    <div className="bg-gray-50 rounded-xl p-6 mt-8">
+      <h2 className="text-xl font-bold text-gray-800 mb-4 flex items-center gap-2">
+        <Landmark className="w-5 h-5 text-indigo-600" />
+        Pay Off Debt or Invest?
+      </h2>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
+        {FIELDS.map(({ key, label, unit, step }) => (
+          <div key={key}>
+            <label className="block text-sm font-semibold text-gray-700 mb-2">{label} ({unit ?? money.inputSymbol})</label>
+            <NumberInput
+              field={`loan.${key}`}
+              step={step}
+              value={loan[key]}
+              onChange={(value) => setLoan({ ...loan, [key]: value })}
+              className="w-full px-4 py-2 border-2 border-gray-300 rounded-lg focus:border-indigo-500 focus:outline-none"
+            />
+          </div>
+        ))}
+      </div>
+
+      <p className="text-sm text-gray-600 mb-4">
+        Both paths spend the same {money.format(comparison.monthlyPayment + loan.extraPayment)} a month. Prepaying clears
+        the loan in <strong>{comparison.payoffMonth} months</strong> instead of {comparison.baseSchedule.length},
+        saves <strong>{money.format(comparison.interestSaved)}</strong> in interest, then invests the whole amount.
+        Investing keeps the schedule and invests the extra from day one at your scenario's return and settings,
+        then both carry on with the {scenario.reinvestmentStrategy} strategy.
+      </p>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3 mb-6">
+        <div className="bg-white rounded-lg p-4 border border-gray-200">
+          <p className="text-xs text-gray-500 mb-1">Net Worth at Term End</p>
+          <p className="text-sm text-gray-800">Prepay: <strong>{money.format(loanEnd?.prepay ?? 0)}</strong></p>
+          <p className="text-sm text-gray-800">Invest: <strong>{money.format(loanEnd?.invest ?? 0)}</strong></p>
+        </div>
+        <div className="bg-white rounded-lg p-4 border border-gray-200">
+          <p className="text-xs text-gray-500 mb-1">Net Worth at the End of the Projections</p>
+          <p className="text-sm text-gray-800">Prepay: <strong>{money.format(final?.prepay ?? 0)}</strong></p>
+          <p className="text-sm text-gray-800">Invest: <strong>{money.format(final?.invest ?? 0)}</strong></p>
+        </div>
+        <div className="bg-white rounded-lg p-4 border border-gray-200">
+          <p className="text-xs text-gray-500 mb-1">Breakeven Return</p>
+          {comparison.breakevenReturn !== null ? (
+            <>
+              <p className="text-lg font-bold text-gray-800">{comparison.breakevenReturn}%</p>
+              <p className="text-xs text-gray-500">
+                At {Number(investReturn.toFixed(2))}% expected, {investReturn > comparison.breakevenReturn ? 'investing' : 'prepaying'} comes out ahead
+              </p>
+            </>
+          ) : (
+            <p className="text-sm text-gray-600">Add extra cash per month to compare</p>
+          )}
+        </div>
+      </div>
+
+      <ResponsiveContainer width="100%" height={320}>
+        <LineChart data={comparison.netWorth}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#e0e0e0" />
+          <XAxis dataKey="label" stroke="#666" style={{ fontSize: '12px' }} />
+          <YAxis stroke="#666" style={{ fontSize: '12px' }} tickFormatter={(value) => money.compact(value)} />
+          <Tooltip
+            formatter={(value) => money.format(Number(value))}
+            contentStyle={{ backgroundColor: '#fff', border: '2px solid #e0e0e0', borderRadius: '8px' }}
+          />
+          <Legend />
+          <Line type="monotone" dataKey="prepay" stroke="#f59e0b" strokeWidth={2} name="Prepay Loan" dot={false} />
+          <Line type="monotone" dataKey="invest" stroke="#6366f1" strokeWidth={2} name="Invest Extra" dot={false} />
+          {loanEnd && (
+            <ReferenceLine
+              x={loanEnd.label}
+              stroke="#94a3b8"
+              strokeDasharray="4 4"
+              label={{ value: 'Loan term ends', position: 'insideTopLeft', fill: '#64748b', fontSize: 11 }}
+            />
+          )}
+        </LineChart>
+      </ResponsiveContainer>
+
+      <button
+        onClick={() => setShowSchedule(!showSchedule)}
+        className="mt-4 px-3 py-1 rounded-lg text-xs font-semibold bg-white text-gray-700 border-2 border-gray-300 hover:border-indigo-400 transition-all"
+      >
+        {showSchedule ? 'Hide' : 'Show'} Amortization Schedule
+      </button>
+      {showSchedule && (
+        <div className="overflow-x-auto max-h-72 overflow-y-auto mt-3">
+          <table className="w-full text-sm">
+            <thead className="sticky top-0 bg-gray-100">
+              <tr className="border-b-2 border-gray-300">
+                <th className="text-left py-2 px-3 font-semibold text-gray-700">Month</th>
+                <th className="text-right py-2 px-3 font-semibold text-gray-700">Payment</th>
+                <th className="text-right py-2 px-3 font-semibold text-gray-700">Interest</th>
+                <th className="text-right py-2 px-3 font-semibold text-gray-700">Principal</th>
+                <th className="text-right py-2 px-3 font-semibold text-gray-700">Balance</th>
+              </tr>
+            </thead>
+            <tbody>
+              {comparison.schedule.map((row) => (
+                <tr key={row.month} className="border-b border-gray-200">
+                  <td className="py-2 px-3 text-gray-900">{row.month}</td>
+                  <td className="text-right py-2 px-3 text-gray-700">{money.format(row.payment)}</td>
+                  <td className="text-right py-2 px-3 text-red-600">{money.format(row.interest)}</td>
+                  <td className="text-right py-2 px-3 text-green-600">{money.format(row.principal)}</td>
+                  <td className="text-right py-2 px-3 font-semibold text-gray-900">{money.format(row.balance)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
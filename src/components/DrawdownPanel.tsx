@@ -0,0 +1,146 @@
+import { useMemo } from 'react';
+import { Hourglass } from 'lucide-react';
+import { describeDrawdown, findSustainableWithdrawal, getRunway } from '../engine';
+import type { DrawdownSettings, MoneyFormatter, ProjectionData, ProjectionInputs, WithdrawalRule } from '../engine';
+import NumberInput from './NumberInput';
+
+interface DrawdownPanelProps {
+  settings: DrawdownSettings;
+  onSettingsChange: (settings: DrawdownSettings) => void;
+  salaryAmount: number;
+  onSalaryChange: (amount: number) => void;
+  projectionInputs: ProjectionInputs | null;
+  projections: ProjectionData[] | null;
+  periodLabel: string;
+  money: MoneyFormatter;
+}
+
+const RULES: Record<WithdrawalRule, string> = {
+  'inflation-indexed': 'Inflation-indexed',
+  'percent-of-portfolio': '% of Portfolio',
+  'guardrails': 'Guardrails'
+};
+
+const inputClass = 'w-full px-4 py-2 border-2 border-gray-300 rounded-lg focus:border-teal-500 focus:outline-none';
+
+export default function DrawdownPanel({
+  settings,
+  onSettingsChange,
+  salaryAmount,
+  onSalaryChange,
+  projectionInputs,
+  projections,
+  periodLabel,
+  money
+}: DrawdownPanelProps) {
+  const update = (key: Exclude<keyof DrawdownSettings, 'rule'>, value: number) =>
+    onSettingsChange({ ...settings, [key]: value });
+
+  const runway = projections && projectionInputs ? getRunway(projections, projectionInputs.projectionFrequency, projectionInputs.businessDays) : null;
+  const sustainable = useMemo(
+    () => projectionInputs ? findSustainableWithdrawal(projectionInputs) : null,
+    [projectionInputs]
+  );
+
+  return (
+    <div className="mt-3 space-y-4">
+      <div className="flex flex-wrap gap-2">
+        {(Object.keys(RULES) as WithdrawalRule[]).map((rule) => (
+          <button
+            key={rule}
+            onClick={() => onSettingsChange({ ...settings, rule })}
+            className={`px-3 py-1 rounded-lg text-xs font-semibold transition-all ${
+              settings.rule === rule
+                ? 'bg-teal-600 text-white shadow-lg'
+                : 'bg-white text-gray-700 border-2 border-gray-300 hover:border-teal-400'
+            }`}
+          >
+            {RULES[rule]}
+          </button>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        {settings.rule === 'percent-of-portfolio' ? (
+          <div>
+            <label className="block text-sm font-semibold text-gray-700 mb-2">Withdrawal Rate (% / year)</label>
+            <NumberInput
+              field="drawdown.withdrawalRate"
+              step="0.1"
+              value={settings.withdrawalRate}
+              onChange={(value) => update('withdrawalRate', value)}
+              className={inputClass}
+            />
+          </div>
+        ) : (
+          <div>
+            <label className="block text-sm font-semibold text-gray-700 mb-2">Starting Withdrawal ({money.inputSymbol})</label>
+            <NumberInput
+              field="salaryAmount"
+              value={salaryAmount}
+              onChange={onSalaryChange}
+              className={inputClass}
+            />
+            <p className="text-xs text-gray-500 mt-1">Raised with inflation each period</p>
+          </div>
+        )}
+        {settings.rule === 'guardrails' && (
+          <>
+            <div>
+              <label className="block text-sm font-semibold text-gray-700 mb-2">Guardrail Band (%)</label>
+              <NumberInput
+                field="drawdown.guardrail"
+                value={settings.guardrail}
+                onChange={(value) => update('guardrail', value)}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-semibold text-gray-700 mb-2">Cut / Raise (%)</label>
+              <NumberInput
+                field="drawdown.adjustment"
+                value={settings.adjustment}
+                onChange={(value) => update('adjustment', value)}
+                className={inputClass}
+              />
+            </div>
+          </>
+        )}
+      </div>
+
+      <p className="text-xs text-gray-500">{describeDrawdown(settings, salaryAmount, money.format)}</p>
+
+      <div className="flex items-center gap-3 p-3 bg-white rounded-lg border border-gray-200">
+        <Hourglass className="w-5 h-5 text-teal-600 flex-shrink-0" />
+        <div className="text-sm text-gray-700 space-y-1">
+          {runway && (
+            runway.depletedPeriod !== null ? (
+              <p>
+                <strong className="text-red-700">Runs out in {periodLabel.toLowerCase()} {runway.depletedPeriod}</strong>
+                {' '}after {runway.years.toFixed(1)} years of withdrawals.
+              </p>
+            ) : (
+              <p>
+                <strong className="text-green-700">Lasts the whole projection</strong>
+                {' '}({runway.years.toFixed(1)} years) with {money.format(projections?.[projections.length - 1]?.endValue ?? 0)} left.
+              </p>
+            )
+          )}
+          {sustainable !== null && (
+            <p>
+              Sustainable starting withdrawal: <strong>{money.format(sustainable)}</strong> per {periodLabel.toLowerCase()}.
+              {sustainable !== salaryAmount && (
+                <button
+                  onClick={() => onSalaryChange(sustainable)}
+                  className="ml-2 px-2 py-0.5 rounded text-xs font-semibold bg-white text-gray-700 border-2 border-gray-300 hover:border-teal-400 transition-all"
+                >
+                  Use
+                </button>
+              )}
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,170 @@
+import { CalendarClock, X } from 'lucide-react';
+import { describeEvent } from '../engine';
+import type { CashFlowEvent, CashFlowEventKind, MoneyFormatter } from '../engine';
+import NumberInput from './NumberInput';
+
+interface EventTimelineProps {
+  events: CashFlowEvent[];
+  startDate: string;
+  onChange: (events: CashFlowEvent[]) => void;
+  money: MoneyFormatter;
+}
+
+const EVENT_KINDS: Record<CashFlowEventKind, { name: string; label: string; amount: number }> = {
+  'one-off': { name: 'One-off', label: 'Bonus', amount: 5000 },
+  'recurring': { name: 'Recurring', label: 'Side income', amount: 200 },
+  'step-up': { name: 'Step-up', label: 'Annual raise', amount: 5 },
+  'pause': { name: 'Pause', label: 'Parental leave', amount: 0 }
+};
+
+const createId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const inputClass = 'w-full px-3 py-1 border-2 border-gray-300 rounded-lg text-sm focus:border-indigo-500 focus:outline-none';
+
+export default function EventTimeline({ events, startDate, onChange, money }: EventTimelineProps) {
+  const addEvent = (kind: CashFlowEventKind) => {
+    const { label, amount } = EVENT_KINDS[kind];
+    onChange([
+      ...events,
+      {
+        id: createId(),
+        kind,
+        label,
+        date: startDate,
+        amount,
+        ...(kind === 'recurring' ? { interval: 'monthly' as const } : {})
+      }
+    ]);
+  };
+
+  const updateEvent = (id: string, changes: Partial<CashFlowEvent>) =>
+    onChange(events.map((event) => (event.id === id ? { ...event, ...changes } : event)));
+
+  const sortedEvents = [...events].sort((a, b) => a.date.localeCompare(b.date));
+
+  return (
+    <div className="bg-gray-50 rounded-xl p-6 mb-8">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+        <h2 className="text-xl font-bold text-gray-800 flex items-center gap-2">
+          <CalendarClock className="w-5 h-5 text-indigo-600" />
+          Cash-flow Timeline
+        </h2>
+        <div className="flex flex-wrap gap-2">
+          {(Object.keys(EVENT_KINDS) as CashFlowEventKind[]).map((kind) => (
+            <button
+              key={kind}
+              onClick={() => addEvent(kind)}
+              className="px-3 py-1 rounded-lg text-xs font-semibold bg-white text-gray-700 border-2 border-gray-300 hover:border-indigo-400 transition-all"
+            >
+              + {EVENT_KINDS[kind].name}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {events.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          Add bonuses, withdrawals, contribution raises or breaks. Events apply to both the growth chart and
+          the future projections, and are marked where they happen.
+        </p>
+      ) : (
+        <div className="space-y-3">
+          {sortedEvents.map((event) => (
+            <div key={event.id} className="bg-white rounded-lg border border-gray-200 p-3">
+              <div className="grid grid-cols-2 md:grid-cols-6 gap-2 items-end">
+                <div>
+                  <label className="block text-xs font-semibold text-gray-600 mb-1">Type</label>
+                  <select
+                    value={event.kind}
+                    onChange={(e) => {
+                      const kind = e.target.value as CashFlowEventKind;
+                      updateEvent(event.id, {
+                        kind,
+                        amount: EVENT_KINDS[kind].amount,
+                        interval: kind === 'recurring' ? 'monthly' : undefined
+                      });
+                    }}
+                    className={inputClass}
+                  >
+                    {(Object.keys(EVENT_KINDS) as CashFlowEventKind[]).map((kind) => (
+                      <option key={kind} value={kind}>{EVENT_KINDS[kind].name}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-xs font-semibold text-gray-600 mb-1">Label</label>
+                  <input
+                    type="text"
+                    value={event.label}
+                    onChange={(e) => updateEvent(event.id, { label: e.target.value })}
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-semibold text-gray-600 mb-1">
+                    {event.kind === 'one-off' ? 'Date' : 'From'}
+                  </label>
+                  <input
+                    type="date"
+                    value={event.date}
+                    onChange={(e) => e.target.value && updateEvent(event.id, { date: e.target.value })}
+                    className={inputClass}
+                  />
+                </div>
+                {(event.kind === 'recurring' || event.kind === 'pause') && (
+                  <div>
+                    <label className="block text-xs font-semibold text-gray-600 mb-1">Until (optional)</label>
+                    <input
+                      type="date"
+                      value={event.endDate ?? ''}
+                      onChange={(e) => updateEvent(event.id, { endDate: e.target.value || undefined })}
+                      className={inputClass}
+                    />
+                  </div>
+                )}
+                {event.kind !== 'pause' && (
+                  <div>
+                    <label className="block text-xs font-semibold text-gray-600 mb-1">
+                      {event.kind === 'step-up' ? 'Increase (% / year)' : `Amount (${money.inputSymbol}, negative to withdraw)`}
+                    </label>
+                    <NumberInput
+                      key={event.kind === 'step-up' ? 'percent' : 'amount'}
+                      field={event.kind === 'step-up' ? 'events.stepUp' : 'events.amount'}
+                      step={event.kind === 'step-up' ? '0.5' : '100'}
+                      value={event.amount}
+                      onChange={(amount) => updateEvent(event.id, { amount })}
+                      className={inputClass}
+                    />
+                  </div>
+                )}
+                {event.kind === 'recurring' && (
+                  <div>
+                    <label className="block text-xs font-semibold text-gray-600 mb-1">Every</label>
+                    <select
+                      value={event.interval ?? 'monthly'}
+                      onChange={(e) => updateEvent(event.id, { interval: e.target.value as 'monthly' | 'yearly' })}
+                      className={inputClass}
+                    >
+                      <option value="monthly">Month</option>
+                      <option value="yearly">Year</option>
+                    </select>
+                  </div>
+                )}
+              </div>
+              <div className="flex items-center justify-between mt-2">
+                <p className="text-xs text-gray-500">{describeEvent(event, money.format)}</p>
+                <button
+                  onClick={() => onChange(events.filter((e) => e.id !== event.id))}
+                  className="text-gray-400 hover:text-red-600"
+                  title="Remove event"
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
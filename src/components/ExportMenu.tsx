@@ -0,0 +1,79 @@
+import { Download } from 'lucide-react';
+import { calculationTable, projectionTable, toCsv, toJson, toSpreadsheetXml } from '../engine';
+import type { CalculationData, ProjectionData, Scenario } from '../engine';
+
+interface ExportMenuProps {
+  scenario: Scenario;
+  calculations: CalculationData[];
+  projections: ProjectionData[];
+}
+
+const downloadFile = (filename: string, content: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// Excel only detects UTF-8 in CSV files with a byte order mark
+const BOM = '\ufeff';
+
+export default function ExportMenu({ scenario, calculations, projections }: ExportMenuProps) {
+  const stamp = new Date().toISOString().slice(0, 10);
+  const assetNames = scenario.portfolio.assets.map((asset) => asset.name);
+
+  const exports = [
+    {
+      label: 'Projections CSV',
+      onClick: () => downloadFile(
+        `projections-${stamp}.csv`,
+        BOM + toCsv(scenario, projectionTable(projections, assetNames)),
+        'text/csv;charset=utf-8'
+      )
+    },
+    {
+      label: 'Growth CSV',
+      onClick: () => downloadFile(
+        `growth-${stamp}.csv`,
+        BOM + toCsv(scenario, calculationTable(calculations)),
+        'text/csv;charset=utf-8'
+      )
+    },
+    {
+      label: 'JSON',
+      onClick: () => downloadFile(
+        `scenario-${stamp}.json`,
+        toJson(scenario, calculations, projections),
+        'application/json'
+      )
+    },
+    {
+      label: 'Excel',
+      onClick: () => downloadFile(
+        `wealth-projection-${stamp}.xls`,
+        toSpreadsheetXml(scenario, [projectionTable(projections, assetNames), calculationTable(calculations)]),
+        'application/vnd.ms-excel'
+      )
+    }
+  ];
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 mb-4">
+      <p className="text-sm font-semibold text-gray-700 mr-2 flex items-center gap-1">
+        <Download className="w-4 h-4" />
+        Export:
+      </p>
+      {exports.map(({ label, onClick }) => (
+        <button
+          key={label}
+          onClick={onClick}
+          className="px-3 py-1 rounded-lg text-xs font-semibold bg-white text-gray-700 border-2 border-gray-300 hover:border-indigo-400 transition-all"
+        >
+          {label}
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+import { Receipt } from 'lucide-react';
+import type { FeeSettings, MoneyFormatter } from '../engine';
+import NumberInput from './NumberInput';
+
+interface FeesPanelProps {
+  settings: FeeSettings;
+  onSettingsChange: (settings: FeeSettings) => void;
+  money: MoneyFormatter;
+}
+
+export default function FeesPanel({ settings, onSettingsChange, money }: FeesPanelProps) {
+  const update = (key: keyof FeeSettings, value: number) =>
+    onSettingsChange({ ...settings, [key]: value });
+
+  return (
+    <div className="bg-gray-50 rounded-xl p-6 mb-8">
+      <h2 className="text-xl font-bold text-gray-800 mb-4 flex items-center gap-2">
+        <Receipt className="w-5 h-5 text-indigo-600" />
+        Fees
+      </h2>
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        <div>
+          <label className="block text-sm font-semibold text-gray-700 mb-2">
+            Annual Fee (% of balance)
+          </label>
+          <NumberInput
+            field="fees.annualFee"
+            step="0.05"
+            value={settings.annualFee}
+            onChange={(value) => update('annualFee', value)}
+            className="w-full px-4 py-2 border-2 border-gray-300 rounded-lg focus:border-indigo-500 focus:outline-none"
+          />
+          <p className="text-xs text-gray-500 mt-1">Fund expense ratio or advisory (AUM) fee</p>
+        </div>
+        <div>
+          <label className="block text-sm font-semibold text-gray-700 mb-2">
+            Fee per Contribution ({money.inputSymbol})
+          </label>
+          <NumberInput
+            field="fees.contributionFee"
+            value={settings.contributionFee}
+            onChange={(value) => update('contributionFee', value)}
+            className="w-full px-4 py-2 border-2 border-gray-300 rounded-lg focus:border-indigo-500 focus:outline-none"
+          />
+          <p className="text-xs text-gray-500 mt-1">Flat trading cost on each deposit</p>
+        </div>
+        <div>
+          <label className="block text-sm font-semibold text-gray-700 mb-2">
+            Withdrawal Fee (%)
+          </label>
+          <NumberInput
+            field="fees.withdrawalFee"
+            step="0.1"
+            value={settings.withdrawalFee}
+            onChange={(value) => update('withdrawalFee', value)}
+            className="w-full px-4 py-2 border-2 border-gray-300 rounded-lg focus:border-indigo-500 focus:outline-none"
+          />
+          <p className="text-xs text-gray-500 mt-1">Charged on every cash out</p>
+        </div>
+      </div>
+    </div>
+  );
+}
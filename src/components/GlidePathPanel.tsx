@@ -0,0 +1,77 @@
+import { TrendingDown } from 'lucide-react';
+import { getGlidePathReturn } from '../engine';
+import type { GlidePathSettings } from '../engine';
+import NumberInput from './NumberInput';
+
+interface GlidePathPanelProps {
+  settings: GlidePathSettings;
+  onSettingsChange: (settings: GlidePathSettings) => void;
+  portfolioActive: boolean;
+}
+
+const FIELDS: { key: Exclude<keyof GlidePathSettings, 'enabled'>; label: string }[] = [
+  { key: 'currentAge', label: 'Current Age' },
+  { key: 'retirementAge', label: 'Retirement Age' },
+  { key: 'startAllocation', label: 'Growth Allocation Now (%)' },
+  { key: 'endAllocation', label: 'Growth Allocation at Retirement (%)' },
+  { key: 'growthReturn', label: 'Growth Asset Return (%)' },
+  { key: 'defensiveReturn', label: 'Defensive Asset Return (%)' }
+];
+
+export default function GlidePathPanel({ settings, onSettingsChange, portfolioActive }: GlidePathPanelProps) {
+  const update = (key: Exclude<keyof GlidePathSettings, 'enabled'>, value: number) =>
+    onSettingsChange({ ...settings, [key]: value });
+
+  const years = Math.max(0, settings.retirementAge - settings.currentAge);
+
+  return (
+    <div className="bg-gray-50 rounded-xl p-6 mb-8">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+        <h2 className="text-xl font-bold text-gray-800 flex items-center gap-2">
+          <TrendingDown className="w-5 h-5 text-indigo-600" />
+          Glide Path
+        </h2>
+        <label className={`flex items-center gap-2 text-sm font-semibold text-gray-700 ${portfolioActive ? 'opacity-50' : 'cursor-pointer'}`}>
+          <input
+            type="checkbox"
+            checked={settings.enabled}
+            disabled={portfolioActive}
+            onChange={(e) => onSettingsChange({ ...settings, enabled: e.target.checked })}
+            className="w-4 h-4 text-indigo-600 rounded focus:ring-indigo-500"
+          />
+          Shift the return with age
+        </label>
+      </div>
+
+      {portfolioActive ? (
+        <p className="text-sm text-gray-500">The portfolio sets the return while it is on. Turn it off to use a glide path.</p>
+      ) : !settings.enabled ? (
+        <p className="text-sm text-gray-500">
+          Move from growth to defensive assets as retirement gets closer. The expected return is recalculated every year.
+        </p>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+            {FIELDS.map(({ key, label }) => (
+              <div key={key}>
+                <label className="block text-sm font-semibold text-gray-700 mb-2">{label}</label>
+                <NumberInput
+                  field={`glidePath.${key}`}
+                  step={key.endsWith('Age') ? '1' : '0.5'}
+                  value={settings[key]}
+                  onChange={(value) => update(key, value)}
+                  className="w-full px-4 py-2 border-2 border-gray-300 rounded-lg focus:border-indigo-500 focus:outline-none"
+                />
+              </div>
+            ))}
+          </div>
+          <p className="text-sm text-gray-600 mt-4">
+            Expected return <strong>{getGlidePathReturn(settings, 0).toFixed(2)}%</strong> now,
+            falling to <strong>{getGlidePathReturn(settings, years).toFixed(2)}%</strong> from
+            age {settings.retirementAge} ({years} years).
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,121 @@
+import { useState } from 'react';
+import { Crosshair } from 'lucide-react';
+import { SOLVE_FOR, getSolvableInputs, solveGoal } from '../engine';
+import type { GoalKind, GoalSeekResult, MoneyFormatter, Scenario, SolveFor } from '../engine';
+import NumberInput from './NumberInput';
+
+interface GoalSeekPanelProps {
+  scenario: Scenario;
+  onApply: (scenario: Scenario) => void;
+  money: MoneyFormatter;
+}
+
+const GOALS: Record<GoalKind, string> = {
+  'final-balance': 'Final balance of at least',
+  'sustainable-salary': 'Salary that never runs out',
+  'reach-by-date': 'Reach a balance by a date'
+};
+
+const inputClass = 'w-full px-4 py-2 border-2 border-gray-300 rounded-lg focus:border-indigo-500 focus:outline-none';
+
+export default function GoalSeekPanel({ scenario, onApply, money }: GoalSeekPanelProps) {
+  const [goalKind, setGoalKind] = useState<GoalKind>('final-balance');
+  const [target, setTarget] = useState(100000);
+  const [date, setDate] = useState(`${Number(scenario.startDate.slice(0, 4)) + 5}${scenario.startDate.slice(4)}`);
+  const [solveFor, setSolveFor] = useState<SolveFor>('investmentAmount');
+  const [solution, setSolution] = useState<GoalSeekResult | null>(null);
+
+  const solvable = getSolvableInputs(scenario);
+
+  const solve = () => setSolution(solveGoal(scenario, { kind: goalKind, target, date }, solveFor));
+
+  return (
+    <div className="bg-white rounded-lg p-4 border border-gray-200 mb-6">
+      <h3 className="text-lg font-bold text-gray-800 mb-3 flex items-center gap-2">
+        <Crosshair className="w-5 h-5 text-indigo-600" />
+        Goal Seek
+      </h3>
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+        <div>
+          <label className="block text-sm font-semibold text-gray-700 mb-2">Goal</label>
+          <select
+            value={goalKind}
+            onChange={(e) => { setGoalKind(e.target.value as GoalKind); setSolution(null); }}
+            className={inputClass}
+          >
+            {(Object.keys(GOALS) as GoalKind[]).map((kind) => (
+              <option key={kind} value={kind}>{GOALS[kind]}</option>
+            ))}
+          </select>
+        </div>
+        {goalKind !== 'sustainable-salary' && (
+          <div>
+            <label className="block text-sm font-semibold text-gray-700 mb-2">Target Balance ({money.inputSymbol})</label>
+            <NumberInput
+              field="goal.target"
+              value={target}
+              onChange={(value) => { setTarget(value); setSolution(null); }}
+              className={inputClass}
+            />
+          </div>
+        )}
+        {goalKind === 'reach-by-date' && (
+          <div>
+            <label className="block text-sm font-semibold text-gray-700 mb-2">By</label>
+            <input
+              type="date"
+              value={date}
+              onChange={(e) => { if (e.target.value) setDate(e.target.value); setSolution(null); }}
+              className={inputClass}
+            />
+          </div>
+        )}
+        <div>
+          <label className="block text-sm font-semibold text-gray-700 mb-2">Solve For</label>
+          <select
+            value={solveFor}
+            onChange={(e) => { setSolveFor(e.target.value as SolveFor); setSolution(null); }}
+            className={inputClass}
+          >
+            {(Object.keys(SOLVE_FOR) as SolveFor[]).map((key) => (
+              <option key={key} value={key} disabled={!solvable.includes(key)}>
+                {SOLVE_FOR[key].label} ({SOLVE_FOR[key].unit ?? money.inputSymbol}){solvable.includes(key) ? '' : ' - set by the portfolio or glide path'}
+              </option>
+            ))}
+          </select>
+        </div>
+        <button
+          onClick={solve}
+          className="px-4 py-2 rounded-lg text-sm font-semibold bg-indigo-600 text-white shadow-lg hover:bg-indigo-700 transition-all"
+        >
+          Solve
+        </button>
+      </div>
+
+      {solution && (
+        <div className={`flex flex-wrap items-center justify-between gap-3 mt-4 p-3 rounded-lg border ${
+          solution.status === 'solved' ? 'bg-green-50 border-green-200' : 'bg-yellow-50 border-yellow-200'
+        }`}>
+          <p className={`text-sm ${solution.status === 'solved' ? 'text-green-800' : 'text-yellow-800'}`}>
+            {solution.status === 'solved' && solution.value !== undefined && (
+              <strong>
+                {SOLVE_FOR[solveFor].label}:{' '}
+                {SOLVE_FOR[solveFor].unit ? `${solution.value.toLocaleString()} ${SOLVE_FOR[solveFor].unit}` : money.format(solution.value)}.{' '}
+              </strong>
+            )}
+            {solution.message}
+            {solution.result && ` Final balance with this value: ${money.format(solution.result.summary.finalBalance)}.`}
+          </p>
+          {solution.status === 'solved' && solution.value !== undefined && (
+            <button
+              onClick={() => onApply({ ...scenario, [solveFor]: solution.value })}
+              className="px-3 py-1 rounded-lg text-xs font-semibold bg-white text-gray-700 border-2 border-gray-300 hover:border-indigo-400 transition-all"
+            >
+              Apply
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,123 @@
+import { useState } from 'react';
+import { FileUp, X } from 'lucide-react';
+import { parseContributionCsv, parseScenarioJson } from '../engine';
+import type { Contribution, ImportError, MoneyFormatter, Scenario } from '../engine';
+
+interface ImportPanelProps {
+  contributions: Contribution[];
+  onScenarioImport: (scenario: Scenario) => void;
+  onContributionsChange: (contributions: Contribution[]) => void;
+  money: MoneyFormatter;
+}
+
+interface ImportReport {
+  title: string;
+  errors: ImportError[];
+  warnings: string[];
+}
+
+export default function ImportPanel({ contributions, onScenarioImport, onContributionsChange, money }: ImportPanelProps) {
+  const [report, setReport] = useState<ImportReport | null>(null);
+
+  const handleScenarioFile = async (file: File) => {
+    try {
+      const result = parseScenarioJson(await file.text());
+      onScenarioImport(result.scenario);
+      setReport(result.warnings.length > 0
+        ? { title: `Loaded ${file.name} with some values reset to defaults`, errors: [], warnings: result.warnings }
+        : null);
+    } catch (e) {
+      setReport({ title: `Couldn't load ${file.name}`, errors: [], warnings: [(e as Error).message] });
+    }
+  };
+
+  const handleScheduleFile = async (file: File) => {
+    const { contributions: parsed, errors } = parseContributionCsv(await file.text());
+    if (parsed.length > 0) onContributionsChange(parsed);
+    setReport(errors.length > 0
+      ? {
+          title: parsed.length > 0
+            ? `Imported ${parsed.length} rows from ${file.name}; ${errors.length} rows were skipped`
+            : `Couldn't import ${file.name}`,
+          errors,
+          warnings: []
+        }
+      : null);
+  };
+
+  const totalIn = contributions.filter((c) => c.amount > 0).reduce((sum, c) => sum + c.amount, 0);
+  const totalOut = contributions.filter((c) => c.amount < 0).reduce((sum, c) => sum - c.amount, 0);
+
+  return (
+    <div className="mb-8">
+      <div className="flex flex-wrap items-center gap-2">
+        <p className="text-sm font-semibold text-gray-700 mr-2 flex items-center gap-1">
+          <FileUp className="w-4 h-4" />
+          Import:
+        </p>
+        <label className="px-3 py-1 rounded-lg text-xs font-semibold bg-white text-gray-700 border-2 border-gray-300 hover:border-indigo-400 transition-all cursor-pointer">
+          Scenario (JSON)
+          <input
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleScenarioFile(file);
+              e.target.value = '';
+            }}
+          />
+        </label>
+        <label className="px-3 py-1 rounded-lg text-xs font-semibold bg-white text-gray-700 border-2 border-gray-300 hover:border-indigo-400 transition-all cursor-pointer">
+          Contribution Schedule (CSV)
+          <input
+            type="file"
+            accept=".csv,text/csv"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleScheduleFile(file);
+              e.target.value = '';
+            }}
+          />
+        </label>
+        <span className="text-xs text-gray-500">CSV rows: date (YYYY-MM-DD), amount (negative to withdraw), optional note</span>
+      </div>
+
+      {contributions.length > 0 && (
+        <div className="flex items-center justify-between mt-3 p-3 bg-indigo-50 rounded-lg border border-indigo-200">
+          <p className="text-sm text-indigo-800">
+            <strong>Contribution schedule active:</strong> {contributions.length} dated cash flows
+            ({money.signed(totalIn)} in, -{money.format(totalOut)} out) replace the fixed
+            investment amount in the growth chart.
+          </p>
+          <button
+            onClick={() => onContributionsChange([])}
+            className="px-3 py-1 rounded-lg text-xs font-semibold bg-white text-gray-700 border-2 border-gray-300 hover:border-red-400 transition-all"
+          >
+            Clear Schedule
+          </button>
+        </div>
+      )}
+
+      {report && (
+        <div className="flex items-start gap-3 mt-3 p-4 bg-red-50 border-2 border-red-200 rounded-lg">
+          <div className="flex-1">
+            <p className="text-sm font-semibold text-red-800 mb-1">{report.title}</p>
+            <ul className="text-sm text-red-700 list-disc list-inside max-h-40 overflow-y-auto">
+              {report.errors.map((error) => (
+                <li key={`line-${error.line}`}>Line {error.line}: {error.message}</li>
+              ))}
+              {report.warnings.map((warning) => (
+                <li key={warning}>{warning}</li>
+              ))}
+            </ul>
+          </div>
+          <button onClick={() => setReport(null)} className="text-red-600 hover:text-red-800">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
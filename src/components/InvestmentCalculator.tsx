@@ -1,58 +1,81 @@
-import { useState, useMemo } from 'react';
-import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
-import { Calendar, TrendingUp, DollarSign } from 'lucide-react';
-
-interface CalculationData {
-  period: number;
-  date: string;
-  totalInvested: number;
-  currentValue: number;
-  profit: number;
-  displayValue: number;
-}
-
-interface ProjectionData {
-  period: number;
-  startValue: number;
-  newCash: number;
-  totalInvested: number;  // Start + Cash In (what's actually invested before growth)
-  profit: number;         // The actual interest/growth earned this period
-  afterGrowth: number;    // Total Invested + Profit (value after growth, before cash out)
-  cashOut: number;
-  endValue: number;
-}
-
-type Frequency = 'once' | 'daily' | 'weekly' | 'monthly';
-type ProjectionFrequency = 'yearly' | 'monthly' | 'weekly' | 'daily';
-type ReinvestmentStrategy = 
-  | '2x' 
-  | 'repeat' 
-  | 'all-in' 
-  | 'double-down' 
-  | 'shield-value' 
-  | 'level-up' 
-  | 'pay-yourself' 
-  | 'capital-protect' 
-  | 'take-salary'
-  | 'custom';
-
-interface StrategyInfo {
-  name: string;
-  color: string;
-}
-
-const STRATEGIES: Record<ReinvestmentStrategy, StrategyInfo> = {
-  '2x': { name: '2X', color: 'bg-red-600' },
-  'repeat': { name: 'Repeat', color: 'bg-orange-600' },
-  'all-in': { name: 'All In', color: 'bg-green-600' },
-  'double-down': { name: 'Double Down', color: 'bg-blue-600' },
-  'shield-value': { name: 'Shield Value', color: 'bg-cyan-600' },
-  'level-up': { name: 'Level Up', color: 'bg-purple-600' },
-  'pay-yourself': { name: 'Pay Yourself', color: 'bg-pink-600' },
-  'capital-protect': { name: 'Capital Protect', color: 'bg-amber-600' },
-  'take-salary': { name: 'Take Salary', color: 'bg-gray-600' },
-  'custom': { name: 'Custom', color: 'bg-indigo-600' }
-};
+import { Fragment, useState, useMemo, useEffect } from 'react';
+import { ComposedChart, Line, Area, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, ReferenceLine } from 'recharts';
+import { Calendar, TrendingUp, DollarSign, Link2, AlertTriangle, X, BarChart3, ChevronDown, ChevronRight } from 'lucide-react';
+import {
+  ASSET_COLORS,
+  DEFAULT_SCENARIO,
+  SCENARIO_FIELDS,
+  STRATEGIES,
+  calculateGrowth,
+  checkScenario,
+  createMoneyFormatter,
+  decodeScenario,
+  describeBuiltStrategy,
+  encodeScenario,
+  formatPeriodDate,
+  getAverageGlidePathReturn,
+  getExpectedReturn,
+  getPeriodRate,
+  getPeriodsPerYear,
+  getProjectionBoundaries,
+  getProjectionStart,
+  getStrategyName,
+  hasFees,
+  hasGlidePath,
+  hasPortfolio,
+  projectFuture,
+  resolveEvents,
+  solveCustomAmount,
+  summarizeProjections,
+  toRealCalculations,
+  toRealProjections
+} from '../engine';
+import type {
+  BacktestSettings,
+  BuiltStrategy,
+  CalculationData,
+  CashFlowEvent,
+  Compounding,
+  Contribution,
+  CurrencySettings,
+  DrawdownSettings,
+  FeeSettings,
+  Frequency,
+  GlidePathSettings,
+  MonteCarloSettings,
+  PlanSettings,
+  PortfolioSettings,
+  ProjectionData,
+  ProjectionFrequency,
+  ProjectionInputs,
+  ReinvestmentStrategy,
+  Scenario,
+  SimulationMode,
+  TaxSettings,
+  ValueBasis
+} from '../engine';
+import MonteCarloPanel from './MonteCarloPanel';
+import BacktestPanel from './BacktestPanel';
+import ScenarioLibrary from './ScenarioLibrary';
+import StrategyComparison from './StrategyComparison';
+import ExportMenu from './ExportMenu';
+import ImportPanel from './ImportPanel';
+import EventTimeline from './EventTimeline';
+import TaxPanel from './TaxPanel';
+import FeesPanel from './FeesPanel';
+import GoalSeekPanel from './GoalSeekPanel';
+import DrawdownPanel from './DrawdownPanel';
+import PortfolioPanel from './PortfolioPanel';
+import GlidePathPanel from './GlidePathPanel';
+import DebtPanel from './DebtPanel';
+import CurrencyPanel from './CurrencyPanel';
+import TimelineChart from './TimelineChart';
+import StrategyBuilder from './StrategyBuilder';
+import PlanPanel from './PlanPanel';
+import AuditTrail from './AuditTrail';
+import DateInput from './DateInput';
+import NumberInput from './NumberInput';
+import SensitivityPanel from './SensitivityPanel';
 
 const DEFAULT_PROJECTION_DURATIONS: Record<ProjectionFrequency, number> = {
   yearly: 10,
@@ -61,7 +84,11 @@ const DEFAULT_PROJECTION_DURATIONS: Record<ProjectionFrequency, number> = {
   daily: 30
 };
 
-const formatNum = (n: number) => '$' + n.toLocaleString();
+const SIMULATION_MODES: Record<SimulationMode, string> = {
+  'deterministic': 'Fixed ROI',
+  'monte-carlo': 'Monte Carlo',
+  'historical': 'Historical'
+};
 
 const getStrategyDescription = (
   strategy: ReinvestmentStrategy,
@@ -73,7 +100,8 @@ const getStrategyDescription = (
   salaryAmount: number,
   perPeriodInvestment: number,
   targetAmount: number,
-  periods: number
+  periods: number,
+  formatNum: (n: number) => string
 ): string => {
   const bal = formatNum(balance);
   const prin = formatNum(principal);
@@ -105,6 +133,8 @@ const getStrategyDescription = (
       return `Withdraw all profit as income. Made ${prof}? Take it home → invest ${formatNum(balance - profit)}.`;
     case 'take-salary':
       return `Withdraw a fixed ${salary} each period as your salary. Balance after: ${formatNum(Math.max(0, balance - salaryAmount))}.`;
+    case 'drawdown':
+      return `Retire on your balance: withdraw a planned income each period and see how long ${bal} lasts.`;
     case 'custom':
       if (perPeriodInvestment >= 0) {
         return `To reach ${target}, invest ${perPeriod} each period (${totalCashNeeded} total over ${periods} periods).`;
@@ -119,21 +149,142 @@ const getStrategyDescription = (
 };
 
 export default function InvestmentCalculator() {
-  const [investmentAmount, setInvestmentAmount] = useState<number>(1000);
-  const [roiPercentage, setRoiPercentage] = useState<number>(10);
-  const [duration, setDuration] = useState<number>(12);
-  const [frequency, setFrequency] = useState<Frequency>('monthly');
-  const [startDate, setStartDate] = useState<string>('2026-01-01');
-  const [showTotal, setShowTotal] = useState<boolean>(true);
-  const [enableInflation, setEnableInflation] = useState<boolean>(false);
-  const [inflationRate, setInflationRate] = useState<number>(3);
-  const [projectionFrequency, setProjectionFrequency] = useState<ProjectionFrequency>('yearly');
-  const [projectionDuration, setProjectionDuration] = useState<number>(10);
-  const [reinvestmentStrategy, setReinvestmentStrategy] = useState<ReinvestmentStrategy>('all-in');
-  const [levelUpAmount, setLevelUpAmount] = useState<number>(50);
-  const [customGainPercent, setCustomGainPercent] = useState<number>(20);
-  const [customTargetAmount, setCustomTargetAmount] = useState<number>(50000);
-  const [salaryAmount, setSalaryAmount] = useState<number>(100);
+  // Restore a shared scenario from the URL, if there is one
+  const [urlScenario] = useState(() => decodeScenario(window.location.search));
+  const initial = urlScenario?.scenario ?? DEFAULT_SCENARIO;
+  const [urlWarnings, setUrlWarnings] = useState<string[]>(urlScenario?.warnings ?? []);
+  const [linkCopied, setLinkCopied] = useState<boolean>(false);
+  const [showStrategyComparison, setShowStrategyComparison] = useState<boolean>(false);
+
+  const [investmentAmount, setInvestmentAmount] = useState<number>(initial.investmentAmount);
+  const [roiPercentage, setRoiPercentage] = useState<number>(initial.roiPercentage);
+  const [duration, setDuration] = useState<number>(initial.duration);
+  const [frequency, setFrequency] = useState<Frequency>(initial.frequency);
+  const [startDate, setStartDate] = useState<string>(initial.startDate);
+  const [businessDays, setBusinessDays] = useState<boolean>(initial.businessDays);
+  const [showTotal, setShowTotal] = useState<boolean>(initial.showTotal);
+  const [enableInflation, setEnableInflation] = useState<boolean>(initial.enableInflation);
+  const [inflationRate, setInflationRate] = useState<number>(initial.inflationRate);
+  const [valueBasis, setValueBasis] = useState<ValueBasis>(initial.valueBasis);
+  const [compounding, setCompounding] = useState<Compounding>(initial.compounding);
+  const [projectionFrequency, setProjectionFrequency] = useState<ProjectionFrequency>(initial.projectionFrequency);
+  const [projectionDuration, setProjectionDuration] = useState<number>(initial.projectionDuration);
+  const [continueFromAccumulation, setContinueFromAccumulation] = useState<boolean>(initial.continueFromAccumulation);
+  const [reinvestmentStrategy, setReinvestmentStrategy] = useState<ReinvestmentStrategy>(initial.reinvestmentStrategy);
+  const [levelUpAmount, setLevelUpAmount] = useState<number>(initial.levelUpAmount);
+  const [customGainPercent, setCustomGainPercent] = useState<number>(initial.customGainPercent);
+  const [customTargetAmount, setCustomTargetAmount] = useState<number>(initial.customTargetAmount);
+  const [builtStrategy, setBuiltStrategy] = useState<BuiltStrategy>(initial.builtStrategy);
+  const [planSettings, setPlanSettings] = useState<PlanSettings>(initial.plan);
+  const [salaryAmount, setSalaryAmount] = useState<number>(initial.salaryAmount);
+  const [simulationMode, setSimulationMode] = useState<SimulationMode>(initial.simulationMode);
+  const [monteCarloSettings, setMonteCarloSettings] = useState<MonteCarloSettings>(initial.monteCarlo);
+  const [backtestSettings, setBacktestSettings] = useState<BacktestSettings>(initial.backtest);
+  const [contributions, setContributions] = useState<Contribution[]>(initial.contributions);
+  const [events, setEvents] = useState<CashFlowEvent[]>(initial.events);
+  const [taxSettings, setTaxSettings] = useState<TaxSettings>(initial.tax);
+  const [feeSettings, setFeeSettings] = useState<FeeSettings>(initial.fees);
+  const [drawdownSettings, setDrawdownSettings] = useState<DrawdownSettings>(initial.drawdown);
+  const [portfolioSettings, setPortfolioSettings] = useState<PortfolioSettings>(initial.portfolio);
+  const [glidePathSettings, setGlidePathSettings] = useState<GlidePathSettings>(initial.glidePath);
+  const [currencySettings, setCurrencySettings] = useState<CurrencySettings>(initial.currency);
+  const [explainedPeriod, setExplainedPeriod] = useState<number | null>(null);
+
+  const scenario = useMemo<Scenario>(() => ({
+    investmentAmount,
+    roiPercentage,
+    duration,
+    frequency,
+    startDate,
+    businessDays,
+    showTotal,
+    enableInflation,
+    inflationRate,
+    valueBasis,
+    compounding,
+    projectionFrequency,
+    projectionDuration,
+    continueFromAccumulation,
+    reinvestmentStrategy,
+    levelUpAmount,
+    customGainPercent,
+    customTargetAmount,
+    builtStrategy,
+    plan: planSettings,
+    salaryAmount,
+    simulationMode,
+    monteCarlo: monteCarloSettings,
+    backtest: backtestSettings,
+    contributions,
+    events,
+    tax: taxSettings,
+    fees: feeSettings,
+    drawdown: drawdownSettings,
+    portfolio: portfolioSettings,
+    glidePath: glidePathSettings,
+    currency: currencySettings
+  }), [investmentAmount, roiPercentage, duration, frequency, startDate, businessDays, showTotal, enableInflation, inflationRate, valueBasis, compounding, projectionFrequency, projectionDuration, continueFromAccumulation, reinvestmentStrategy, levelUpAmount, customGainPercent, customTargetAmount, builtStrategy, planSettings, salaryAmount, simulationMode, monteCarloSettings, backtestSettings, contributions, events, taxSettings, feeSettings, drawdownSettings, portfolioSettings, glidePathSettings, currencySettings]);
+
+  // Keep the URL in sync so a refresh or a copied link restores this scenario
+  useEffect(() => {
+    window.history.replaceState(null, '', `${window.location.pathname}?${encodeScenario(scenario)}${window.location.hash}`);
+  }, [scenario]);
+
+  const applyScenario = (next: Scenario) => {
+    setInvestmentAmount(next.investmentAmount);
+    setRoiPercentage(next.roiPercentage);
+    setDuration(next.duration);
+    setFrequency(next.frequency);
+    setStartDate(next.startDate);
+    setBusinessDays(next.businessDays);
+    setShowTotal(next.showTotal);
+    setEnableInflation(next.enableInflation);
+    setInflationRate(next.inflationRate);
+    setValueBasis(next.valueBasis);
+    setCompounding(next.compounding);
+    setProjectionFrequency(next.projectionFrequency);
+    setProjectionDuration(next.projectionDuration);
+    setContinueFromAccumulation(next.continueFromAccumulation);
+    setReinvestmentStrategy(next.reinvestmentStrategy);
+    setLevelUpAmount(next.levelUpAmount);
+    setCustomGainPercent(next.customGainPercent);
+    setCustomTargetAmount(next.customTargetAmount);
+    setBuiltStrategy(next.builtStrategy);
+    setPlanSettings(next.plan);
+    setSalaryAmount(next.salaryAmount);
+    setSimulationMode(next.simulationMode);
+    setMonteCarloSettings(next.monteCarlo);
+    setBacktestSettings(next.backtest);
+    setContributions(next.contributions);
+    setEvents(next.events);
+    setTaxSettings(next.tax);
+    setFeeSettings(next.fees);
+    setDrawdownSettings(next.drawdown);
+    setPortfolioSettings(next.portfolio);
+    setGlidePathSettings(next.glidePath);
+    setCurrencySettings(next.currency);
+  };
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setLinkCopied(true);
+      setTimeout(() => setLinkCopied(false), 2000);
+    } catch {
+      // Clipboard is unavailable outside secure contexts; the address bar still has the link
+    }
+  };
+
+  // A portfolio replaces the single ROI with the blend of its assets; otherwise a glide
+  // path sets it by age, and single-rate figures use its average over the projections
+  const portfolioActive = hasPortfolio(portfolioSettings);
+  const glidePathActive = !portfolioActive && hasGlidePath(glidePathSettings);
+  const projectionPeriodsPerYear = getPeriodsPerYear(projectionFrequency, businessDays);
+  const expectedReturn = glidePathActive
+    ? getAverageGlidePathReturn(glidePathSettings, duration / 12, projectionDuration / projectionPeriodsPerYear)
+    : getExpectedReturn(roiPercentage, portfolioSettings);
+  // Custom solves at the per-period rate the projections grow at, quoted per year
+  const customAnnualRate = getPeriodRate(expectedReturn, compounding, projectionPeriodsPerYear) * projectionPeriodsPerYear;
 
   // Update projection duration when frequency changes
   const handleProjectionFrequencyChange = (freq: ProjectionFrequency) => {
@@ -141,41 +292,6 @@ export default function InvestmentCalculator() {
     setProjectionDuration(DEFAULT_PROJECTION_DURATIONS[freq]);
   };
 
-  // Calculate the fixed per-period investment/withdrawal needed to reach target amount
-  const calculatePerPeriodInvestment = (
-    startBalance: number,
-    targetAmount: number,
-    periods: number,
-    annualRate: number,
-    freq: ProjectionFrequency
-  ): number => {
-    if (periods <= 0 || startBalance <= 0) return 0;
-    
-    // Get per-period rate
-    let rate: number;
-    switch (freq) {
-      case 'monthly': rate = annualRate / 12; break;
-      case 'weekly': rate = annualRate / 52; break;
-      case 'daily': rate = annualRate / 365; break;
-      default: rate = annualRate;
-    }
-    
-    if (rate === 0) return (targetAmount - startBalance) / periods;
-    
-    // Using future value of annuity formula + compound growth
-    // FV = P * (1+r)^n + C * ((1+r)^n - 1) / r
-    // Where P = starting balance, C = per-period contribution, r = rate, n = periods
-    // Solving for C: C = (FV - P * (1+r)^n) * r / ((1+r)^n - 1)
-    const growthFactor = Math.pow(1 + rate, periods);
-    const futureValueOfStart = startBalance * growthFactor;
-    
-    // If target < futureValue, result will be negative (meaning withdrawals needed)
-    const amountNeeded = targetAmount - futureValueOfStart;
-    const annuityFactor = (growthFactor - 1) / rate;
-    
-    return amountNeeded / annuityFactor;
-  };
-
   // Sync target amount when percentage changes
   const handleCustomPercentChange = (percent: number) => {
     setCustomGainPercent(percent);
@@ -185,15 +301,14 @@ export default function InvestmentCalculator() {
   // Sync percentage when target amount changes  
   const handleCustomTargetChange = (target: number) => {
     setCustomTargetAmount(target);
-    // Calculate what percentage this represents
-    if (calculations.length > 0) {
-      const startBalance = calculations[calculations.length - 1].currentValue;
-      const perPeriod = calculatePerPeriodInvestment(
-        startBalance,
-        target,
-        projectionDuration,
-        roiPercentage / 100,
-        projectionFrequency
+    // Calculate what percentage of the starting balance this represents, once there is one
+    const accumulatedValue = calculations[calculations.length - 1]?.currentValue ?? 0;
+    const startBalance = continueFromAccumulation ? accumulatedValue : investmentAmount;
+    if (startBalance > 0) {
+      const perPeriod = solveCustomAmount(
+        { investmentAmount, accumulatedValue, continueFromAccumulation, customTargetAmount: target, projectionDuration, projectionFrequency },
+        customAnnualRate,
+        projectionPeriodsPerYear
       );
       // Calculate as percentage of starting balance
       const percentOfBalance = (perPeriod / startBalance) * 100;
@@ -201,278 +316,124 @@ export default function InvestmentCalculator() {
     }
   };
 
-  const calculations = useMemo<CalculationData[]>(() => {
-    let data: CalculationData[] = [];
-    let totalInvested = 0;
-    let currentValue = 0;
-    
-    const start = new Date(startDate);
-    
-    if (frequency === 'once') {
-      const annualRate = roiPercentage / 100;
-      const months = duration;
-      const rate = annualRate * (months / 12);
-      const inflationAdjustment = enableInflation ? (1 - (inflationRate / 100) * (months / 12)) : 1;
-      
-      totalInvested = investmentAmount;
-      currentValue = investmentAmount * (1 + rate) * inflationAdjustment;
-      
-      for (let i = 0; i <= months; i++) {
-        let periodDate = new Date(start);
-        periodDate.setMonth(start.getMonth() + i);
-        
-        const periodRate = annualRate * (i / 12);
-        const periodInflation = enableInflation ? (1 - (inflationRate / 100) * (i / 12)) : 1;
-        const periodValue = i === 0 ? investmentAmount : investmentAmount * (1 + periodRate) * periodInflation;
-        const profit = periodValue - totalInvested;
-        
-        data.push({
-          period: i,
-          date: periodDate.toLocaleDateString('en-US', { month: 'short', year: 'numeric' }),
-          totalInvested: Math.round(totalInvested),
-          currentValue: Math.round(periodValue),
-          profit: Math.round(profit),
-          displayValue: showTotal ? Math.round(periodValue) : Math.round(profit)
-        });
-      }
-    } else {
-      const periodsPerYear = frequency === 'daily' ? 365 : frequency === 'weekly' ? 52 : 12;
-      const totalPeriods = Math.floor((duration / 12) * periodsPerYear);
-      const ratePerPeriod = roiPercentage / 100 / periodsPerYear;
-      const inflationPerPeriod = enableInflation ? inflationRate / 100 / periodsPerYear : 0;
-      
-      for (let i = 0; i <= totalPeriods; i++) {
-        if (i > 0) {
-          totalInvested += investmentAmount;
-          currentValue = (currentValue + investmentAmount) * (1 + ratePerPeriod);
-          
-          if (enableInflation) {
-            currentValue = currentValue / (1 + inflationPerPeriod);
-          }
-        }
-        
-        let periodDate = new Date(start);
-        if (frequency === 'daily') {
-          periodDate.setDate(start.getDate() + i);
-        } else if (frequency === 'weekly') {
-          periodDate.setDate(start.getDate() + (i * 7));
-        } else {
-          periodDate.setMonth(start.getMonth() + i);
-        }
-        
-        const profit = currentValue - totalInvested;
-        
-        data.push({
-          period: i,
-          date: periodDate.toLocaleDateString('en-US', { month: 'short', year: 'numeric' }),
-          totalInvested: Math.round(totalInvested),
-          currentValue: Math.round(currentValue),
-          profit: Math.round(profit),
-          displayValue: showTotal ? Math.round(currentValue) : Math.round(profit)
-        });
-      }
-    }
-    
-    return data;
-  }, [investmentAmount, roiPercentage, duration, frequency, startDate, showTotal, enableInflation, inflationRate]);
+  const calculations = useMemo<CalculationData[]>(() => calculateGrowth({
+    investmentAmount,
+    roiPercentage,
+    duration,
+    frequency,
+    startDate,
+    showTotal,
+    enableInflation,
+    inflationRate,
+    compounding,
+    contributions,
+    events,
+    fees: feeSettings,
+    portfolio: portfolioSettings,
+    glidePath: glidePathSettings,
+    businessDays
+  }), [investmentAmount, roiPercentage, duration, frequency, startDate, showTotal, enableInflation, inflationRate, compounding, contributions, events, feeSettings, portfolioSettings, glidePathSettings, businessDays]);
 
   const finalData = calculations[calculations.length - 1];
-  const totalReturn = finalData ? ((finalData.profit / finalData.totalInvested) * 100).toFixed(2) : '0';
 
-  const futureProjections = useMemo<ProjectionData[] | null>(() => {
+  // With inflation on, figures are shown in the chosen basis, nominal or today's money,
+  // and the other basis is kept alongside. Every series uses the rows' own deflators.
+  const showReal = enableInflation && valueBasis === 'real';
+  const otherBasisLabel = showReal ? 'Nominal' : 'Real';
+  const realCalculations = useMemo(
+    () => enableInflation ? toRealCalculations(calculations) : calculations,
+    [calculations, enableInflation]
+  );
+  const shownCalculations = showReal ? realCalculations : calculations;
+  const otherCalculations = showReal ? calculations : realCalculations;
+  const shownFinal = shownCalculations[shownCalculations.length - 1];
+  const otherFinal = otherCalculations[otherCalculations.length - 1];
+
+  const chartData = useMemo(() => shownCalculations.map((row, index) => ({
+    ...row,
+    otherDisplayValue: enableInflation ? otherCalculations[index].displayValue : undefined,
+    ...Object.fromEntries((row.assetValues ?? []).map((value, i) => [`asset${i}`, value]))
+  })), [shownCalculations, otherCalculations, enableInflation]);
+
+  // Nothing invested means no return to speak of, not a division by zero
+  const totalReturn = finalData && finalData.totalInvested > 0 ? ((finalData.profit / finalData.totalInvested) * 100).toFixed(2) : null;
+
+  const projectionInputs = useMemo<ProjectionInputs | null>(() => {
     if (!finalData) return null;
-    
-    const annualRate = roiPercentage / 100;
-    const monthlyRate = roiPercentage / 100 / 12;
-    const weeklyRate = roiPercentage / 100 / 52;
-    const dailyRate = roiPercentage / 100 / 365;
-    // Inflation for general adjustments (only if enabled)
-    const inflationAnnual = enableInflation ? inflationRate / 100 : 0;
-    const inflationMonthly = enableInflation ? inflationRate / 100 / 12 : 0;
-    const inflationWeekly = enableInflation ? inflationRate / 100 / 52 : 0;
-    const inflationDaily = enableInflation ? inflationRate / 100 / 365 : 0;
-    // Shield Value always uses inflation rate (regardless of toggle)
-    const shieldInflationAnnual = inflationRate / 100;
-    const shieldInflationMonthly = inflationRate / 100 / 12;
-    const shieldInflationWeekly = inflationRate / 100 / 52;
-    const shieldInflationDaily = inflationRate / 100 / 365;
-    
-    let projections: ProjectionData[] = [];
-    // Start from the original investment amount (Year 1 = first year of investment)
-    let balance = investmentAmount;
-    const originalPrincipal = investmentAmount;
-    
-    const getConfig = () => {
-      switch(projectionFrequency) {
-        case 'monthly':
-          return { rate: monthlyRate, inflation: inflationMonthly, shieldInflation: shieldInflationMonthly };
-        case 'weekly':
-          return { rate: weeklyRate, inflation: inflationWeekly, shieldInflation: shieldInflationWeekly };
-        case 'daily':
-          return { rate: dailyRate, inflation: inflationDaily, shieldInflation: shieldInflationDaily };
-        default:
-          return { rate: annualRate, inflation: inflationAnnual, shieldInflation: shieldInflationAnnual };
-      }
+
+    return {
+      investmentAmount,
+      roiPercentage: expectedReturn,
+      inflationRate,
+      compounding,
+      projectionFrequency,
+      projectionDuration,
+      reinvestmentStrategy,
+      levelUpAmount,
+      salaryAmount,
+      customTargetAmount,
+      builtStrategy,
+      plan: planSettings,
+      accumulatedValue: finalData.currentValue,
+      accumulatedBasis: finalData.totalInvested,
+      continueFromAccumulation,
+      tax: taxSettings,
+      fees: feeSettings,
+      enableInflation,
+      elapsedYears: duration / 12,
+      drawdown: drawdownSettings,
+      portfolio: portfolioSettings,
+      glidePath: glidePathSettings,
+      startDate: getProjectionStart(startDate, duration),
+      businessDays,
+      ...(events.length > 0
+        ? { periodEvents: resolveEvents(events, getProjectionBoundaries(startDate, duration, projectionFrequency, projectionDuration, businessDays)) }
+        : {})
     };
-    
-    const { rate, shieldInflation } = getConfig();
-    const periods = projectionDuration;
-    let previousProfit = 0;  // Track previous year's profit for "Double Down" strategy
-    
-    for (let i = 1; i <= periods; i++) {
-      // Year 1: bank starts at $0, you cash in your investment, and it grows for the year
-      if (i === 1) {
-        const year1Invested = balance;
-        const year1Profit = year1Invested * rate;
-        const year1EndValue = year1Invested + year1Profit;
-        
-        projections.push({
-          period: i,
-          startValue: 0,
-          newCash: Math.round(balance),
-          totalInvested: Math.round(year1Invested),
-          profit: Math.round(year1Profit),
-          afterGrowth: Math.round(year1EndValue),
-          cashOut: 0,
-          endValue: Math.round(year1EndValue)
-        });
-        
-        previousProfit = year1Profit;  // Store for next year's "Double Down"
-        balance = year1EndValue;  // Update balance for next year
-        continue;
-      }
-      
-      const startValue = balance;
-      
-      let newCash = 0;
-      let cashOut = 0;
-      let endValue = 0;
-      
-      // Apply reinvestment strategy
-      switch (reinvestmentStrategy) {
-        case '2x':
-          // Double your position: balance + same amount as balance
-          newCash = startValue;
-          endValue = (startValue + newCash) * (1 + rate);
-          break;
-          
-        case 'repeat':
-          // Balance + original principal
-          newCash = originalPrincipal;
-          endValue = (startValue + newCash) * (1 + rate);
-          break;
-          
-        case 'all-in':
-          // Just compound everything (no new cash, no withdrawal)
-          endValue = startValue * (1 + rate);
-          break;
-          
-        case 'double-down':
-          // Balance + LAST YEAR'S profit amount as new cash
-          newCash = previousProfit;
-          endValue = (startValue + newCash) * (1 + rate);
-          break;
-          
-        case 'shield-value':
-          // Balance + inflation adjustment (always uses inflation rate, regardless of toggle)
-          newCash = startValue * shieldInflation;
-          endValue = (startValue + newCash) * (1 + rate);
-          break;
-          
-        case 'level-up':
-          // Balance + fixed extra amount
-          newCash = levelUpAmount;
-          endValue = (startValue + newCash) * (1 + rate);
-          break;
-          
-        case 'pay-yourself':
-          // Take half the profit each period, reinvest the other half
-          // Balance grows, we take half the growth as cash out
-          const payYourselfGrowth = startValue * rate;
-          cashOut = payYourselfGrowth / 2;
-          // Current balance + half the profit stays invested
-          endValue = startValue + (payYourselfGrowth / 2);
-          break;
-          
-        case 'capital-protect':
-          // Keep ONLY principal invested, withdraw ALL profit
-          // First, withdraw any excess over principal (if startValue > principal)
-          // Then, withdraw the profit from the principal's growth
-          const excessOverPrincipal = Math.max(0, startValue - originalPrincipal);
-          const principalProfit = originalPrincipal * rate;
-          cashOut = excessOverPrincipal + principalProfit;
-          endValue = originalPrincipal; // End value stays at principal
-          break;
-          
-        case 'take-salary':
-          // Withdraw a fixed salary amount each period
-          // Balance grows, then we withdraw the fixed salary
-          const afterGrowth = startValue * (1 + rate);
-          cashOut = Math.min(salaryAmount, afterGrowth); // Can't withdraw more than available
-          endValue = Math.max(0, afterGrowth - cashOut);
-          break;
-          
-        case 'custom':
-          // Add a fixed per-period investment/withdrawal to reach target amount
-          const customPerPeriodAmount = calculatePerPeriodInvestment(
-            finalData.currentValue,
-            customTargetAmount,
-            periods,
-            roiPercentage / 100,
-            projectionFrequency
-          );
-          if (customPerPeriodAmount >= 0) {
-            // Positive = invest more (add at start of period, then grow)
-            newCash = customPerPeriodAmount;
-            endValue = (startValue + newCash) * (1 + rate);
-          } else {
-            // Negative = withdraw money (grow first, then withdraw at end)
-            const grownValue = startValue * (1 + rate);
-            cashOut = Math.min(Math.abs(customPerPeriodAmount), grownValue);
-            endValue = Math.max(0, grownValue - cashOut);
-          }
-          break;
-          
-        default:
-          endValue = startValue * (1 + rate);
-      }
-      
-      // Calculate the total invested (Start + Cash In)
-      const totalInvested = startValue + newCash;
-      
-      // Calculate actual profit (interest earned this period)
-      // For cash-in strategies: profit = totalInvested * rate
-      // For cash-out strategies: profit = startValue * rate
-      const actualProfit = newCash > 0 
-        ? totalInvested * rate 
-        : startValue * rate;
-      
-      // Calculate after growth value (before cash out)
-      const afterGrowthValue = newCash > 0 
-        ? totalInvested * (1 + rate) 
-        : startValue * (1 + rate);
-      
-      projections.push({
-        period: i,
-        startValue: Math.round(startValue),
-        newCash: Math.round(newCash),
-        totalInvested: Math.round(totalInvested),
-        profit: Math.round(actualProfit),
-        afterGrowth: Math.round(afterGrowthValue),
-        cashOut: Math.round(cashOut),
-        endValue: Math.round(endValue)
-      });
-      
-      previousProfit = actualProfit;  // Store for next year's "Double Down"
-      balance = endValue;
-    }
-    
-    return projections;
-  }, [finalData, roiPercentage, investmentAmount, enableInflation, inflationRate, projectionFrequency, projectionDuration, reinvestmentStrategy, levelUpAmount, customGainPercent, salaryAmount, customTargetAmount, calculatePerPeriodInvestment]);
+  }, [finalData, expectedReturn, investmentAmount, inflationRate, compounding, projectionFrequency, projectionDuration, continueFromAccumulation, reinvestmentStrategy, levelUpAmount, salaryAmount, customTargetAmount, builtStrategy, planSettings, events, startDate, businessDays, duration, taxSettings, feeSettings, enableInflation, drawdownSettings, portfolioSettings, glidePathSettings]);
+
+  const futureProjections = useMemo<ProjectionData[] | null>(
+    () => projectionInputs ? projectFuture(projectionInputs) : null,
+    [projectionInputs]
+  );
+  const realProjections = useMemo(
+    () => futureProjections && enableInflation ? toRealProjections(futureProjections) : futureProjections,
+    [futureProjections, enableInflation]
+  );
+  const shownProjections = showReal ? realProjections : futureProjections;
+  const otherProjections = showReal ? futureProjections : realProjections;
+
+  // The audit trail is only worked out once a row is opened
+  const explaining = explainedPeriod !== null;
+  const explainedProjections = useMemo<ProjectionData[] | null>(
+    () => projectionInputs && explaining ? projectFuture({ ...projectionInputs, explain: true }) : null,
+    [projectionInputs, explaining]
+  );
+
+  const periodLabel = projectionFrequency === 'yearly' ? 'Year' :
+    projectionFrequency === 'monthly' ? 'Month' :
+    projectionFrequency === 'weekly' ? 'Week' : 'Day';
+
+  // Figures are computed in the scenario currency and converted only for display
+  const money = useMemo(() => createMoneyFormatter(currencySettings), [currencySettings]);
+
+  // Results that can't be trusted: blocked ones are hidden, flagged ones carry a warning
+  const issues = useMemo(
+    () => checkScenario(scenario, calculations, futureProjections, money.format),
+    [scenario, calculations, futureProjections, money]
+  );
+  const blockedIssues = issues.filter((issue) => issue.severity === 'blocked');
+  const fieldLabel = (path: string) => SCENARIO_FIELDS.find((field) => field.path === path)?.label ?? path;
 
-  const totalCashOut = futureProjections?.reduce((sum, p) => sum + p.cashOut, 0) ?? 0;
-  const totalNewCash = futureProjections?.reduce((sum, p) => sum + p.newCash, 0) ?? 0;
-  const totalProfitFromProjections = futureProjections?.reduce((sum, p) => sum + p.profit, 0) ?? 0;
+  const projectionSummary = summarizeProjections(shownProjections ?? []);
+  const otherSummary = summarizeProjections(otherProjections ?? []);
+  // The figure in the basis not shown, under the one that is
+  const otherBasis = (value: string) => enableInflation && (
+    <p className="text-xs text-gray-500 mt-1">{otherBasisLabel}: {value}</p>
+  );
+  const showFees = hasFees(feeSettings);
+  const showNetCashOut = taxSettings.enabled || showFees;
+  const projectionColumns = 7 + [taxSettings.enabled, showFees, showNetCashOut, enableInflation].filter(Boolean).length;
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 p-4 md:p-8">
@@ -483,26 +444,54 @@ export default function InvestmentCalculator() {
               <TrendingUp className="w-8 h-8 text-indigo-600" />
               <h1 className="text-3xl font-bold text-gray-800">Investment Growth Calculator</h1>
             </div>
-            <a 
-              href="https://rtbruhan.github.io" 
-              target="_blank" 
-              rel="noopener noreferrer"
-              className="text-sm text-gray-500 hover:text-indigo-600 transition-colors font-medium"
-            >
-              by RTBRuhan
-            </a>
+            <div className="flex items-center gap-4">
+              <button
+                onClick={handleCopyLink}
+                className="flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-semibold bg-white text-gray-700 border-2 border-gray-300 hover:border-indigo-400 transition-all"
+              >
+                <Link2 className="w-4 h-4" />
+                {linkCopied ? 'Link Copied!' : 'Copy Share Link'}
+              </button>
+              <a 
+                href="https://rtbruhan.github.io" 
+                target="_blank" 
+                rel="noopener noreferrer"
+                className="text-sm text-gray-500 hover:text-indigo-600 transition-colors font-medium"
+              >
+                by RTBRuhan
+              </a>
+            </div>
           </div>
 
+          {urlWarnings.length > 0 && (
+            <div className="flex items-start gap-3 mb-6 p-4 bg-amber-50 border-2 border-amber-300 rounded-lg">
+              <AlertTriangle className="w-5 h-5 text-amber-600 flex-shrink-0 mt-0.5" />
+              <div className="flex-1">
+                <p className="text-sm font-semibold text-amber-800 mb-1">
+                  Some values in this link couldn't be used:
+                </p>
+                <ul className="text-sm text-amber-700 list-disc list-inside">
+                  {urlWarnings.map((warning) => (
+                    <li key={warning}>{warning}</li>
+                  ))}
+                </ul>
+              </div>
+              <button onClick={() => setUrlWarnings([])} className="text-amber-600 hover:text-amber-800">
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+          )}
+
           <div className="grid md:grid-cols-2 gap-6 mb-8">
             <div className="space-y-4">
               <div>
                 <label className="block text-sm font-semibold text-gray-800 mb-2">
-                  Investment Amount ($)
+                  Investment Amount ({money.inputSymbol})
                 </label>
-                <input
-                  type="number"
+                <NumberInput
+                  field="investmentAmount"
                   value={investmentAmount}
-                  onChange={(e) => setInvestmentAmount(Number(e.target.value))}
+                  onChange={setInvestmentAmount}
                   className="w-full px-4 py-2 border-2 border-gray-300 rounded-lg focus:border-indigo-500 focus:outline-none"
                 />
               </div>
@@ -511,23 +500,46 @@ export default function InvestmentCalculator() {
                 <label className="block text-sm font-semibold text-gray-800 mb-2">
                   ROI Percentage (%)
                 </label>
-                <input
-                  type="number"
+                <NumberInput
+                  field="roiPercentage"
                   step="0.1"
-                  value={roiPercentage}
-                  onChange={(e) => setRoiPercentage(Number(e.target.value))}
-                  className="w-full px-4 py-2 border-2 border-gray-300 rounded-lg focus:border-indigo-500 focus:outline-none"
+                  value={portfolioActive || glidePathActive ? Number(expectedReturn.toFixed(2)) : roiPercentage}
+                  onChange={setRoiPercentage}
+                  disabled={portfolioActive || glidePathActive}
+                  className="w-full px-4 py-2 border-2 border-gray-300 rounded-lg focus:border-indigo-500 focus:outline-none disabled:bg-gray-100 disabled:text-gray-500"
                 />
+                {portfolioActive && (
+                  <p className="text-xs text-gray-500 mt-1">Blended from the portfolio below</p>
+                )}
+                {glidePathActive && (
+                  <p className="text-xs text-gray-500 mt-1">Average of the glide path below; it changes every year</p>
+                )}
+              </div>
+
+              <div>
+                <label className="block text-sm font-semibold text-gray-800 mb-2">
+                  Compounding
+                </label>
+                <select
+                  value={compounding}
+                  onChange={(e) => setCompounding(e.target.value as Compounding)}
+                  className="w-full px-4 py-2 border-2 border-gray-300 rounded-lg focus:border-indigo-500 focus:outline-none"
+                >
+                  <option value="annual">Annual</option>
+                  <option value="monthly">Monthly</option>
+                  <option value="daily">Daily</option>
+                  <option value="continuous">Continuous</option>
+                </select>
               </div>
 
               <div>
                 <label className="block text-sm font-semibold text-gray-800 mb-2">
                   Investment Duration (months)
                 </label>
-                <input
-                  type="number"
+                <NumberInput
+                  field="duration"
                   value={duration}
-                  onChange={(e) => setDuration(Number(e.target.value))}
+                  onChange={setDuration}
                   className="w-full px-4 py-2 border-2 border-gray-300 rounded-lg focus:border-indigo-500 focus:outline-none"
                 />
               </div>
@@ -539,10 +551,9 @@ export default function InvestmentCalculator() {
                   <Calendar className="w-4 h-4" />
                   Investment Start Date
                 </label>
-                <input
-                  type="date"
+                <DateInput
                   value={startDate}
-                  onChange={(e) => setStartDate(e.target.value)}
+                  onChange={setStartDate}
                   className="w-full px-4 py-2 border-2 border-gray-300 rounded-lg focus:border-indigo-500 focus:outline-none"
                 />
               </div>
@@ -561,6 +572,17 @@ export default function InvestmentCalculator() {
                   <option value="weekly">Weekly</option>
                   <option value="monthly">Monthly</option>
                 </select>
+                {frequency === 'daily' && (
+                  <label className="flex items-center gap-2 mt-2 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={businessDays}
+                      onChange={(e) => setBusinessDays(e.target.checked)}
+                      className="w-4 h-4 accent-indigo-600"
+                    />
+                    Business days only (skip weekends)
+                  </label>
+                )}
               </div>
 
               <div>
@@ -604,19 +626,86 @@ export default function InvestmentCalculator() {
                     <label className="block text-sm font-semibold text-gray-700 mb-2">
                       Inflation Rate (%)
                     </label>
-                    <input
-                      type="number"
+                    <NumberInput
+                      field="inflationRate"
                       step="0.1"
                       value={inflationRate}
-                      onChange={(e) => setInflationRate(Number(e.target.value))}
+                      onChange={setInflationRate}
                       className="w-full px-4 py-2 border-2 border-gray-300 rounded-lg focus:border-indigo-500 focus:outline-none"
                     />
+                    <div className="flex gap-2 mt-3">
+                      {(['nominal', 'real'] as ValueBasis[]).map((basis) => (
+                        <button
+                          key={basis}
+                          onClick={() => setValueBasis(basis)}
+                          className={`flex-1 px-3 py-1 rounded-lg text-xs font-semibold transition-all ${
+                            valueBasis === basis
+                              ? 'bg-indigo-600 text-white shadow-lg'
+                              : 'bg-white text-gray-700 border-2 border-gray-300 hover:border-indigo-400'
+                          }`}
+                        >
+                          {basis === 'nominal' ? 'Nominal' : "Today's money"}
+                        </button>
+                      ))}
+                    </div>
+                    <p className="text-xs text-gray-500 mt-1">
+                      {showReal
+                        ? 'Every amount is deflated to today\'s money; nominal values are shown next to them'
+                        : 'Amounts are nominal; real values (in today\'s money) are shown next to them'}
+                    </p>
                   </div>
                 )}
               </div>
             </div>
           </div>
 
+          <CurrencyPanel settings={currencySettings} onSettingsChange={setCurrencySettings} />
+
+          <ImportPanel
+            contributions={contributions}
+            onScenarioImport={applyScenario}
+            onContributionsChange={setContributions}
+            money={money}
+          />
+
+          <EventTimeline events={events} startDate={startDate} onChange={setEvents} money={money} />
+
+          <FeesPanel settings={feeSettings} onSettingsChange={setFeeSettings} money={money} />
+
+          <PortfolioPanel
+            settings={portfolioSettings}
+            onSettingsChange={setPortfolioSettings}
+            onUseVolatility={(volatility) => setMonteCarloSettings({ ...monteCarloSettings, volatility })}
+          />
+
+          <GlidePathPanel
+            settings={glidePathSettings}
+            onSettingsChange={setGlidePathSettings}
+            portfolioActive={portfolioActive}
+          />
+
+          {issues.length > 0 && (
+            <div className={`flex items-start gap-3 mb-6 p-4 border-2 rounded-lg ${
+              blockedIssues.length > 0 ? 'bg-red-50 border-red-300' : 'bg-amber-50 border-amber-300'
+            }`}>
+              <AlertTriangle className={`w-5 h-5 flex-shrink-0 mt-0.5 ${blockedIssues.length > 0 ? 'text-red-600' : 'text-amber-600'}`} />
+              <div className="flex-1">
+                <p className={`text-sm font-semibold mb-1 ${blockedIssues.length > 0 ? 'text-red-800' : 'text-amber-800'}`}>
+                  {blockedIssues.length > 0
+                    ? 'Some results are meaningless with these inputs and are hidden:'
+                    : 'Read these results with care:'}
+                </p>
+                <ul className="text-sm list-disc list-inside">
+                  {issues.map((issue) => (
+                    <li key={issue.message} className={issue.severity === 'blocked' ? 'text-red-700' : 'text-amber-700'}>
+                      <strong>{fieldLabel(issue.field)}:</strong> {issue.message}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            </div>
+          )}
+
           {finalData && (
             <div className="grid md:grid-cols-3 gap-4 mb-8">
               <div className="bg-gradient-to-br from-blue-500 to-blue-600 rounded-xl p-6 text-white">
@@ -624,7 +713,10 @@ export default function InvestmentCalculator() {
                   <DollarSign className="w-5 h-5" />
                   <p className="text-sm font-medium opacity-90">Total Invested</p>
                 </div>
-                <p className="text-3xl font-bold">${finalData.totalInvested.toLocaleString()}</p>
+                <p className="text-3xl font-bold">{money.format(shownFinal.totalInvested)}</p>
+                {enableInflation && (
+                  <p className="text-sm mt-1 opacity-90">{otherBasisLabel}: {money.format(otherFinal.totalInvested)}</p>
+                )}
               </div>
 
               <div className="bg-gradient-to-br from-green-500 to-green-600 rounded-xl p-6 text-white">
@@ -632,7 +724,10 @@ export default function InvestmentCalculator() {
                   <TrendingUp className="w-5 h-5" />
                   <p className="text-sm font-medium opacity-90">Total Profit</p>
                 </div>
-                <p className="text-3xl font-bold">${finalData.profit.toLocaleString()}</p>
+                <p className="text-3xl font-bold">{money.format(shownFinal.profit)}</p>
+                {enableInflation && (
+                  <p className="text-sm mt-1 opacity-90">{otherBasisLabel}: {money.format(otherFinal.profit)}</p>
+                )}
               </div>
 
               <div className="bg-gradient-to-br from-indigo-500 to-indigo-600 rounded-xl p-6 text-white">
@@ -640,18 +735,26 @@ export default function InvestmentCalculator() {
                   <DollarSign className="w-5 h-5" />
                   <p className="text-sm font-medium opacity-90">Final Value</p>
                 </div>
-                <p className="text-3xl font-bold">${finalData.currentValue.toLocaleString()}</p>
-                <p className="text-sm mt-1 opacity-90">Return: {totalReturn}%</p>
+                <p className="text-3xl font-bold">{money.format(shownFinal.currentValue)}</p>
+                {enableInflation && (
+                  <p className="text-sm mt-1 opacity-90">{otherBasisLabel}: {money.format(otherFinal.currentValue)}</p>
+                )}
+                <p className="text-sm mt-1 opacity-90">Return: {totalReturn !== null ? `${totalReturn}%` : 'n/a'}</p>
+                {shownFinal.feesPaid !== undefined && (
+                  <p className="text-sm mt-1 opacity-90">
+                    Fees: {money.format(shownFinal.feesPaid)} (would have grown to {money.format(shownFinal.feeDrag ?? 0)})
+                  </p>
+                )}
               </div>
             </div>
           )}
 
           <div className="bg-gray-50 rounded-xl p-6 mb-8">
             <h2 className="text-xl font-bold text-gray-800 mb-4">
-              Growth Projection ({showTotal ? 'Total Value' : 'Profit Only'})
+              Growth Projection ({showTotal ? 'Total Value' : 'Profit Only'}{showReal && ", in today's money"})
             </h2>
             <ResponsiveContainer width="100%" height={400}>
-              <LineChart data={calculations}>
+              <ComposedChart data={chartData}>
                 <CartesianGrid strokeDasharray="3 3" stroke="#e0e0e0" />
                 <XAxis 
                   dataKey="date" 
@@ -661,13 +764,48 @@ export default function InvestmentCalculator() {
                 <YAxis 
                   stroke="#666"
                   style={{ fontSize: '12px' }}
-                  tickFormatter={(value) => `$${(value / 1000).toFixed(0)}k`}
+                  tickFormatter={(value) => money.compact(value)}
                 />
+                {glidePathActive && (
+                  <YAxis
+                    yAxisId="allocation"
+                    orientation="right"
+                    domain={[0, 100]}
+                    stroke="#666"
+                    style={{ fontSize: '12px' }}
+                    tickFormatter={(value) => `${value}%`}
+                  />
+                )}
                 <Tooltip 
-                  formatter={(value) => `$${Number(value).toLocaleString()}`}
+                  formatter={(value, name) => name === 'Growth Allocation'
+                    ? `${Number(value).toFixed(0)}%`
+                    : money.format(Number(value))}
                   contentStyle={{ backgroundColor: '#fff', border: '2px solid #e0e0e0', borderRadius: '8px' }}
                 />
                 <Legend />
+                {glidePathActive && (
+                  <Line
+                    yAxisId="allocation"
+                    type="stepAfter"
+                    dataKey="allocation"
+                    stroke="#f97316"
+                    strokeWidth={2}
+                    name="Growth Allocation"
+                    dot={false}
+                  />
+                )}
+                {portfolioActive && showTotal && portfolioSettings.assets.map((asset, i) => (
+                  <Area
+                    key={asset.id}
+                    type="monotone"
+                    dataKey={`asset${i}`}
+                    stackId="assets"
+                    stroke={ASSET_COLORS[i % ASSET_COLORS.length]}
+                    fill={ASSET_COLORS[i % ASSET_COLORS.length]}
+                    fillOpacity={0.25}
+                    name={asset.name}
+                  />
+                ))}
                 <Line 
                   type="monotone" 
                   dataKey="displayValue" 
@@ -685,11 +823,32 @@ export default function InvestmentCalculator() {
                   name="Total Invested"
                   dot={false}
                 />
-              </LineChart>
+                {enableInflation && (
+                  <Line
+                    type="monotone"
+                    dataKey="otherDisplayValue"
+                    stroke="#10b981"
+                    strokeWidth={2}
+                    name={`${otherBasisLabel} ${showTotal ? 'Value' : 'Profit'}`}
+                    dot={false}
+                  />
+                )}
+                {calculations.filter((row) => row.events).map((row) => (
+                  <ReferenceLine
+                    key={row.period}
+                    x={row.date}
+                    stroke="#f59e0b"
+                    strokeDasharray="4 4"
+                    label={{ value: row.events?.join(', '), position: 'insideTopLeft', fill: '#b45309', fontSize: 11 }}
+                  />
+                ))}
+              </ComposedChart>
             </ResponsiveContainer>
           </div>
 
-          {futureProjections && (
+          <ScenarioLibrary currentScenario={scenario} onLoad={applyScenario} money={money} real={showReal} />
+
+          {futureProjections && shownProjections && (
             <div className="bg-gradient-to-br from-purple-50 to-pink-50 rounded-xl p-6">
               <div className="mb-6">
                 <h2 className="text-2xl font-bold text-gray-800 mb-4">
@@ -712,25 +871,59 @@ export default function InvestmentCalculator() {
                   ))}
                   <div className="flex items-center gap-2 ml-4">
                     <label className="text-sm font-medium text-gray-600">Duration:</label>
-                    <input
-                      type="number"
-                      value={projectionDuration}
-                      onChange={(e) => setProjectionDuration(Number(e.target.value))}
-                      className="w-20 px-3 py-2 border-2 border-gray-300 rounded-lg text-center font-semibold focus:border-indigo-500 focus:outline-none"
-                      min={1}
-                    />
+                    <div>
+                      <NumberInput
+                        field="projectionDuration"
+                        value={projectionDuration}
+                        onChange={setProjectionDuration}
+                        className="w-20 px-3 py-2 border-2 border-gray-300 rounded-lg text-center font-semibold focus:border-indigo-500 focus:outline-none"
+                      />
+                    </div>
                     <span className="text-sm text-gray-500">
                       {projectionFrequency === 'yearly' ? 'years' : 
                        projectionFrequency === 'monthly' ? 'months' :
                        projectionFrequency === 'weekly' ? 'weeks' : 'days'}
                     </span>
                   </div>
+                  <label className="flex items-center gap-2 ml-4 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={continueFromAccumulation}
+                      onChange={(e) => setContinueFromAccumulation(e.target.checked)}
+                      className="w-4 h-4 accent-indigo-600"
+                    />
+                    Continue from the growth chart ({money.format(finalData?.currentValue ?? 0)})
+                  </label>
+                  {projectionFrequency === 'daily' && (
+                    <label className="flex items-center gap-2 ml-4 text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={businessDays}
+                        onChange={(e) => setBusinessDays(e.target.checked)}
+                        className="w-4 h-4 accent-indigo-600"
+                      />
+                      Business days only
+                    </label>
+                  )}
                 </div>
 
                 <div className="space-y-3">
-                  <p className="text-sm font-semibold text-gray-700">Reinvestment Strategy:</p>
+                  <div className="flex items-center justify-between">
+                    <p className="text-sm font-semibold text-gray-700">Reinvestment Strategy:</p>
+                    <button
+                      onClick={() => setShowStrategyComparison(!showStrategyComparison)}
+                      className={`flex items-center gap-2 px-3 py-1 rounded-lg text-xs font-semibold transition-all ${
+                        showStrategyComparison
+                          ? 'bg-indigo-600 text-white shadow-lg'
+                          : 'bg-white text-gray-700 border-2 border-gray-300 hover:border-indigo-400'
+                      }`}
+                    >
+                      <BarChart3 className="w-4 h-4" />
+                      Compare All Strategies
+                    </button>
+                  </div>
                   <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-5 gap-2">
-                    {(Object.keys(STRATEGIES) as ReinvestmentStrategy[]).map((strategy) => (
+                    {(Object.keys(STRATEGIES) as ReinvestmentStrategy[]).filter((strategy) => strategy !== 'built').map((strategy) => (
                       <button
                         key={strategy}
                         onClick={() => setReinvestmentStrategy(strategy)}
@@ -744,20 +937,35 @@ export default function InvestmentCalculator() {
                       </button>
                     ))}
                   </div>
-                  
+
+                  <StrategyBuilder
+                    strategy={builtStrategy}
+                    active={reinvestmentStrategy === 'built'}
+                    onStrategyChange={setBuiltStrategy}
+                    onSelect={(strategy) => {
+                      setBuiltStrategy(strategy);
+                      setReinvestmentStrategy('built');
+                    }}
+                    money={money}
+                  />
+
                   {(() => {
-                    const startBalance = finalData?.currentValue ?? 0;
-                    const perPeriodInvestment = calculatePerPeriodInvestment(
-                      startBalance,
-                      customTargetAmount,
-                      projectionDuration,
-                      roiPercentage / 100,
-                      projectionFrequency
+                    const perPeriodInvestment = solveCustomAmount(
+                      {
+                        investmentAmount,
+                        accumulatedValue: finalData?.currentValue ?? 0,
+                        continueFromAccumulation,
+                        customTargetAmount,
+                        projectionDuration,
+                        projectionFrequency
+                      },
+                      customAnnualRate,
+                      projectionPeriodsPerYear
                     );
                     return (
                       <p className="text-sm text-gray-600 mt-2 p-3 bg-white rounded-lg border border-gray-200">
-                        <strong className="text-gray-800">{STRATEGIES[reinvestmentStrategy].name}:</strong>{' '}
-                        {finalData && getStrategyDescription(
+                        <strong className="text-gray-800">{getStrategyName(reinvestmentStrategy, builtStrategy)}:</strong>{' '}
+                        {reinvestmentStrategy === 'built' ? describeBuiltStrategy(builtStrategy.rules, money.format) : finalData && getStrategyDescription(
                           reinvestmentStrategy,
                           finalData.currentValue,
                           investmentAmount,
@@ -767,7 +975,8 @@ export default function InvestmentCalculator() {
                           salaryAmount,
                           perPeriodInvestment,
                           customTargetAmount,
-                          projectionDuration
+                          projectionDuration,
+                          money.format
                         )}
                       </p>
                     );
@@ -776,12 +985,12 @@ export default function InvestmentCalculator() {
                   {reinvestmentStrategy === 'level-up' && (
                     <div className="mt-3">
                       <label className="block text-sm font-semibold text-gray-700 mb-2">
-                        Fixed Extra Amount ($)
+                        Fixed Extra Amount ({money.inputSymbol})
                       </label>
-                      <input
-                        type="number"
+                      <NumberInput
+                        field="levelUpAmount"
                         value={levelUpAmount}
-                        onChange={(e) => setLevelUpAmount(Number(e.target.value))}
+                        onChange={setLevelUpAmount}
                         className="w-full max-w-xs px-4 py-2 border-2 border-gray-300 rounded-lg focus:border-purple-500 focus:outline-none"
                       />
                     </div>
@@ -790,12 +999,12 @@ export default function InvestmentCalculator() {
                   {reinvestmentStrategy === 'take-salary' && (
                     <div className="mt-3">
                       <label className="block text-sm font-semibold text-gray-700 mb-2">
-                        Salary Amount ($)
+                        Salary Amount ({money.inputSymbol})
                       </label>
-                      <input
-                        type="number"
+                      <NumberInput
+                        field="salaryAmount"
                         value={salaryAmount}
-                        onChange={(e) => setSalaryAmount(Number(e.target.value))}
+                        onChange={setSalaryAmount}
                         className="w-full max-w-xs px-4 py-2 border-2 border-gray-300 rounded-lg focus:border-gray-500 focus:outline-none"
                       />
                       <p className="text-xs text-gray-500 mt-1">
@@ -804,17 +1013,30 @@ export default function InvestmentCalculator() {
                     </div>
                   )}
 
+                  {reinvestmentStrategy === 'drawdown' && (
+                    <DrawdownPanel
+                      settings={drawdownSettings}
+                      onSettingsChange={setDrawdownSettings}
+                      salaryAmount={salaryAmount}
+                      onSalaryChange={setSalaryAmount}
+                      projectionInputs={projectionInputs}
+                      projections={shownProjections}
+                      periodLabel={periodLabel}
+                      money={money}
+                    />
+                  )}
+
                   {reinvestmentStrategy === 'custom' && (
                     <div className="mt-3">
                       <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
                         <div>
                           <label className="block text-sm font-semibold text-gray-700 mb-2">
-                            Target Amount ($)
+                            Target Amount ({money.inputSymbol})
                           </label>
-                          <input
-                            type="number"
+                          <NumberInput
+                            field="customTargetAmount"
                             value={customTargetAmount}
-                            onChange={(e) => handleCustomTargetChange(Number(e.target.value))}
+                            onChange={handleCustomTargetChange}
                             className="w-full px-4 py-2 border-2 border-gray-300 rounded-lg focus:border-indigo-500 focus:outline-none"
                           />
                           <p className="text-xs text-gray-500 mt-1">
@@ -825,11 +1047,11 @@ export default function InvestmentCalculator() {
                           <label className="block text-sm font-semibold text-gray-700 mb-2">
                             % of Balance per Period
                           </label>
-                          <input
-                            type="number"
+                          <NumberInput
+                            field="customGainPercent"
                             step="0.1"
                             value={customGainPercent}
-                            onChange={(e) => handleCustomPercentChange(Number(e.target.value))}
+                            onChange={handleCustomPercentChange}
                             className="w-full px-4 py-2 border-2 border-gray-300 rounded-lg focus:border-indigo-500 focus:outline-none"
                           />
                           <p className="text-xs text-gray-500 mt-1">
@@ -842,96 +1064,295 @@ export default function InvestmentCalculator() {
                 </div>
               </div>
 
-              {/* Summary Cards */}
-              <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-5 gap-3 mb-6">
-                <div className="bg-white rounded-lg p-4 border border-gray-200">
-                  <p className="text-xs text-gray-500 mb-1">Final Balance</p>
-                  <p className="text-lg font-bold text-gray-800">
-                    ${futureProjections[futureProjections.length - 1]?.endValue.toLocaleString()}
-                  </p>
-                </div>
-                <div className="bg-white rounded-lg p-4 border border-gray-200">
-                  <p className="text-xs text-gray-500 mb-1">Total Cash In</p>
-                  <p className="text-lg font-bold text-blue-600">
-                    +${totalNewCash.toLocaleString()}
-                  </p>
-                </div>
-                <div className="bg-white rounded-lg p-4 border border-gray-200">
-                  <p className="text-xs text-gray-500 mb-1">Total Cash Out</p>
-                  <p className="text-lg font-bold text-green-600">
-                    ${totalCashOut.toLocaleString()}
-                  </p>
-                </div>
-                <div className="bg-white rounded-lg p-4 border border-gray-200">
-                  <p className="text-xs text-gray-500 mb-1">Net Cash Flow</p>
-                  <p className={`text-lg font-bold ${totalCashOut - totalNewCash >= 0 ? 'text-green-600' : 'text-red-600'}`}>
-                    {totalCashOut - totalNewCash >= 0 ? '+' : ''}${(totalCashOut - totalNewCash).toLocaleString()}
-                  </p>
-                </div>
-                <div className="bg-white rounded-lg p-4 border border-purple-300">
-                  <p className="text-xs text-gray-500 mb-1">Total Gain</p>
-                  <p className="text-lg font-bold text-purple-600">
-                    +${totalProfitFromProjections.toLocaleString()}
-                  </p>
-                </div>
-              </div>
-              
-              <div className="overflow-x-auto max-h-96 overflow-y-auto">
-                <table className="w-full">
-                  <thead className="sticky top-0 bg-purple-100">
-                    <tr className="border-b-2 border-purple-200">
-                      <th className="text-left py-3 px-4 font-semibold text-gray-700">
-                        {projectionFrequency === 'yearly' ? 'Year' : 
-                         projectionFrequency === 'monthly' ? 'Month' :
-                         projectionFrequency === 'weekly' ? 'Week' : 'Day'}
-                      </th>
-                      <th className="text-right py-3 px-4 font-semibold text-gray-700">Start</th>
-                      <th className="text-right py-3 px-4 font-semibold text-blue-600">+ Cash In</th>
-                      <th className="text-right py-3 px-4 font-semibold text-indigo-600">Invested</th>
-                      <th className="text-right py-3 px-4 font-semibold text-purple-600">Profit</th>
-                      <th className="text-right py-3 px-4 font-semibold text-green-600">- Cash Out</th>
-                      <th className="text-right py-3 px-4 font-semibold text-gray-700">End Value</th>
-                    </tr>
-                  </thead>
-                  <tbody>
-                    {futureProjections.map((proj) => (
-                      <tr key={proj.period} className="border-b border-purple-100 hover:bg-purple-50 transition-colors">
-                        <td className="py-3 px-4 font-semibold text-indigo-600">
-                          {projectionFrequency === 'yearly' ? `Year ${proj.period}` : 
-                           projectionFrequency === 'monthly' ? `Month ${proj.period}` :
-                           projectionFrequency === 'weekly' ? `Week ${proj.period}` : `Day ${proj.period}`}
-                        </td>
-                        <td className="text-right py-3 px-4 text-gray-700">${proj.startValue.toLocaleString()}</td>
-                        <td className="text-right py-3 px-4 text-blue-600 font-medium">
-                          {proj.newCash > 0 ? `+$${proj.newCash.toLocaleString()}` : '-'}
-                        </td>
-                        <td className="text-right py-3 px-4 text-indigo-600 font-medium">
-                          ${proj.totalInvested.toLocaleString()}
-                        </td>
-                        <td className="text-right py-3 px-4 text-purple-600 font-semibold">
-                          {proj.profit >= 0 ? '+' : ''}${proj.profit.toLocaleString()}
-                        </td>
-                        <td className="text-right py-3 px-4 text-green-600 font-medium">
-                          {proj.cashOut > 0 ? `-$${proj.cashOut.toLocaleString()}` : '-'}
-                        </td>
-                        <td className="text-right py-3 px-4 font-semibold text-gray-900">${proj.endValue.toLocaleString()}</td>
-                      </tr>
-                    ))}
-                  </tbody>
-                </table>
-              </div>
+              <PlanPanel
+                settings={planSettings}
+                onSettingsChange={setPlanSettings}
+                reinvestmentStrategy={reinvestmentStrategy}
+                builtStrategy={builtStrategy}
+                projectionDuration={projectionDuration}
+                projectionStart={getProjectionStart(startDate, duration)}
+                periodLabel={periodLabel}
+                money={money}
+              />
 
-              <div className="mt-6 p-4 bg-white rounded-lg border-2 border-purple-200">
-                <p className="text-sm text-gray-600">
-                  <strong className="text-gray-800">Note:</strong> Showing{' '}
-                  {projectionDuration} {projectionFrequency === 'yearly' ? 'years' : 
-                   projectionFrequency === 'monthly' ? 'months' : 
-                   projectionFrequency === 'weekly' ? 'weeks' : 'days'} of projections.
-                  {' '}Flow: Start → Cash In → Invested → Profit ({roiPercentage}% of Invested) → Cash Out → End Value.
-                </p>
+              {showStrategyComparison && projectionInputs && (
+                <StrategyComparison
+                  projectionInputs={projectionInputs}
+                  periodLabel={periodLabel}
+                  onSelectStrategy={setReinvestmentStrategy}
+                  money={money}
+                  real={showReal}
+                />
+              )}
+
+              <GoalSeekPanel scenario={scenario} onApply={applyScenario} money={money} />
+
+              <SensitivityPanel scenario={scenario} onApply={applyScenario} periodLabel={periodLabel} money={money} />
+
+              <TaxPanel settings={taxSettings} onSettingsChange={setTaxSettings} />
+
+              <div className="flex flex-wrap items-center gap-2 mb-6">
+                <p className="text-sm font-semibold text-gray-700 mr-2">Returns:</p>
+                {(Object.keys(SIMULATION_MODES) as SimulationMode[]).map((mode) => (
+                  <button
+                    key={mode}
+                    onClick={() => setSimulationMode(mode)}
+                    className={`px-4 py-2 rounded-lg text-sm font-semibold transition-all ${
+                      simulationMode === mode
+                        ? 'bg-indigo-600 text-white shadow-lg'
+                        : 'bg-white text-gray-700 border-2 border-gray-300 hover:border-indigo-400'
+                    }`}
+                  >
+                    {SIMULATION_MODES[mode]}
+                  </button>
+                ))}
               </div>
+
+              {simulationMode === 'monte-carlo' && projectionInputs && (
+                <MonteCarloPanel
+                  projectionInputs={projectionInputs}
+                  settings={monteCarloSettings}
+                  onSettingsChange={setMonteCarloSettings}
+                  periodLabel={periodLabel}
+                  money={money}
+                  real={showReal}
+                />
+              )}
+
+              {simulationMode === 'historical' && projectionInputs && (
+                <BacktestPanel
+                  projectionInputs={projectionInputs}
+                  settings={backtestSettings}
+                  onSettingsChange={setBacktestSettings}
+                  periodLabel={periodLabel}
+                  money={money}
+                />
+              )}
+
+              {blockedIssues.length > 0 ? (
+                <div className="p-4 bg-red-50 rounded-lg border-2 border-red-300">
+                  <p className="text-sm font-semibold text-red-800 mb-1">Projections hidden</p>
+                  {blockedIssues.map((issue) => (
+                    <p key={issue.message} className="text-sm text-red-700">{issue.message}</p>
+                  ))}
+                </div>
+              ) : (
+                <>
+                  <TimelineChart
+                    calculations={shownCalculations}
+                    projections={shownProjections}
+                    projectionFrequency={projectionFrequency}
+                    periodLabel={periodLabel}
+                    continued={continueFromAccumulation}
+                    money={money}
+                  />
+
+                  {/* Summary Cards */}
+                  <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-5 gap-3 mb-6">
+                    <div className="bg-white rounded-lg p-4 border border-gray-200">
+                      <p className="text-xs text-gray-500 mb-1">Final Balance</p>
+                      <p className="text-lg font-bold text-gray-800">
+                        {money.format(projectionSummary.finalBalance)}
+                      </p>
+                      {otherBasis(money.format(otherSummary.finalBalance))}
+                    </div>
+                    <div className="bg-white rounded-lg p-4 border border-gray-200">
+                      <p className="text-xs text-gray-500 mb-1">Total Cash In</p>
+                      <p className="text-lg font-bold text-blue-600">
+                        {money.signed(projectionSummary.totalCashIn)}
+                      </p>
+                      {otherBasis(money.signed(otherSummary.totalCashIn))}
+                    </div>
+                    <div className="bg-white rounded-lg p-4 border border-gray-200">
+                      <p className="text-xs text-gray-500 mb-1">Total Cash Out{showNetCashOut && ' (net)'}</p>
+                      <p className="text-lg font-bold text-green-600">
+                        {money.format(projectionSummary.totalCashOut)}
+                      </p>
+                      {otherBasis(money.format(otherSummary.totalCashOut))}
+                    </div>
+                    <div className="bg-white rounded-lg p-4 border border-gray-200">
+                      <p className="text-xs text-gray-500 mb-1">Net Cash Flow</p>
+                      <p className={`text-lg font-bold ${projectionSummary.netCashFlow >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                        {money.signed(projectionSummary.netCashFlow)}
+                      </p>
+                      {otherBasis(money.signed(otherSummary.netCashFlow))}
+                    </div>
+                    <div className="bg-white rounded-lg p-4 border border-purple-300">
+                      <p className="text-xs text-gray-500 mb-1">Total Gain</p>
+                      <p className="text-lg font-bold text-purple-600">
+                        {money.signed(projectionSummary.totalGain)}
+                      </p>
+                      {otherBasis(money.signed(otherSummary.totalGain))}
+                    </div>
+                    {taxSettings.enabled && (
+                      <div className="bg-white rounded-lg p-4 border border-red-200">
+                        <p className="text-xs text-gray-500 mb-1">Total Tax Paid</p>
+                        <p className="text-lg font-bold text-red-600">
+                          {money.format(projectionSummary.totalTaxPaid)}
+                        </p>
+                      </div>
+                    )}
+                    {showFees && (
+                      <div className="bg-white rounded-lg p-4 border border-orange-200">
+                        <p className="text-xs text-gray-500 mb-1">Total Fees</p>
+                        <p className="text-lg font-bold text-orange-600">
+                          {money.format(projectionSummary.totalFeesPaid)}
+                        </p>
+                        <p className="text-xs text-gray-500 mt-1">
+                          Would have grown to {money.format(projectionSummary.feeDrag)}
+                        </p>
+                      </div>
+                    )}
+                  </div>
+                  
+                  <ExportMenu
+                    scenario={scenario}
+                    calculations={calculations}
+                    projections={futureProjections}
+                  />
+
+                  <div className="overflow-x-auto max-h-96 overflow-y-auto">
+                    <table className="w-full">
+                      <thead className="sticky top-0 bg-purple-100">
+                        <tr className="border-b-2 border-purple-200">
+                          <th className="text-left py-3 px-4 font-semibold text-gray-700">
+                            {periodLabel}
+                          </th>
+                          <th className="text-right py-3 px-4 font-semibold text-gray-700">Start</th>
+                          <th className="text-right py-3 px-4 font-semibold text-blue-600">+ Cash In</th>
+                          <th className="text-right py-3 px-4 font-semibold text-indigo-600">Invested</th>
+                          <th className="text-right py-3 px-4 font-semibold text-purple-600">Profit</th>
+                          <th className="text-right py-3 px-4 font-semibold text-green-600">- Cash Out</th>
+                          {taxSettings.enabled && (
+                            <th className="text-right py-3 px-4 font-semibold text-red-600">Tax Paid</th>
+                          )}
+                          {showFees && (
+                            <th className="text-right py-3 px-4 font-semibold text-orange-600">Fees</th>
+                          )}
+                          {showNetCashOut && (
+                            <th className="text-right py-3 px-4 font-semibold text-green-700">Net Cash Out</th>
+                          )}
+                          <th className="text-right py-3 px-4 font-semibold text-gray-700">End Value</th>
+                          {enableInflation && (
+                            <th className="text-right py-3 px-4 font-semibold text-emerald-600">{otherBasisLabel} End Value</th>
+                          )}
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {shownProjections.map((proj, index) => (
+                          <Fragment key={proj.period}>
+                            <tr
+                              className="border-b border-purple-100 hover:bg-purple-50 transition-colors"
+                              style={proj.strategy ? { borderLeft: `4px solid ${STRATEGIES[proj.strategy].chartColor}` } : undefined}
+                            >
+                              <td className="py-3 px-4 font-semibold text-indigo-600">
+                                <button
+                                  onClick={() => setExplainedPeriod(explainedPeriod === proj.period ? null : proj.period)}
+                                  title="Explain this row"
+                                  className="inline-flex items-center gap-1 hover:text-indigo-800"
+                                >
+                                  {explainedPeriod === proj.period ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                                  {periodLabel} {proj.period}
+                                </button>
+                                {proj.strategy && proj.phase !== shownProjections[index - 1]?.phase && (
+                                  <span
+                                    className="ml-2 px-2 py-0.5 rounded-full text-xs font-medium text-white"
+                                    style={{ backgroundColor: STRATEGIES[proj.strategy].chartColor }}
+                                  >
+                                    Phase {(proj.phase ?? 0) + 1}: {getStrategyName(proj.strategy, builtStrategy)}
+                                  </span>
+                                )}
+                                {proj.date && (
+                                  <span className="block text-xs font-normal text-gray-500">
+                                    ends {formatPeriodDate(proj.date, projectionFrequency)}
+                                  </span>
+                                )}
+                                {proj.events?.map((label, index) => (
+                                  <span key={index} className="ml-2 px-2 py-0.5 rounded-full text-xs font-medium bg-amber-100 text-amber-800">
+                                    {label}
+                                  </span>
+                                ))}
+                              </td>
+                              <td className="text-right py-3 px-4 text-gray-700">{money.format(proj.startValue)}</td>
+                              <td className="text-right py-3 px-4 text-blue-600 font-medium">
+                                {proj.newCash > 0 ? `+${money.format(proj.newCash)}` : '-'}
+                              </td>
+                              <td className="text-right py-3 px-4 text-indigo-600 font-medium">
+                                {money.format(proj.totalInvested)}
+                              </td>
+                              <td className="text-right py-3 px-4 text-purple-600 font-semibold">
+                                {money.signed(proj.profit)}
+                              </td>
+                              <td className="text-right py-3 px-4 text-green-600 font-medium">
+                                {proj.cashOut > 0 ? `-${money.format(proj.cashOut)}` : '-'}
+                                {proj.plannedWithdrawal !== undefined && proj.plannedWithdrawal > proj.cashOut && (
+                                  <span className="block text-xs text-red-500">
+                                    {money.format(proj.plannedWithdrawal - proj.cashOut)} short
+                                  </span>
+                                )}
+                              </td>
+                              {taxSettings.enabled && (
+                                <td className="text-right py-3 px-4 text-red-600">
+                                  {proj.taxPaid ? money.format(proj.taxPaid) : '-'}
+                                </td>
+                              )}
+                              {showFees && (
+                                <td className="text-right py-3 px-4 text-orange-600">
+                                  {proj.feesPaid ? money.format(proj.feesPaid) : '-'}
+                                </td>
+                              )}
+                              {showNetCashOut && (
+                                <td className="text-right py-3 px-4 text-green-700 font-medium">
+                                  {proj.netCashOut ? money.format(proj.netCashOut) : '-'}
+                                </td>
+                              )}
+                              <td className="text-right py-3 px-4 font-semibold text-gray-900">
+                                {money.format(proj.endValue)}
+                                {portfolioActive && proj.assetValues && (
+                                  <span className="block text-xs font-normal text-gray-500 whitespace-nowrap">
+                                    {proj.assetValues.map((value, i) => (
+                                      <span key={portfolioSettings.assets[i]?.id ?? i} className="ml-2" style={{ color: ASSET_COLORS[i % ASSET_COLORS.length] }}>
+                                        {portfolioSettings.assets[i]?.name}: {money.format(value)}
+                                      </span>
+                                    ))}
+                                  </span>
+                                )}
+                              </td>
+                              {enableInflation && (
+                                <td className="text-right py-3 px-4 text-emerald-600">{money.format(otherProjections?.[index]?.endValue ?? 0)}</td>
+                              )}
+                            </tr>
+                            {explainedPeriod === proj.period && (
+                              <tr className="border-b border-purple-100 bg-white">
+                                <td colSpan={projectionColumns} className="py-3 px-6">
+                                  {showReal && (
+                                    <p className="text-xs text-gray-500 mb-2">Worked out in nominal amounts; multiply by the row's deflator for today's money.</p>
+                                  )}
+                                  <AuditTrail steps={explainedProjections?.[index]?.audit ?? []} money={money} />
+                                </td>
+                              </tr>
+                            )}
+                          </Fragment>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+
+                  <div className="mt-6 p-4 bg-white rounded-lg border-2 border-purple-200">
+                    <p className="text-sm text-gray-600">
+                      <strong className="text-gray-800">Note:</strong> Showing{' '}
+                      {projectionDuration} {projectionFrequency === 'yearly' ? 'years' : 
+                       projectionFrequency === 'monthly' ? 'months' : 
+                       projectionFrequency === 'weekly' ? 'weeks' : 'days'} of projections.
+                      {' '}Flow: Start → Cash In → Invested → Profit ({Number(expectedReturn.toFixed(2))}% of Invested) → Cash Out → End Value.
+                    </p>
+                  </div>
+                </>
+              )}
             </div>
           )}
+
+          <DebtPanel scenario={scenario} money={money} />
         </div>
       </div>
     </div>
@@ -0,0 +1,162 @@
+import { useMemo } from 'react';
+import { ComposedChart, Area, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { Dices } from 'lucide-react';
+import { runMonteCarlo, toRealBands } from '../engine';
+import type { MoneyFormatter, MonteCarloSettings, ProjectionInputs } from '../engine';
+import NumberInput from './NumberInput';
+
+interface MonteCarloPanelProps {
+  projectionInputs: ProjectionInputs;
+  settings: MonteCarloSettings;
+  onSettingsChange: (settings: MonteCarloSettings) => void;
+  periodLabel: string;
+  money: MoneyFormatter;
+  real: boolean;  // Show the bands in today's money
+}
+
+const formatPercent = (p: number) => `${(p * 100).toFixed(1)}%`;
+
+export default function MonteCarloPanel({
+  projectionInputs,
+  settings,
+  onSettingsChange,
+  periodLabel,
+  money,
+  real
+}: MonteCarloPanelProps) {
+  const result = useMemo(() => runMonteCarlo({
+    ...projectionInputs,
+    expectedReturn: projectionInputs.roiPercentage,
+    volatility: settings.volatility,
+    simulations: settings.simulations,
+    seed: settings.seed
+  }), [projectionInputs, settings]);
+
+  const bands = useMemo(
+    () => real ? toRealBands(result.bands, projectionInputs) : result.bands,
+    [result, real, projectionInputs]
+  );
+
+  const chartData = bands.map((band) => ({
+    ...band,
+    label: `${periodLabel} ${band.period}`,
+    range: [band.p10, band.p90]
+  }));
+
+  return (
+    <div className="bg-white rounded-xl p-6 mb-6 border border-gray-200">
+      <h3 className="text-lg font-bold text-gray-800 mb-4 flex items-center gap-2">
+        <Dices className="w-5 h-5 text-indigo-600" />
+        Monte Carlo Simulation
+      </h3>
+
+      <div className="grid grid-cols-1 sm:grid-cols-4 gap-4 mb-6">
+        <div>
+          <label className="block text-sm font-semibold text-gray-700 mb-2">
+            Expected Return (%)
+          </label>
+          <input
+            type="number"
+            value={projectionInputs.roiPercentage}
+            disabled
+            className="w-full px-4 py-2 border-2 border-gray-200 rounded-lg bg-gray-50 text-gray-500"
+          />
+          <p className="text-xs text-gray-500 mt-1">Uses the ROI percentage</p>
+        </div>
+        <div>
+          <label className="block text-sm font-semibold text-gray-700 mb-2">
+            Volatility (%)
+          </label>
+          <NumberInput
+            field="monteCarlo.volatility"
+            step="0.5"
+            value={settings.volatility}
+            onChange={(volatility) => onSettingsChange({ ...settings, volatility })}
+            className="w-full px-4 py-2 border-2 border-gray-300 rounded-lg focus:border-indigo-500 focus:outline-none"
+          />
+          <p className="text-xs text-gray-500 mt-1">Annual standard deviation</p>
+        </div>
+        <div>
+          <label className="block text-sm font-semibold text-gray-700 mb-2">
+            Simulations
+          </label>
+          <NumberInput
+            field="monteCarlo.simulations"
+            step="500"
+            value={settings.simulations}
+            onChange={(simulations) => onSettingsChange({ ...settings, simulations })}
+            className="w-full px-4 py-2 border-2 border-gray-300 rounded-lg focus:border-indigo-500 focus:outline-none"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-semibold text-gray-700 mb-2">
+            Seed
+          </label>
+          <NumberInput
+            field="monteCarlo.seed"
+            value={settings.seed}
+            onChange={(seed) => onSettingsChange({ ...settings, seed })}
+            className="w-full px-4 py-2 border-2 border-gray-300 rounded-lg focus:border-indigo-500 focus:outline-none"
+          />
+          <p className="text-xs text-gray-500 mt-1">Same seed, same results</p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 mb-6">
+        <div className="bg-gray-50 rounded-lg p-4 border border-gray-200">
+          <p className="text-xs text-gray-500 mb-1">Median Final Balance{real && " (today's money)"}</p>
+          <p className="text-lg font-bold text-gray-800">
+            {money.format(bands[bands.length - 1]?.p50 ?? 0)}
+          </p>
+        </div>
+        <div className="bg-gray-50 rounded-lg p-4 border border-gray-200">
+          <p className="text-xs text-gray-500 mb-1">Chance of Ending Below Principal</p>
+          <p className="text-lg font-bold text-amber-600">
+            {formatPercent(result.probabilityBelowPrincipal)}
+          </p>
+        </div>
+        <div className="bg-gray-50 rounded-lg p-4 border border-gray-200">
+          <p className="text-xs text-gray-500 mb-1">Chance of Running Out (Take Salary)</p>
+          <p className="text-lg font-bold text-red-600">
+            {formatPercent(result.probabilityOfDepletion)}
+          </p>
+        </div>
+      </div>
+
+      <ResponsiveContainer width="100%" height={350}>
+        <ComposedChart data={chartData}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#e0e0e0" />
+          <XAxis dataKey="label" stroke="#666" style={{ fontSize: '12px' }} />
+          <YAxis
+            stroke="#666"
+            style={{ fontSize: '12px' }}
+            tickFormatter={(value) => money.compact(value)}
+          />
+          <Tooltip
+            formatter={(value) => Array.isArray(value)
+              ? value.map((v) => money.format(Number(v))).join(' – ')
+              : money.format(Number(value))}
+            contentStyle={{ backgroundColor: '#fff', border: '2px solid #e0e0e0', borderRadius: '8px' }}
+          />
+          <Legend />
+          <Area
+            type="monotone"
+            dataKey="range"
+            stroke="none"
+            fill="#c7d2fe"
+            fillOpacity={0.6}
+            name="10th–90th Percentile"
+          />
+          <Line type="monotone" dataKey="p90" stroke="#22c55e" strokeWidth={2} dot={false} name="90th Percentile" />
+          <Line type="monotone" dataKey="p50" stroke="#6366f1" strokeWidth={3} dot={false} name="Median" />
+          <Line type="monotone" dataKey="p10" stroke="#ef4444" strokeWidth={2} dot={false} name="10th Percentile" />
+        </ComposedChart>
+      </ResponsiveContainer>
+
+      <p className="text-xs text-gray-500 mt-4">
+        {result.simulations.toLocaleString()} randomized paths through the selected strategy.
+        Returns are drawn each period from a normal distribution around the expected return.
+      </p>
+    </div>
+  );
+}
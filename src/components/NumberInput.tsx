@@ -0,0 +1,56 @@
+import { useState } from 'react';
+import { checkNumberInput, getNumberRule } from '../engine';
+import type { NumberCheck } from '../engine';
+
+interface NumberInputProps {
+  field: string;  // Scenario path (or input rule) whose rule the value follows, e.g. 'duration'
+  value: number | undefined;  // Undefined only for optional values, shown as an empty box
+  onChange: (value: number) => void;
+  onClear?: () => void;  // Makes the value optional: emptying the box clears it instead of being an error
+  className: string;
+  step?: string;
+  placeholder?: string;
+  title?: string;
+  disabled?: boolean;
+}
+
+// Only ever passes on a usable number. What was typed stays in the box while editing;
+// the value passed on is clamped to the field's rule and the reason shown underneath.
+export default function NumberInput({ field, value, onChange, onClear, className, step, placeholder, title, disabled }: NumberInputProps) {
+  const [draft, setDraft] = useState<string | null>(null);
+  const [check, setCheck] = useState<NumberCheck | null>(null);
+  const rule = getNumberRule(field);
+  // A value set from elsewhere (a loaded scenario, goal seek) clears the message
+  const error = check && check.value === value ? check.error : undefined;
+
+  return (
+    <>
+      <input
+        type="number"
+        step={step}
+        min={rule?.min}
+        max={rule?.max}
+        value={draft ?? value ?? ''}
+        placeholder={placeholder}
+        title={title}
+        disabled={disabled}
+        onChange={(e) => {
+          if (onClear && e.target.value.trim() === '') {
+            setDraft(null);
+            setCheck(null);
+            onClear();
+            return;
+          }
+          const next = checkNumberInput(field, e.target.value, value ?? 0);
+          setDraft(e.target.value);
+          setCheck(next);
+          if (next.value !== value) onChange(next.value);
+        }}
+        onBlur={() => setDraft(null)}
+        aria-invalid={error !== undefined}
+        className={error ? className.replace('border-gray-300', 'border-red-400') : className}
+      />
+      {error && <p className="text-xs text-red-600 mt-1">{error}</p>}
+    </>
+  );
+}
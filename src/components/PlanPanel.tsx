@@ -0,0 +1,173 @@
+import { Milestone, X } from 'lucide-react';
+import { PHASE_AMOUNTS, PHASE_TRIGGERS, STRATEGIES, describePhase, getStrategyName } from '../engine';
+import type { BuiltStrategy, MoneyFormatter, PhaseTrigger, PlanPhase, PlanSettings, ReinvestmentStrategy } from '../engine';
+import NumberInput from './NumberInput';
+
+interface PlanPanelProps {
+  settings: PlanSettings;
+  onSettingsChange: (settings: PlanSettings) => void;
+  reinvestmentStrategy: ReinvestmentStrategy;  // Runs until the first phase starts
+  builtStrategy: BuiltStrategy;
+  projectionDuration: number;
+  projectionStart: string;  // YYYY-MM-DD, the default for date triggers
+  periodLabel: string;
+  money: MoneyFormatter;
+}
+
+const createId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const inputClass = 'w-full px-3 py-1 border-2 border-gray-300 rounded-lg text-sm focus:border-indigo-500 focus:outline-none';
+
+export default function PlanPanel({
+  settings,
+  onSettingsChange,
+  reinvestmentStrategy,
+  builtStrategy,
+  projectionDuration,
+  projectionStart,
+  periodLabel,
+  money
+}: PlanPanelProps) {
+  const updatePhase = (id: string, changes: Partial<PlanPhase>) =>
+    onSettingsChange({
+      ...settings,
+      phases: settings.phases.map((phase) => (phase.id === id ? { ...phase, ...changes } : phase))
+    });
+
+  // Each trigger keeps only its own field
+  const changeTrigger = (phase: PlanPhase, trigger: PhaseTrigger) =>
+    onSettingsChange({
+      ...settings,
+      phases: settings.phases.map((p) => (p.id !== phase.id ? p : {
+        id: p.id,
+        trigger,
+        ...(trigger === 'period' ? { period: Math.max(2, Math.ceil(projectionDuration / 2)) } : {}),
+        ...(trigger === 'date' ? { date: projectionStart } : {}),
+        ...(trigger === 'balance' ? { balance: 500000 } : {}),
+        strategy: p.strategy,
+        amount: p.amount
+      }))
+    });
+
+  const addPhase = () => {
+    const last = settings.phases[settings.phases.length - 1];
+    const period = Math.min(projectionDuration, (last?.period ?? 1) + Math.max(1, Math.ceil(projectionDuration / 3)));
+    onSettingsChange({
+      ...settings,
+      phases: [...settings.phases, { id: createId(), trigger: 'period', period, strategy: 'all-in', amount: 0 }]
+    });
+  };
+
+  return (
+    <div className="bg-gray-50 rounded-xl p-6 mb-8">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+        <h2 className="text-xl font-bold text-gray-800 flex items-center gap-2">
+          <Milestone className="w-5 h-5 text-indigo-600" />
+          Multi-phase Plan
+        </h2>
+        <label className="flex items-center gap-2 text-sm font-semibold text-gray-700 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={settings.enabled}
+            onChange={(e) => onSettingsChange({ ...settings, enabled: e.target.checked })}
+            className="w-4 h-4 text-indigo-600 rounded focus:ring-indigo-500"
+          />
+          Switch strategy over time
+        </label>
+      </div>
+
+      {!settings.enabled ? (
+        <p className="text-sm text-gray-500">
+          Run one strategy, then switch to another at a given {periodLabel.toLowerCase()}, on a date or once the balance reaches a target,
+          e.g. Level Up for 10 years, All In for 5, then Take Salary.
+        </p>
+      ) : (
+        <div className="space-y-2">
+          <p className="text-sm text-gray-700">
+            <span className="inline-block w-3 h-3 rounded-full mr-2" style={{ backgroundColor: STRATEGIES[reinvestmentStrategy].chartColor }} />
+            <strong>Phase 1</strong> from the start: {getStrategyName(reinvestmentStrategy, builtStrategy)} (the strategy selected above)
+          </p>
+          {settings.phases.map((phase, i) => {
+            const amountLabel = PHASE_AMOUNTS[phase.strategy];
+            return (
+              <div key={phase.id} className="grid grid-cols-2 md:grid-cols-[auto_1fr_1fr_1fr_1fr_auto] gap-2 items-center">
+                <span className="flex items-center gap-2 text-sm font-semibold text-gray-700 col-span-2 md:col-span-1">
+                  <span className="w-3 h-3 rounded-full" style={{ backgroundColor: STRATEGIES[phase.strategy].chartColor }} />
+                  Phase {i + 2}
+                </span>
+                <select
+                  value={phase.trigger}
+                  onChange={(e) => changeTrigger(phase, e.target.value as PhaseTrigger)}
+                  className={inputClass}
+                >
+                  {(Object.keys(PHASE_TRIGGERS) as PhaseTrigger[]).map((trigger) => (
+                    <option key={trigger} value={trigger}>{PHASE_TRIGGERS[trigger]}</option>
+                  ))}
+                </select>
+                {phase.trigger === 'date' ? (
+                  <input
+                    type="date"
+                    value={phase.date ?? ''}
+                    onChange={(e) => e.target.value && updatePhase(phase.id, { date: e.target.value })}
+                    className={inputClass}
+                  />
+                ) : (
+                  <div>
+                    <NumberInput
+                      key={phase.trigger}
+                      field={phase.trigger === 'period' ? 'plan.phases.period' : 'plan.phases.balance'}
+                      value={phase.trigger === 'period' ? phase.period ?? 1 : phase.balance ?? 0}
+                      onChange={(value) => updatePhase(phase.id, phase.trigger === 'period' ? { period: value } : { balance: value })}
+                      className={inputClass}
+                      title={phase.trigger === 'period' ? periodLabel : `Balance (${money.inputSymbol})`}
+                    />
+                  </div>
+                )}
+                <select
+                  value={phase.strategy}
+                  onChange={(e) => updatePhase(phase.id, { strategy: e.target.value as ReinvestmentStrategy })}
+                  className={inputClass}
+                >
+                  {(Object.keys(STRATEGIES) as ReinvestmentStrategy[]).map((strategy) => (
+                    <option key={strategy} value={strategy}>{getStrategyName(strategy, builtStrategy)}</option>
+                  ))}
+                </select>
+                {amountLabel ? (
+                  <div>
+                    <NumberInput
+                      field="plan.phases.amount"
+                      value={phase.amount}
+                      onChange={(amount) => updatePhase(phase.id, { amount })}
+                      className={inputClass}
+                      title={`${amountLabel} (${money.inputSymbol})`}
+                      placeholder={amountLabel}
+                    />
+                  </div>
+                ) : (
+                  <span className="text-xs text-gray-400">No amount needed</span>
+                )}
+                <button
+                  onClick={() => onSettingsChange({ ...settings, phases: settings.phases.filter((p) => p.id !== phase.id) })}
+                  className="text-gray-400 hover:text-red-600 justify-self-start"
+                  title="Remove phase"
+                >
+                  <X className="w-4 h-4" />
+                </button>
+                <p className="text-xs text-gray-500 col-span-2 md:col-span-6">{describePhase(phase, periodLabel, money.format)}</p>
+              </div>
+            );
+          })}
+          <button
+            onClick={addPhase}
+            className="px-3 py-1 rounded-lg text-xs font-semibold bg-white text-gray-700 border-2 border-gray-300 hover:border-indigo-400 transition-all"
+          >
+            + Phase
+          </button>
+          <p className="text-xs text-gray-500">
+            Phases start in order: a phase waits for the one before it, even if its own trigger fires first.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
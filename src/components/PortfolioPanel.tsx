@@ -0,0 +1,175 @@
+import { PieChart, X } from 'lucide-react';
+import { ASSET_COLORS, getPortfolioReturn, getPortfolioVolatility } from '../engine';
+import type { Asset, PortfolioSettings, RebalancePolicy } from '../engine';
+import NumberInput from './NumberInput';
+
+interface PortfolioPanelProps {
+  settings: PortfolioSettings;
+  onSettingsChange: (settings: PortfolioSettings) => void;
+  onUseVolatility: (volatility: number) => void;
+}
+
+const REBALANCE_POLICIES: Record<RebalancePolicy, string> = {
+  'never': 'Never',
+  'annually': 'Annually',
+  'threshold': 'On Drift'
+};
+
+const createId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const inputClass = 'w-full px-3 py-1 border-2 border-gray-300 rounded-lg text-sm focus:border-indigo-500 focus:outline-none';
+
+export default function PortfolioPanel({ settings, onSettingsChange, onUseVolatility }: PortfolioPanelProps) {
+  const updateAsset = (id: string, changes: Partial<Asset>) =>
+    onSettingsChange({
+      ...settings,
+      assets: settings.assets.map((asset) => (asset.id === id ? { ...asset, ...changes } : asset))
+    });
+
+  const addAsset = () =>
+    onSettingsChange({
+      ...settings,
+      assets: [...settings.assets, { id: createId(), name: `Asset ${settings.assets.length + 1}`, roi: 5, volatility: 10, weight: 0 }]
+    });
+
+  const totalWeight = settings.assets.reduce((sum, asset) => sum + asset.weight, 0);
+  const volatility = getPortfolioVolatility(settings.assets);
+
+  return (
+    <div className="bg-gray-50 rounded-xl p-6 mb-8">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+        <h2 className="text-xl font-bold text-gray-800 flex items-center gap-2">
+          <PieChart className="w-5 h-5 text-indigo-600" />
+          Portfolio
+        </h2>
+        <label className="flex items-center gap-2 text-sm font-semibold text-gray-700 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={settings.enabled}
+            onChange={(e) => onSettingsChange({ ...settings, enabled: e.target.checked })}
+            className="w-4 h-4 text-indigo-600 rounded focus:ring-indigo-500"
+          />
+          Split across asset classes
+        </label>
+      </div>
+
+      {!settings.enabled ? (
+        <p className="text-sm text-gray-500">
+          Give each asset class its own expected return and target weight instead of one ROI for the whole balance.
+        </p>
+      ) : (
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <div className="hidden md:grid grid-cols-5 gap-2 text-xs font-semibold text-gray-600">
+              <span>Asset</span>
+              <span>Return (% / year)</span>
+              <span>Volatility (%)</span>
+              <span>Target Weight (%)</span>
+            </div>
+            {settings.assets.map((asset, i) => (
+              <div key={asset.id} className="grid grid-cols-2 md:grid-cols-5 gap-2 items-center">
+                <div className="flex items-center gap-2">
+                  <span className="w-3 h-3 rounded-full flex-shrink-0" style={{ backgroundColor: ASSET_COLORS[i % ASSET_COLORS.length] }} />
+                  <input
+                    type="text"
+                    value={asset.name}
+                    onChange={(e) => updateAsset(asset.id, { name: e.target.value })}
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <NumberInput
+                    field="portfolio.assets.roi"
+                    step="0.1"
+                    value={asset.roi}
+                    onChange={(roi) => updateAsset(asset.id, { roi })}
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <NumberInput
+                    field="portfolio.assets.volatility"
+                    step="0.5"
+                    value={asset.volatility}
+                    placeholder="Optional"
+                    onChange={(volatility) => updateAsset(asset.id, { volatility })}
+                    onClear={() => updateAsset(asset.id, { volatility: undefined })}
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <NumberInput
+                    field="portfolio.assets.weight"
+                    value={asset.weight}
+                    onChange={(weight) => updateAsset(asset.id, { weight })}
+                    className={inputClass}
+                  />
+                </div>
+                <button
+                  onClick={() => onSettingsChange({ ...settings, assets: settings.assets.filter((a) => a.id !== asset.id) })}
+                  className="text-gray-400 hover:text-red-600 justify-self-start"
+                  title="Remove asset"
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+            <button
+              onClick={addAsset}
+              className="px-3 py-1 rounded-lg text-xs font-semibold bg-white text-gray-700 border-2 border-gray-300 hover:border-indigo-400 transition-all"
+            >
+              + Asset
+            </button>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2">
+            <p className="text-sm font-semibold text-gray-700 mr-2">Rebalance:</p>
+            {(Object.keys(REBALANCE_POLICIES) as RebalancePolicy[]).map((policy) => (
+              <button
+                key={policy}
+                onClick={() => onSettingsChange({ ...settings, rebalance: policy })}
+                className={`px-3 py-1 rounded-lg text-xs font-semibold transition-all ${
+                  settings.rebalance === policy
+                    ? 'bg-indigo-600 text-white shadow-lg'
+                    : 'bg-white text-gray-700 border-2 border-gray-300 hover:border-indigo-400'
+                }`}
+              >
+                {REBALANCE_POLICIES[policy]}
+              </button>
+            ))}
+            {settings.rebalance === 'threshold' && (
+              <label className="flex items-center gap-2 text-sm text-gray-700 ml-2">
+                when an asset drifts
+                <NumberInput
+                  field="portfolio.threshold"
+                  value={settings.threshold}
+                  onChange={(threshold) => onSettingsChange({ ...settings, threshold })}
+                  className="w-20 px-3 py-1 border-2 border-gray-300 rounded-lg text-sm focus:border-indigo-500 focus:outline-none"
+                />
+                points from its target
+              </label>
+            )}
+          </div>
+
+          <p className="text-sm text-gray-600">
+            Expected return <strong>{getPortfolioReturn(settings.assets).toFixed(2)}%</strong>
+            {volatility > 0 && <>, volatility <strong>{volatility.toFixed(2)}%</strong> (assets treated as uncorrelated)</>}.
+            {volatility > 0 && (
+              <button
+                onClick={() => onUseVolatility(Math.round(volatility * 100) / 100)}
+                className="ml-2 px-2 py-0.5 rounded text-xs font-semibold bg-white text-gray-700 border-2 border-gray-300 hover:border-indigo-400 transition-all"
+              >
+                Use in Monte Carlo
+              </button>
+            )}
+            {totalWeight !== 100 && settings.assets.length > 0 && (
+              <span className="block text-xs text-amber-700 mt-1">
+                Weights add up to {totalWeight}%; they are scaled to 100%.
+              </span>
+            )}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
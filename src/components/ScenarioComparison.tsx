@@ -0,0 +1,130 @@
+import { useMemo } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { getPeriodsPerYear, runScenario, toRealCalculations, toRealResult } from '../engine';
+import type { MoneyFormatter, ProjectionSummary, SavedScenario, Scenario } from '../engine';
+
+interface ScenarioComparisonProps {
+  scenarios: SavedScenario[];
+  money: MoneyFormatter;
+  real: boolean;  // Deflate each scenario by its own inflation rate
+}
+
+const COMPARISON_COLORS = ['#6366f1', '#f97316', '#10b981', '#ec4899'];
+
+const SUMMARY_METRICS: { key: keyof ProjectionSummary; label: string }[] = [
+  { key: 'finalBalance', label: 'Final Balance' },
+  { key: 'totalCashIn', label: 'Total Cash In' },
+  { key: 'totalCashOut', label: 'Total Cash Out' },
+  { key: 'netCashFlow', label: 'Net Cash Flow' },
+  { key: 'totalGain', label: 'Total Gain' },
+  { key: 'totalTaxPaid', label: 'Total Tax Paid' },
+  { key: 'totalFeesPaid', label: 'Total Fees' }
+];
+
+// Scenarios can differ in start date and frequency, so line them up by calendar month
+const toMonthIndex = (scenario: Scenario, period: number) => {
+  const start = new Date(scenario.startDate);
+  const periodsPerYear = getPeriodsPerYear(scenario.frequency === 'once' ? 'monthly' : scenario.frequency, scenario.businessDays);
+  const monthsElapsed = Math.floor((period * 12) / periodsPerYear);
+  return start.getFullYear() * 12 + start.getMonth() + monthsElapsed;
+};
+
+export default function ScenarioComparison({ scenarios, money, real }: ScenarioComparisonProps) {
+  const results = useMemo(() => scenarios.map((saved) => {
+    if (!real) return { saved, result: runScenario(saved.scenario) };
+    // Deflators are only worked out with inflation on, whatever the saved scenario shows
+    const result = toRealResult(runScenario({ ...saved.scenario, enableInflation: true }));
+    return { saved, result: { ...result, calculations: toRealCalculations(result.calculations) } };
+  }), [scenarios, real]);
+
+  const chartData = useMemo(() => {
+    const byMonth = new Map<number, Record<string, number | string>>();
+    for (const { saved, result } of results) {
+      for (const row of result.calculations) {
+        const monthIndex = toMonthIndex(saved.scenario, row.period);
+        const point = byMonth.get(monthIndex) ?? {
+          date: new Date(Math.floor(monthIndex / 12), monthIndex % 12, 1)
+            .toLocaleDateString('en-US', { month: 'short', year: 'numeric' })
+        };
+        // Later rows in the same month overwrite earlier ones: plot the month-end value
+        point[saved.id] = saved.scenario.showTotal ? row.currentValue : row.profit;
+        byMonth.set(monthIndex, point);
+      }
+    }
+    return [...byMonth.entries()].sort(([a], [b]) => a - b).map(([, point]) => point);
+  }, [results]);
+
+  const baseline = results[0]?.result.summary;
+
+  return (
+    <div className="mt-6 space-y-6">
+      <div className="bg-gray-50 rounded-xl p-6">
+        <h3 className="text-lg font-bold text-gray-800 mb-4">Growth Comparison{real && ", in today's money"}</h3>
+        <ResponsiveContainer width="100%" height={350}>
+          <LineChart data={chartData}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#e0e0e0" />
+            <XAxis dataKey="date" stroke="#666" style={{ fontSize: '12px' }} />
+            <YAxis
+              stroke="#666"
+              style={{ fontSize: '12px' }}
+              tickFormatter={(value) => money.compact(value)}
+            />
+            <Tooltip
+              formatter={(value) => money.format(Number(value))}
+              contentStyle={{ backgroundColor: '#fff', border: '2px solid #e0e0e0', borderRadius: '8px' }}
+            />
+            <Legend />
+            {results.map(({ saved }, i) => (
+              <Line
+                key={saved.id}
+                type="monotone"
+                dataKey={saved.id}
+                stroke={COMPARISON_COLORS[i % COMPARISON_COLORS.length]}
+                strokeWidth={3}
+                name={saved.name}
+                dot={false}
+                connectNulls
+              />
+            ))}
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full bg-white rounded-lg border border-gray-200">
+          <thead className="bg-purple-100">
+            <tr className="border-b-2 border-purple-200">
+              <th className="text-left py-3 px-4 font-semibold text-gray-700">Projection</th>
+              {results.map(({ saved }, i) => (
+                <th key={saved.id} className="text-right py-3 px-4 font-semibold" style={{ color: COMPARISON_COLORS[i % COMPARISON_COLORS.length] }}>
+                  {saved.name}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {SUMMARY_METRICS.map(({ key, label }) => (
+              <tr key={key} className="border-b border-purple-100">
+                <td className="py-3 px-4 font-semibold text-gray-700">{label}</td>
+                {results.map(({ saved, result }, i) => {
+                  const value = result.summary[key];
+                  const diff = baseline ? value - baseline[key] : 0;
+                  return (
+                    <td key={saved.id} className="text-right py-3 px-4">
+                      <p className="font-semibold text-gray-900">{money.format(value)}</p>
+                      {i > 0 && (
+                        <p className={`text-xs ${diff > 0 ? 'text-green-600' : diff < 0 ? 'text-red-600' : 'text-gray-400'}`}>
+                          {diff === 0 ? 'same' : `${money.signed(diff)} vs ${results[0].saved.name}`}
+                        </p>
+                      )}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,155 @@
+import { useEffect, useMemo, useState } from 'react';
+import { BookMarked, Copy, Pencil, Trash2, Upload, Check } from 'lucide-react';
+import {
+  MAX_COMPARED_SCENARIOS,
+  addToLibrary,
+  createMoneyFormatter,
+  duplicateInLibrary,
+  getStrategyName,
+  loadLibrary,
+  removeFromLibrary,
+  renameInLibrary,
+  saveLibrary
+} from '../engine';
+import type { MoneyFormatter, SavedScenario, Scenario } from '../engine';
+import ScenarioComparison from './ScenarioComparison';
+
+interface ScenarioLibraryProps {
+  currentScenario: Scenario;
+  onLoad: (scenario: Scenario) => void;
+  money: MoneyFormatter;
+  real: boolean;
+}
+
+export default function ScenarioLibrary({ currentScenario, onLoad, money, real }: ScenarioLibraryProps) {
+  const [library, setLibrary] = useState<SavedScenario[]>(() => loadLibrary(window.localStorage));
+  const [newName, setNewName] = useState<string>('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState<string>('');
+  const [comparedIds, setComparedIds] = useState<string[]>([]);
+
+  useEffect(() => {
+    saveLibrary(window.localStorage, library);
+  }, [library]);
+
+  const handleSave = () => {
+    setLibrary(addToLibrary(library, newName || `Scenario ${library.length + 1}`, currentScenario));
+    setNewName('');
+  };
+
+  const handleRename = (id: string) => {
+    setLibrary(renameInLibrary(library, id, editingName));
+    setEditingId(null);
+  };
+
+  const handleDelete = (id: string) => {
+    setLibrary(removeFromLibrary(library, id));
+    setComparedIds(comparedIds.filter((comparedId) => comparedId !== id));
+  };
+
+  const toggleCompared = (id: string) => {
+    if (comparedIds.includes(id)) {
+      setComparedIds(comparedIds.filter((comparedId) => comparedId !== id));
+    } else if (comparedIds.length < MAX_COMPARED_SCENARIOS) {
+      setComparedIds([...comparedIds, id]);
+    }
+  };
+
+  // Keep the selection order so the first pick is the comparison baseline
+  const compared = useMemo(() => comparedIds
+    .map((id) => library.find((entry) => entry.id === id))
+    .filter((entry): entry is SavedScenario => entry !== undefined), [comparedIds, library]);
+
+  return (
+    <div className="bg-gray-50 rounded-xl p-6 mb-8">
+      <h2 className="text-xl font-bold text-gray-800 mb-4 flex items-center gap-2">
+        <BookMarked className="w-5 h-5 text-indigo-600" />
+        Saved Scenarios
+      </h2>
+
+      <div className="flex flex-wrap gap-2 mb-4">
+        <input
+          type="text"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+          placeholder="Name this scenario"
+          className="flex-1 min-w-[200px] px-4 py-2 border-2 border-gray-300 rounded-lg focus:border-indigo-500 focus:outline-none"
+        />
+        <button
+          onClick={handleSave}
+          className="px-5 py-2 rounded-lg font-semibold bg-indigo-600 text-white shadow-lg hover:bg-indigo-700 transition-all"
+        >
+          Save Current
+        </button>
+      </div>
+
+      {library.length === 0 ? (
+        <p className="text-sm text-gray-500">No saved scenarios yet. Save the current inputs to reuse them later.</p>
+      ) : (
+        <>
+          <p className="text-xs text-gray-500 mb-2">
+            Tick 2 to {MAX_COMPARED_SCENARIOS} scenarios to compare them side by side. The first one ticked is the baseline.
+          </p>
+          <ul className="space-y-2">
+            {library.map((entry) => (
+              <li key={entry.id} className="flex flex-wrap items-center gap-3 p-3 bg-white rounded-lg border border-gray-200">
+                <input
+                  type="checkbox"
+                  checked={comparedIds.includes(entry.id)}
+                  disabled={!comparedIds.includes(entry.id) && comparedIds.length >= MAX_COMPARED_SCENARIOS}
+                  onChange={() => toggleCompared(entry.id)}
+                  className="w-4 h-4 accent-indigo-600"
+                />
+                <div className="flex-1 min-w-[160px]">
+                  {editingId === entry.id ? (
+                    <input
+                      type="text"
+                      value={editingName}
+                      autoFocus
+                      onChange={(e) => setEditingName(e.target.value)}
+                      onKeyDown={(e) => e.key === 'Enter' && handleRename(entry.id)}
+                      onBlur={() => handleRename(entry.id)}
+                      className="w-full px-2 py-1 border-2 border-indigo-300 rounded focus:border-indigo-500 focus:outline-none"
+                    />
+                  ) : (
+                    <p className="font-semibold text-gray-800">{entry.name}</p>
+                  )}
+                  <p className="text-xs text-gray-500">
+                    {createMoneyFormatter({ ...entry.scenario.currency, display: entry.scenario.currency.code }).format(entry.scenario.investmentAmount)} {entry.scenario.frequency} · {entry.scenario.roiPercentage}% · {getStrategyName(entry.scenario.reinvestmentStrategy, entry.scenario.builtStrategy)} · saved {new Date(entry.savedAt).toLocaleDateString()}
+                  </p>
+                </div>
+                <div className="flex items-center gap-1">
+                  <button onClick={() => onLoad(entry.scenario)} title="Load" className="p-2 text-gray-500 hover:text-indigo-600">
+                    <Upload className="w-4 h-4" />
+                  </button>
+                  {editingId === entry.id ? (
+                    <button onClick={() => handleRename(entry.id)} title="Save name" className="p-2 text-gray-500 hover:text-indigo-600">
+                      <Check className="w-4 h-4" />
+                    </button>
+                  ) : (
+                    <button
+                      onClick={() => { setEditingId(entry.id); setEditingName(entry.name); }}
+                      title="Rename"
+                      className="p-2 text-gray-500 hover:text-indigo-600"
+                    >
+                      <Pencil className="w-4 h-4" />
+                    </button>
+                  )}
+                  <button onClick={() => setLibrary(duplicateInLibrary(library, entry.id))} title="Duplicate" className="p-2 text-gray-500 hover:text-indigo-600">
+                    <Copy className="w-4 h-4" />
+                  </button>
+                  <button onClick={() => handleDelete(entry.id)} title="Delete" className="p-2 text-gray-500 hover:text-red-600">
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+
+      {compared.length >= 2 && <ScenarioComparison money={money} scenarios={compared} real={real} />}
+    </div>
+  );
+}
@@ -0,0 +1,228 @@
+import { useEffect, useMemo, useState } from 'react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, ReferenceLine } from 'recharts';
+import { Grid3x3 } from 'lucide-react';
+import {
+  SENSITIVITY_INPUTS,
+  SENSITIVITY_METRICS,
+  getDefaultAxis,
+  getSensitivityInputs,
+  getStrategyName,
+  runSensitivity,
+  runTornado
+} from '../engine';
+import type { MoneyFormatter, Scenario, SensitivityCell, SensitivityInput, SensitivityMetric, SweepAxis } from '../engine';
+import NumberInput from './NumberInput';
+
+interface SensitivityPanelProps {
+  scenario: Scenario;
+  onApply: (scenario: Scenario) => void;
+  periodLabel: string;
+  money: MoneyFormatter;
+}
+
+const inputClass = 'w-full px-3 py-1 border-2 border-gray-300 rounded-lg text-sm focus:border-indigo-500 focus:outline-none';
+
+// Red for the worst cell through to green for the best
+const cellColor = (value: number, min: number, max: number) => {
+  const t = max > min && Number.isFinite(value) ? (value - min) / (max - min) : 1;
+  return `hsl(${Math.round(t * 120)}, 70%, 82%)`;
+};
+
+export default function SensitivityPanel({ scenario, onApply, periodLabel, money }: SensitivityPanelProps) {
+  const [open, setOpen] = useState(false);
+  const [metric, setMetric] = useState<SensitivityMetric>('final-balance');
+  const [xAxis, setXAxis] = useState<SweepAxis>(() => getDefaultAxis(scenario, 'roiPercentage'));
+  const [yAxis, setYAxis] = useState<SweepAxis>(() => getDefaultAxis(scenario, 'projectionDuration'));
+  const inputs = useMemo(() => getSensitivityInputs(scenario), [scenario]);
+  const axesApply = inputs.includes(xAxis.input) && inputs.includes(yAxis.input);
+
+  // Turning on a portfolio or glide path takes the ROI out of play; sweep the next input instead
+  useEffect(() => {
+    if (!inputs.includes(xAxis.input)) setXAxis(getDefaultAxis(scenario, inputs.find((input) => input !== yAxis.input) ?? inputs[0]));
+    if (!inputs.includes(yAxis.input)) setYAxis(getDefaultAxis(scenario, inputs.find((input) => input !== xAxis.input) ?? inputs[0]));
+  }, [inputs, scenario, xAxis.input, yAxis.input]);
+
+  // Every cell is a full scenario run, so nothing is worked out until the panel is open
+  const grid = useMemo(
+    () => open && axesApply ? runSensitivity(scenario, xAxis, yAxis, metric) : null,
+    [open, axesApply, scenario, xAxis, yAxis, metric]
+  );
+  const tornado = useMemo(() => open ? runTornado(scenario, metric) : null, [open, scenario, metric]);
+
+  const formatInput = (input: SensitivityInput, value: number) => {
+    const { unit } = SENSITIVITY_INPUTS[input];
+    if (unit === '%') return `${value}%`;
+    if (unit === 'months') return `${value} mo`;
+    if (unit === 'periods') return `${value} ${periodLabel.toLowerCase()}${value === 1 ? '' : 's'}`;
+    return money.compact(value);
+  };
+  const formatResult = (cell: Pick<SensitivityCell, 'value' | 'depleted'>) =>
+    metric === 'final-balance' ? money.compact(cell.value) : cell.depleted ? `${cell.value.toFixed(1)} yrs` : 'Lasts';
+
+  const values = grid?.cells.flat().map((cell) => cell.value).filter(Number.isFinite) ?? [];
+  const [min, max] = [Math.min(...values), Math.max(...values)];
+
+  const chartData = tornado?.bars.map((bar) => ({
+    label: SENSITIVITY_INPUTS[bar.input].label,
+    down: bar.lowResult - tornado.base,
+    up: bar.highResult - tornado.base,
+    range: `${formatInput(bar.input, bar.low)} – ${formatInput(bar.input, bar.high)}`
+  })) ?? [];
+  const formatChange = (change: number) =>
+    metric === 'final-balance' ? money.signed(change) : `${change > 0 ? '+' : ''}${change.toFixed(1)} yrs`;
+
+  const axisEditor = (label: string, axis: SweepAxis, other: SweepAxis, onChange: (axis: SweepAxis) => void) => (
+    <div className="grid grid-cols-2 md:grid-cols-[auto_2fr_1fr_1fr_1fr] gap-2 items-start">
+      <span className="text-sm font-semibold text-gray-700 py-1 col-span-2 md:col-span-1">{label}</span>
+      <select
+        value={axis.input}
+        onChange={(e) => onChange(getDefaultAxis(scenario, e.target.value as SensitivityInput, axis.steps))}
+        className={`${inputClass} col-span-2 md:col-span-1`}
+      >
+        {inputs.filter((input) => input !== other.input).map((input) => (
+          <option key={input} value={input}>{SENSITIVITY_INPUTS[input].label}</option>
+        ))}
+      </select>
+      <div>
+        <NumberInput field={axis.input} value={axis.min} onChange={(value) => onChange({ ...axis, min: value })} className={inputClass} />
+      </div>
+      <div>
+        <NumberInput field={axis.input} value={axis.max} onChange={(value) => onChange({ ...axis, max: value })} className={inputClass} />
+      </div>
+      <div>
+        <NumberInput
+          field="sensitivity.steps"
+          value={axis.steps}
+          onChange={(steps) => onChange({ ...axis, steps })}
+          className={inputClass}
+          title="Steps"
+        />
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="bg-white rounded-lg p-4 border border-gray-200 mb-6">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h3 className="text-lg font-bold text-gray-800 flex items-center gap-2">
+          <Grid3x3 className="w-5 h-5 text-indigo-600" />
+          Sensitivity
+        </h3>
+        <button
+          onClick={() => setOpen(!open)}
+          className={`px-3 py-1 rounded-lg text-xs font-semibold transition-all ${
+            open ? 'bg-indigo-600 text-white shadow-lg' : 'bg-white text-gray-700 border-2 border-gray-300 hover:border-indigo-400'
+          }`}
+        >
+          {open ? 'Hide' : 'Show how fragile this plan is'}
+        </button>
+      </div>
+
+      {grid && tornado && (
+        <div className="mt-4 space-y-4">
+          <div className="flex flex-wrap items-center gap-2">
+            <p className="text-sm font-semibold text-gray-700 mr-2">Measure:</p>
+            {(Object.keys(SENSITIVITY_METRICS) as SensitivityMetric[]).map((key) => (
+              <button
+                key={key}
+                onClick={() => setMetric(key)}
+                className={`px-3 py-1 rounded-lg text-xs font-semibold transition-all ${
+                  metric === key ? 'bg-indigo-600 text-white shadow-lg' : 'bg-white text-gray-700 border-2 border-gray-300 hover:border-indigo-400'
+                }`}
+              >
+                {SENSITIVITY_METRICS[key]}
+              </button>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            <div className="hidden md:grid grid-cols-[auto_2fr_1fr_1fr_1fr] gap-2 text-xs font-semibold text-gray-600">
+              <span className="invisible">Across</span>
+              <span>Input</span>
+              <span>From</span>
+              <span>To</span>
+              <span>Steps</span>
+            </div>
+            {axisEditor('Across', xAxis, yAxis, setXAxis)}
+            {axisEditor('Down', yAxis, xAxis, setYAxis)}
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="text-xs">
+              <thead>
+                <tr>
+                  <th className="py-1 px-2 text-left text-gray-500 font-semibold">
+                    {SENSITIVITY_INPUTS[yAxis.input].label} ↓ / {SENSITIVITY_INPUTS[xAxis.input].label} →
+                  </th>
+                  {grid.xValues.map((x) => (
+                    <th key={x} className="py-1 px-2 text-center text-gray-700 font-semibold">{formatInput(xAxis.input, x)}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {grid.cells.map((row, i) => (
+                  <tr key={grid.yValues[i]}>
+                    <th className="py-1 px-2 text-left text-gray-700 font-semibold">{formatInput(yAxis.input, grid.yValues[i])}</th>
+                    {row.map((cell) => {
+                      const current = cell.x === scenario[xAxis.input] && cell.y === scenario[yAxis.input];
+                      return (
+                        <td key={cell.x} className="p-0.5">
+                          <button
+                            onClick={() => onApply({ ...scenario, [xAxis.input]: cell.x, [yAxis.input]: cell.y })}
+                            style={{ backgroundColor: metric === 'depletion' && !cell.depleted ? cellColor(max, min, max) : cellColor(cell.value, min, max) }}
+                            className={`w-full min-w-[64px] px-2 py-2 rounded font-semibold text-gray-800 hover:ring-2 hover:ring-indigo-400 ${
+                              current ? 'ring-2 ring-indigo-600' : ''
+                            }`}
+                            title={`${formatInput(xAxis.input, cell.x)}, ${formatInput(yAxis.input, cell.y)}: click to use these values`}
+                          >
+                            {formatResult(cell)}
+                          </button>
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <p className="text-xs text-gray-500">
+            Each cell runs {getStrategyName(scenario.reinvestmentStrategy, scenario.builtStrategy)} at fixed returns with the two values swapped in. Click a cell to load its values; the outlined cell is the current scenario.
+          </p>
+
+          <div>
+            <h4 className="text-sm font-bold text-gray-800 mb-1">What moves the result most</h4>
+            <p className="text-xs text-gray-500 mb-2">
+              Each input moved on its own, rates by {SENSITIVITY_INPUTS.roiPercentage.swing} points (inflation by {SENSITIVITY_INPUTS.inflationRate.swing}) and
+              everything else by {SENSITIVITY_INPUTS.investmentAmount.swing * 100}%, from a {SENSITIVITY_METRICS[metric].toLowerCase()} of{' '}
+              {formatResult({ value: tornado.base, depleted: metric === 'depletion' })}.
+            </p>
+            {chartData.length === 0 ? (
+              <p className="text-sm text-gray-500">None of these inputs changes the result.</p>
+            ) : (
+              <ResponsiveContainer width="100%" height={80 + chartData.length * 44}>
+                <BarChart data={chartData} layout="vertical" margin={{ left: 40 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#e0e0e0" />
+                  <XAxis
+                    type="number"
+                    stroke="#666"
+                    style={{ fontSize: '12px' }}
+                    tickFormatter={(value) => (metric === 'final-balance' ? money.compact(value) : `${value}`)}
+                  />
+                  <YAxis type="category" dataKey="label" stroke="#666" style={{ fontSize: '12px' }} width={140} />
+                  <Tooltip
+                    formatter={(value, name, item) => [`${formatChange(Number(value))} (${item.payload.range})`, name]}
+                    contentStyle={{ backgroundColor: '#fff', border: '2px solid #e0e0e0', borderRadius: '8px' }}
+                  />
+                  <Legend />
+                  <ReferenceLine x={0} stroke="#374151" />
+                  <Bar dataKey="down" name="Input lowered" fill="#f87171" />
+                  <Bar dataKey="up" name="Input raised" fill="#4ade80" />
+                </BarChart>
+              </ResponsiveContainer>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
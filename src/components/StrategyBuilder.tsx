@@ -0,0 +1,154 @@
+import { useEffect, useState } from 'react';
+import { Save, Wrench, X } from 'lucide-react';
+import { RULE_KINDS, STRATEGIES, addStrategy, createRule, loadStrategies, removeStrategy, saveStrategies } from '../engine';
+import type { BuiltStrategy, MoneyFormatter, SavedStrategy, StrategyRule, StrategyRuleKind } from '../engine';
+import NumberInput from './NumberInput';
+
+interface StrategyBuilderProps {
+  strategy: BuiltStrategy;
+  active: boolean;  // The built strategy is the one being projected
+  onStrategyChange: (strategy: BuiltStrategy) => void;
+  onSelect: (strategy: BuiltStrategy) => void;
+  money: MoneyFormatter;
+}
+
+const inputClass = 'w-full px-3 py-1 border-2 border-gray-300 rounded-lg text-sm focus:border-lime-500 focus:outline-none';
+
+const isSame = (saved: SavedStrategy, strategy: BuiltStrategy) =>
+  saved.name === strategy.name && JSON.stringify(saved.rules) === JSON.stringify(strategy.rules);
+
+export default function StrategyBuilder({ strategy, active, onStrategyChange, onSelect, money }: StrategyBuilderProps) {
+  const [saved, setSaved] = useState<SavedStrategy[]>(() => loadStrategies(window.localStorage));
+
+  useEffect(() => {
+    saveStrategies(window.localStorage, saved);
+  }, [saved]);
+
+  const updateRule = (id: string, changes: Partial<StrategyRule>) =>
+    onStrategyChange({ ...strategy, rules: strategy.rules.map((rule) => (rule.id === id ? { ...rule, ...changes } : rule)) });
+
+  const handleSave = () => {
+    setSaved(addStrategy(saved, strategy));
+    onStrategyChange({ ...strategy, name: strategy.name.trim() || 'Untitled' });
+  };
+
+  const unsaved = !saved.some((entry) => isSame(entry, strategy));
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <p className="text-xs font-semibold text-gray-600 mr-1">Your strategies:</p>
+        {saved.map((entry) => {
+          const selected = active && entry.name === strategy.name;
+          return (
+            <span
+              key={entry.id}
+              className={`flex items-center gap-1 pl-3 pr-1 py-1 rounded-lg text-xs font-semibold transition-all ${
+                selected
+                  ? `${STRATEGIES.built.color} text-white shadow-lg`
+                  : 'bg-white text-gray-700 border-2 border-gray-300 hover:border-gray-400'
+              }`}
+            >
+              <button onClick={() => onSelect({ name: entry.name, rules: structuredClone(entry.rules) })}>
+                {entry.name}
+              </button>
+              <button
+                onClick={() => setSaved(removeStrategy(saved, entry.id))}
+                title="Delete strategy"
+                className={selected ? 'text-lime-100 hover:text-white' : 'text-gray-400 hover:text-red-600'}
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </span>
+          );
+        })}
+        <button
+          onClick={() => onSelect({ name: `Strategy ${saved.length + 1}`, rules: [createRule('add-profit', 50)] })}
+          className="flex items-center gap-1 px-3 py-1 rounded-lg text-xs font-semibold bg-white text-gray-700 border-2 border-dashed border-gray-300 hover:border-lime-500 transition-all"
+        >
+          <Wrench className="w-3 h-3" />
+          Build a strategy
+        </button>
+      </div>
+
+      {active && (
+        <div className="p-4 bg-white rounded-lg border-2 border-lime-200 space-y-3">
+          <div className="flex flex-wrap items-center gap-2">
+            <input
+              type="text"
+              value={strategy.name}
+              onChange={(e) => onStrategyChange({ ...strategy, name: e.target.value })}
+              placeholder="Name this strategy"
+              className="flex-1 min-w-[200px] px-3 py-1 border-2 border-gray-300 rounded-lg text-sm font-semibold focus:border-lime-500 focus:outline-none"
+            />
+            <button
+              onClick={handleSave}
+              disabled={!unsaved}
+              className="flex items-center gap-1 px-3 py-1 rounded-lg text-xs font-semibold bg-lime-600 text-white shadow hover:bg-lime-700 disabled:opacity-50 transition-all"
+            >
+              <Save className="w-3 h-3" />
+              {unsaved ? 'Save' : 'Saved'}
+            </button>
+          </div>
+
+          <div className="space-y-2">
+            <div className="hidden md:grid grid-cols-[2fr_1fr_1fr_auto] gap-2 text-xs font-semibold text-gray-600">
+              <span>Rule</span>
+              <span>Value</span>
+              <span>Every Nth Period</span>
+            </div>
+            {strategy.rules.map((rule) => (
+              <div key={rule.id} className="grid grid-cols-2 md:grid-cols-[2fr_1fr_1fr_auto] gap-2 items-center">
+                <select
+                  value={rule.kind}
+                  onChange={(e) => updateRule(rule.id, { kind: e.target.value as StrategyRuleKind })}
+                  className={`${inputClass} col-span-2 md:col-span-1`}
+                >
+                  {(Object.keys(RULE_KINDS) as StrategyRuleKind[]).map((kind) => (
+                    <option key={kind} value={kind}>{RULE_KINDS[kind].label}</option>
+                  ))}
+                </select>
+                <div className="flex items-center gap-1">
+                  <div>
+                    <NumberInput
+                      field="builtStrategy.rules.value"
+                      value={rule.value}
+                      onChange={(value) => updateRule(rule.id, { value })}
+                      className={inputClass}
+                    />
+                  </div>
+                  <span className="text-xs text-gray-500">{RULE_KINDS[rule.kind].unit === 'percent' ? '%' : money.inputSymbol}</span>
+                </div>
+                <div>
+                  <NumberInput
+                    field="builtStrategy.rules.every"
+                    value={rule.every}
+                    onChange={(every) => updateRule(rule.id, { every })}
+                    className={inputClass}
+                  />
+                </div>
+                <button
+                  onClick={() => onStrategyChange({ ...strategy, rules: strategy.rules.filter((r) => r.id !== rule.id) })}
+                  className="text-gray-400 hover:text-red-600 justify-self-start"
+                  title="Remove rule"
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+            <button
+              onClick={() => onStrategyChange({ ...strategy, rules: [...strategy.rules, createRule('add-fixed', 100)] })}
+              className="px-3 py-1 rounded-lg text-xs font-semibold bg-white text-gray-700 border-2 border-gray-300 hover:border-lime-500 transition-all"
+            >
+              + Rule
+            </button>
+          </div>
+
+          <p className="text-xs text-gray-500">
+            Cash-in rules act at the start of a period. Withdrawals come out after growth, top to bottom, and caps limit their total.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
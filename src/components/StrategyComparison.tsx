@@ -0,0 +1,146 @@
+import { useMemo, useState } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { ArrowDown, ArrowUp } from 'lucide-react';
+import { STRATEGIES, compareStrategies, getStrategyName, toRealResult } from '../engine';
+import type { MoneyFormatter, ProjectionInputs, ProjectionSummary, ReinvestmentStrategy } from '../engine';
+
+interface StrategyComparisonProps {
+  projectionInputs: ProjectionInputs;
+  periodLabel: string;
+  onSelectStrategy: (strategy: ReinvestmentStrategy) => void;
+  money: MoneyFormatter;
+  real: boolean;  // Show every strategy in today's money
+}
+
+type SortKey = 'name' | keyof ProjectionSummary;
+
+const COLUMNS: { key: SortKey; label: string }[] = [
+  { key: 'name', label: 'Strategy' },
+  { key: 'finalBalance', label: 'Final Balance' },
+  { key: 'totalCashIn', label: 'Total Cash In' },
+  { key: 'totalCashOut', label: 'Total Cash Out' },
+  { key: 'netCashFlow', label: 'Net Cash Flow' },
+  { key: 'totalGain', label: 'Total Gain' }
+];
+
+export default function StrategyComparison({
+  projectionInputs,
+  periodLabel,
+  onSelectStrategy,
+  money,
+  real
+}: StrategyComparisonProps) {
+  const [sortKey, setSortKey] = useState<SortKey>('finalBalance');
+  const [sortDescending, setSortDescending] = useState<boolean>(true);
+
+  const outcomes = useMemo(() => {
+    const nominal = compareStrategies(projectionInputs);
+    return real ? nominal.map(toRealResult) : nominal;
+  }, [projectionInputs, real]);
+
+  const chartData = useMemo(() => Array.from({ length: projectionInputs.projectionDuration }, (_, i) => {
+    const point: Record<string, number | string> = { label: `${periodLabel} ${i + 1}` };
+    for (const { strategy, projections } of outcomes) {
+      point[strategy] = projections[i]?.endValue ?? 0;
+    }
+    return point;
+  }), [outcomes, projectionInputs.projectionDuration, periodLabel]);
+
+  const sorted = useMemo(() => [...outcomes].sort((a, b) => {
+    const diff = sortKey === 'name'
+      ? getStrategyName(a.strategy, projectionInputs.builtStrategy).localeCompare(getStrategyName(b.strategy, projectionInputs.builtStrategy))
+      : a.summary[sortKey] - b.summary[sortKey];
+    return sortDescending ? -diff : diff;
+  }), [outcomes, sortKey, sortDescending, projectionInputs.builtStrategy]);
+
+  const handleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setSortDescending(!sortDescending);
+    } else {
+      setSortKey(key);
+      setSortDescending(key !== 'name');
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl p-6 mb-6 border border-gray-200">
+      <h3 className="text-lg font-bold text-gray-800 mb-4">All Strategies Compared{real && ", in today's money"}</h3>
+
+      <ResponsiveContainer width="100%" height={400}>
+        <LineChart data={chartData}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#e0e0e0" />
+          <XAxis dataKey="label" stroke="#666" style={{ fontSize: '12px' }} />
+          <YAxis
+            stroke="#666"
+            style={{ fontSize: '12px' }}
+            tickFormatter={(value) => money.compact(value)}
+          />
+          <Tooltip
+            formatter={(value) => money.format(Number(value))}
+            contentStyle={{ backgroundColor: '#fff', border: '2px solid #e0e0e0', borderRadius: '8px' }}
+          />
+          <Legend />
+          {outcomes.map(({ strategy }) => (
+            <Line
+              key={strategy}
+              type="monotone"
+              dataKey={strategy}
+              stroke={STRATEGIES[strategy].chartColor}
+              strokeWidth={projectionInputs.reinvestmentStrategy === strategy ? 4 : 2}
+              name={getStrategyName(strategy, projectionInputs.builtStrategy)}
+              dot={false}
+            />
+          ))}
+        </LineChart>
+      </ResponsiveContainer>
+
+      <div className="overflow-x-auto mt-6">
+        <table className="w-full">
+          <thead className="bg-purple-100">
+            <tr className="border-b-2 border-purple-200">
+              {COLUMNS.map(({ key, label }) => (
+                <th
+                  key={key}
+                  onClick={() => handleSort(key)}
+                  className={`py-3 px-4 font-semibold text-gray-700 cursor-pointer select-none hover:text-indigo-600 ${
+                    key === 'name' ? 'text-left' : 'text-right'
+                  }`}
+                >
+                  <span className="inline-flex items-center gap-1">
+                    {label}
+                    {sortKey === key && (sortDescending
+                      ? <ArrowDown className="w-3 h-3" />
+                      : <ArrowUp className="w-3 h-3" />)}
+                  </span>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {sorted.map(({ strategy, summary }) => (
+              <tr
+                key={strategy}
+                onClick={() => onSelectStrategy(strategy)}
+                className={`border-b border-purple-100 cursor-pointer transition-colors ${
+                  projectionInputs.reinvestmentStrategy === strategy ? 'bg-indigo-50' : 'hover:bg-purple-50'
+                }`}
+              >
+                <td className="py-3 px-4 font-semibold" style={{ color: STRATEGIES[strategy].chartColor }}>
+                  {getStrategyName(strategy, projectionInputs.builtStrategy)}
+                </td>
+                <td className="text-right py-3 px-4 font-semibold text-gray-900">{money.format(summary.finalBalance)}</td>
+                <td className="text-right py-3 px-4 text-blue-600">{money.signed(summary.totalCashIn)}</td>
+                <td className="text-right py-3 px-4 text-green-600">{money.format(summary.totalCashOut)}</td>
+                <td className={`text-right py-3 px-4 ${summary.netCashFlow >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                  {money.signed(summary.netCashFlow)}
+                </td>
+                <td className="text-right py-3 px-4 text-purple-600">{money.signed(summary.totalGain)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <p className="text-xs text-gray-500 mt-3">Click a column to sort, or a row to switch to that strategy.</p>
+    </div>
+  );
+}
@@ -0,0 +1,92 @@
+import { Landmark } from 'lucide-react';
+import type { AccountType, TaxSettings } from '../engine';
+import NumberInput from './NumberInput';
+
+interface TaxPanelProps {
+  settings: TaxSettings;
+  onSettingsChange: (settings: TaxSettings) => void;
+}
+
+const ACCOUNT_TYPES: Record<AccountType, { name: string; description: string }> = {
+  'taxable': {
+    name: 'Taxable Brokerage',
+    description: 'Dividends are taxed as they are paid. Withdrawals pay capital gains tax on the gain portion only; your cost basis comes out tax-free.'
+  },
+  'tax-deferred': {
+    name: 'Tax-Deferred',
+    description: 'Growth is untaxed until withdrawal, when the whole amount is taxed as income (e.g. a 401(k) or traditional IRA).'
+  },
+  'tax-free': {
+    name: 'Tax-Free',
+    description: 'Qualified withdrawals are not taxed (e.g. a Roth IRA or ISA).'
+  }
+};
+
+export default function TaxPanel({ settings, onSettingsChange }: TaxPanelProps) {
+  const rateInput = (label: string, key: 'capitalGainsRate' | 'dividendYield' | 'dividendTaxRate' | 'incomeTaxRate') => (
+    <div>
+      <label className="block text-sm font-semibold text-gray-700 mb-2">{label}</label>
+      <NumberInput
+        field={`tax.${key}`}
+        step="0.5"
+        value={settings[key]}
+        onChange={(value) => onSettingsChange({ ...settings, [key]: value })}
+        className="w-full px-4 py-2 border-2 border-gray-300 rounded-lg focus:border-indigo-500 focus:outline-none"
+      />
+    </div>
+  );
+
+  return (
+    <div className="bg-white rounded-xl p-6 mb-6 border border-gray-200">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-bold text-gray-800 flex items-center gap-2">
+          <Landmark className="w-5 h-5 text-indigo-600" />
+          Taxes
+        </h3>
+        <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+          <input
+            type="checkbox"
+            checked={settings.enabled}
+            onChange={(e) => onSettingsChange({ ...settings, enabled: e.target.checked })}
+            className="w-4 h-4 accent-indigo-600"
+          />
+          Show after-tax figures
+        </label>
+      </div>
+
+      {settings.enabled && (
+        <>
+          <div className="flex flex-wrap gap-2 mb-3">
+            {(Object.keys(ACCOUNT_TYPES) as AccountType[]).map((account) => (
+              <button
+                key={account}
+                onClick={() => onSettingsChange({ ...settings, account })}
+                className={`px-4 py-2 rounded-lg text-sm font-semibold transition-all ${
+                  settings.account === account
+                    ? 'bg-indigo-600 text-white shadow-lg'
+                    : 'bg-white text-gray-700 border-2 border-gray-300 hover:border-indigo-400'
+                }`}
+              >
+                {ACCOUNT_TYPES[account].name}
+              </button>
+            ))}
+          </div>
+          <p className="text-xs text-gray-500 mb-4">{ACCOUNT_TYPES[settings.account].description}</p>
+
+          {settings.account === 'taxable' && (
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              {rateInput('Capital Gains Rate (%)', 'capitalGainsRate')}
+              {rateInput('Dividend Yield (%)', 'dividendYield')}
+              {rateInput('Dividend Tax Rate (%)', 'dividendTaxRate')}
+            </div>
+          )}
+          {settings.account === 'tax-deferred' && (
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              {rateInput('Income Tax Rate (%)', 'incomeTaxRate')}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,76 @@
+import { useMemo } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, ReferenceLine } from 'recharts';
+import { formatPeriodDate } from '../engine';
+import type { CalculationData, MoneyFormatter, ProjectionData, ProjectionFrequency } from '../engine';
+
+interface TimelineChartProps {
+  calculations: CalculationData[];
+  projections: ProjectionData[];
+  projectionFrequency: ProjectionFrequency;
+  periodLabel: string;
+  continued: boolean;
+  money: MoneyFormatter;
+}
+
+type TimelinePoint = { label: string; accumulation?: number; projection?: number };
+
+export default function TimelineChart({
+  calculations,
+  projections,
+  projectionFrequency,
+  periodLabel,
+  continued,
+  money
+}: TimelineChartProps) {
+  // Accumulation rows, then projection periods on the same axis. When the projections
+  // carry on from the accumulated balance, both lines share the point where they meet.
+  const chartData = useMemo(() => {
+    const points: TimelinePoint[] = calculations.map((row) => ({ label: row.date, accumulation: row.currentValue }));
+    const junction = points[points.length - 1];
+    if (junction && continued) junction.projection = junction.accumulation;
+    projections.forEach((row) => points.push({
+      label: row.date ? formatPeriodDate(row.date, projectionFrequency) : `${periodLabel} ${row.period}`,
+      projection: row.endValue
+    }));
+    return points;
+  }, [calculations, projections, projectionFrequency, periodLabel, continued]);
+
+  const junctionLabel = calculations[calculations.length - 1]?.date;
+
+  return (
+    <div className="bg-white rounded-xl p-6 mb-6 border border-gray-200">
+      <h3 className="text-lg font-bold text-gray-800 mb-1">Full Timeline</h3>
+      <p className="text-xs text-gray-500 mb-4">
+        {continued
+          ? 'The projections carry on from the balance and cost basis the growth chart ends with.'
+          : 'The projections start again from the investment amount; turn on "Continue from the growth chart" to carry the balance over.'}
+      </p>
+      <ResponsiveContainer width="100%" height={360}>
+        <LineChart data={chartData}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#e0e0e0" />
+          <XAxis dataKey="label" stroke="#666" style={{ fontSize: '12px' }} />
+          <YAxis
+            stroke="#666"
+            style={{ fontSize: '12px' }}
+            tickFormatter={(value) => money.compact(value)}
+          />
+          <Tooltip
+            formatter={(value) => money.format(Number(value))}
+            contentStyle={{ backgroundColor: '#fff', border: '2px solid #e0e0e0', borderRadius: '8px' }}
+          />
+          <Legend />
+          <Line type="monotone" dataKey="accumulation" stroke="#6366f1" strokeWidth={2} name="Accumulation" dot={false} connectNulls={false} />
+          <Line type="monotone" dataKey="projection" stroke="#9333ea" strokeWidth={2} name="Projection" dot={false} connectNulls={false} />
+          {junctionLabel && (
+            <ReferenceLine
+              x={junctionLabel}
+              stroke="#94a3b8"
+              strokeDasharray="4 4"
+              label={{ value: 'Projections start', position: 'insideTopLeft', fill: '#64748b', fontSize: 11 }}
+            />
+          )}
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
@@ -0,0 +1,15 @@
+import type { CurrencyCode } from '../engine/types';
+
+// Units of each currency per US dollar, end-of-year mid-market rates rounded to
+// a few significant figures. Good enough for viewing a plan in another currency;
+// enter your own rate for anything that needs to be exact.
+export const FX_RATES_AS_OF = '2024-12-31';
+
+export const FX_PER_USD: Record<CurrencyCode, number> = {
+  USD: 1,
+  EUR: 0.96,
+  GBP: 0.8,
+  BDT: 119.5,
+  INR: 85.6,
+  JPY: 157.2
+};
@@ -0,0 +1,61 @@
+import type { HistoricalYear } from '../engine/types';
+
+// Annual total returns (%) for US large-cap stocks (S&P 500 incl. dividends),
+// US 10-year Treasury bonds, and CPI-U inflation (December to December).
+// Compiled from public annual series (Damodaran, NYU Stern; BLS) and rounded.
+export const HISTORICAL_RETURNS: HistoricalYear[] = [
+  { year: 1970, stocks: 4.01, bonds: 16.75, inflation: 5.6 },
+  { year: 1971, stocks: 14.31, bonds: 9.79, inflation: 3.3 },
+  { year: 1972, stocks: 18.98, bonds: 2.82, inflation: 3.4 },
+  { year: 1973, stocks: -14.66, bonds: 3.66, inflation: 8.7 },
+  { year: 1974, stocks: -26.47, bonds: 1.99, inflation: 12.3 },
+  { year: 1975, stocks: 37.20, bonds: 3.61, inflation: 6.9 },
+  { year: 1976, stocks: 23.84, bonds: 15.98, inflation: 4.9 },
+  { year: 1977, stocks: -7.18, bonds: 1.29, inflation: 6.7 },
+  { year: 1978, stocks: 6.56, bonds: -0.78, inflation: 9.0 },
+  { year: 1979, stocks: 18.44, bonds: 0.67, inflation: 13.3 },
+  { year: 1980, stocks: 32.42, bonds: -2.99, inflation: 12.5 },
+  { year: 1981, stocks: -4.91, bonds: 8.20, inflation: 8.9 },
+  { year: 1982, stocks: 21.55, bonds: 32.81, inflation: 3.8 },
+  { year: 1983, stocks: 22.56, bonds: 3.20, inflation: 3.8 },
+  { year: 1984, stocks: 6.27, bonds: 13.73, inflation: 3.9 },
+  { year: 1985, stocks: 31.73, bonds: 25.71, inflation: 3.8 },
+  { year: 1986, stocks: 18.67, bonds: 24.28, inflation: 1.1 },
+  { year: 1987, stocks: 5.25, bonds: -4.96, inflation: 4.4 },
+  { year: 1988, stocks: 16.61, bonds: 8.22, inflation: 4.4 },
+  { year: 1989, stocks: 31.69, bonds: 17.69, inflation: 4.6 },
+  { year: 1990, stocks: -3.10, bonds: 6.24, inflation: 6.1 },
+  { year: 1991, stocks: 30.47, bonds: 15.00, inflation: 3.1 },
+  { year: 1992, stocks: 7.62, bonds: 9.36, inflation: 2.9 },
+  { year: 1993, stocks: 10.08, bonds: 14.21, inflation: 2.7 },
+  { year: 1994, stocks: 1.32, bonds: -8.04, inflation: 2.7 },
+  { year: 1995, stocks: 37.58, bonds: 23.48, inflation: 2.5 },
+  { year: 1996, stocks: 22.96, bonds: 1.43, inflation: 3.3 },
+  { year: 1997, stocks: 33.36, bonds: 9.94, inflation: 1.7 },
+  { year: 1998, stocks: 28.58, bonds: 14.92, inflation: 1.6 },
+  { year: 1999, stocks: 21.04, bonds: -8.25, inflation: 2.7 },
+  { year: 2000, stocks: -9.10, bonds: 16.66, inflation: 3.4 },
+  { year: 2001, stocks: -11.89, bonds: 5.57, inflation: 1.6 },
+  { year: 2002, stocks: -22.10, bonds: 15.12, inflation: 2.4 },
+  { year: 2003, stocks: 28.68, bonds: 0.38, inflation: 1.9 },
+  { year: 2004, stocks: 10.88, bonds: 4.49, inflation: 3.3 },
+  { year: 2005, stocks: 4.91, bonds: 2.87, inflation: 3.4 },
+  { year: 2006, stocks: 15.79, bonds: 1.96, inflation: 2.5 },
+  { year: 2007, stocks: 5.49, bonds: 10.21, inflation: 4.1 },
+  { year: 2008, stocks: -37.00, bonds: 20.10, inflation: 0.1 },
+  { year: 2009, stocks: 26.46, bonds: -11.12, inflation: 2.7 },
+  { year: 2010, stocks: 15.06, bonds: 8.46, inflation: 1.5 },
+  { year: 2011, stocks: 2.11, bonds: 16.04, inflation: 3.0 },
+  { year: 2012, stocks: 16.00, bonds: 2.97, inflation: 1.7 },
+  { year: 2013, stocks: 32.39, bonds: -9.10, inflation: 1.5 },
+  { year: 2014, stocks: 13.69, bonds: 10.75, inflation: 0.8 },
+  { year: 2015, stocks: 1.38, bonds: 1.28, inflation: 0.7 },
+  { year: 2016, stocks: 11.96, bonds: 0.69, inflation: 2.1 },
+  { year: 2017, stocks: 21.83, bonds: 2.80, inflation: 2.1 },
+  { year: 2018, stocks: -4.38, bonds: -0.02, inflation: 1.9 },
+  { year: 2019, stocks: 31.49, bonds: 9.64, inflation: 2.3 },
+  { year: 2020, stocks: 18.40, bonds: 11.33, inflation: 1.4 },
+  { year: 2021, stocks: 28.71, bonds: -4.42, inflation: 7.0 },
+  { year: 2022, stocks: -18.11, bonds: -17.83, inflation: 6.5 },
+  { year: 2023, stocks: 26.29, bonds: 3.88, inflation: 3.4 }
+];
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { formatAuditFormula } from './audit';
+import { projectFuture } from './projections';
+import { DEFAULT_SCENARIO } from './scenario';
+import { STRATEGIES } from './strategies';
+import { getProjectionInputs } from './summary';
+import type { AuditStep, ProjectionData, ProjectionInputs, ReinvestmentStrategy } from './types';
+
+// The default scenario carrying 1,000 into a short yearly projection
+const baseInputs: ProjectionInputs = {
+  ...getProjectionInputs({ ...DEFAULT_SCENARIO, compounding: 'annual', projectionDuration: 4 }, 1000, 1000),
+  builtStrategy: { name: 'Skim', rules: [{ id: 'r', kind: 'withdraw-above', value: 1000, every: 2 }] }
+};
+
+const explain = (strategy: ReinvestmentStrategy, overrides: Partial<ProjectionInputs> = {}) =>
+  projectFuture({ ...baseInputs, reinvestmentStrategy: strategy, ...overrides, explain: true });
+
+// The last step for a figure is the one that produced the number in the row
+const lastStep = (row: ProjectionData, label: string): AuditStep | undefined =>
+  [...(row.audit ?? [])].reverse().find((step) => step.label === label);
+
+const format = (n: number) => `$${Math.round(n).toLocaleString('en-US')}`;
+
+describe('projectFuture audit trail', () => {
+  it('leaves the figures unchanged and adds no trail unless asked', () => {
+    const rows = projectFuture({ ...baseInputs, reinvestmentStrategy: 'double-down' });
+    expect(rows.every((row) => row.audit === undefined)).toBe(true);
+    expect(explain('double-down').map(({ audit, ...row }) => row)).toEqual(rows);
+  });
+
+  it('ends on the figures in the row for every strategy, with events, fees and tax', () => {
+    const overrides: Partial<ProjectionInputs> = {
+      fees: { annualFee: 1, contributionFee: 5, withdrawalFee: 1 },
+      tax: { enabled: true, account: 'taxable', capitalGainsRate: 15, dividendYield: 2, dividendTaxRate: 15, incomeTaxRate: 22 },
+      periodEvents: [
+        { cashFlow: 0, contributionFactor: 1, labels: [] },
+        { cashFlow: 200, contributionFactor: 1, labels: ['Bonus'] },
+        { cashFlow: -150, contributionFactor: 0, labels: ['Car'] },
+        { cashFlow: 0, contributionFactor: 1, labels: [] }
+      ]
+    };
+    for (const strategy of Object.keys(STRATEGIES) as ReinvestmentStrategy[]) {
+      for (const row of explain(strategy, overrides)) {
+        expect(Math.round(lastStep(row, 'Cash In')?.value ?? NaN), `${strategy} cash in`).toBe(row.newCash);
+        expect(Math.round(lastStep(row, 'Profit')?.value ?? NaN), `${strategy} profit`).toBe(row.profit);
+        expect(Math.round(lastStep(row, 'After Growth')?.value ?? NaN), `${strategy} after growth`).toBe(row.afterGrowth);
+        expect(Math.round(lastStep(row, 'Cash Out')?.value ?? NaN), `${strategy} cash out`).toBe(row.cashOut);
+        expect(Math.round(lastStep(row, 'End Value')?.value ?? NaN), `${strategy} end value`).toBe(row.endValue);
+      }
+    }
+  });
+
+  it('shows the profit that Double Down adds', () => {
+    const [, second] = explain('double-down');
+    const cashIn = lastStep(second, 'Cash In');
+    expect(cashIn?.operands).toEqual([{ label: "last period's profit", value: expect.closeTo(100), unit: 'money' }]);
+    expect(second.audit?.find((step) => step.label === 'Rule')?.note).toMatch(/Double Down/);
+  });
+
+  it('spells out how Capital Protect splits the balance', () => {
+    const [, second] = explain('capital-protect');
+    const cashOut = lastStep(second, 'Cash Out');
+    expect(cashOut && formatAuditFormula(cashOut, format)).toBe('max(0, $1,100 − $1,000) + $1,000 × 10%');
+    expect(cashOut?.value).toBeCloseTo(200);
+    expect(lastStep(second, 'End Value')?.note).toMatch(/neither Cash Out nor End Value/);
+  });
+
+  it('names the rate and the phase that applied', () => {
+    const rows = explain('level-up', {
+      fees: { annualFee: 1.2, contributionFee: 0, withdrawalFee: 0 },
+      plan: { enabled: true, phases: [{ id: 'p', trigger: 'period', period: 3, strategy: 'all-in', amount: 0 }] }
+    });
+    expect(rows[0].audit?.[0]).toEqual({ label: 'Rate', note: '10% a year', value: expect.closeTo(0.1), unit: 'rate' });
+    expect(rows[0].audit?.[1].label).toBe('Net Rate');
+    expect(rows[2].audit?.[0]).toEqual({ label: 'Phase', note: 'Phase 2 (All In) starts at period 3' });
+    expect(rows[3].audit?.some((step) => step.label === 'Phase')).toBe(false);
+  });
+});
@@ -0,0 +1,281 @@
+import { STRATEGIES } from './strategies';
+import { RULE_KINDS, isRuleActive } from './strategyBuilder';
+import type { AuditOperand, AuditStep, PlanPhase, ReinvestmentStrategy, StrategyRule } from './types';
+
+// What one period of a strategy worked with and produced
+export interface StrategyAuditInputs {
+  strategy: ReinvestmentStrategy;
+  initialCashIn: boolean;  // Period 1 of a fresh start: the investment goes in, no strategy yet
+  period: number;
+  startValue: number;
+  rate: number;
+  newCash: number;
+  cashOut: number;
+  endValue: number;
+  previousProfit: number;
+  originalPrincipal: number;
+  principal: number;
+  levelUpAmount: number;
+  salaryAmount: number;
+  shieldInflation: number;
+  customPerPeriodAmount: number;
+  plannedWithdrawal?: number;
+  rules?: StrategyRule[];
+}
+
+export interface StrategyAudit {
+  rule: AuditStep;
+  cashIn: AuditStep;
+  cashOut: AuditStep;
+  endValue: AuditStep;
+}
+
+export const moneyOperand = (label: string, value: number): AuditOperand => ({ label, value, unit: 'money' });
+export const rateOperand = (label: string, value: number): AuditOperand => ({ label, value, unit: 'rate' });
+
+const NONE: Omit<AuditStep, 'label'> = { note: 'Nothing this period', value: 0 };
+
+export const explainPhase = (phase: PlanPhase, number: number, balance: number): AuditStep => {
+  const name = STRATEGIES[phase.strategy].name;
+  switch (phase.trigger) {
+    case 'period':
+      return { label: 'Phase', note: `Phase ${number} (${name}) starts at period ${phase.period}` };
+    case 'date':
+      return { label: 'Phase', note: `Phase ${number} (${name}) starts with the first period on or after ${phase.date}` };
+    case 'balance':
+      return {
+        label: 'Phase',
+        note: `Phase ${number} (${name}) starts: the balance reached its trigger`,
+        formula: '{0} ≥ {1}',
+        operands: [moneyOperand('start', balance), moneyOperand('trigger', phase.balance ?? 0)]
+      };
+  }
+};
+
+// The return used this period and, with an annual fee, the net rate after it
+export const explainRate = (source: string, grossRate: number, netRate: number, feePerPeriod: number): AuditStep[] => [
+  { label: 'Rate', note: source, value: grossRate, unit: 'rate' },
+  ...(feePerPeriod > 0
+    ? [{
+        label: 'Net Rate',
+        note: 'The annual fee accrues on the grown balance',
+        formula: '(1 + {0}) × (1 − {1}) − 1',
+        operands: [rateOperand('rate', grossRate), rateOperand('fee', feePerPeriod)],
+        value: netRate,
+        unit: 'rate' as const
+      }]
+    : [])
+];
+
+// Cash in, cash out and end value the way the projectFuture switch works them out
+export const explainStrategy = (inputs: StrategyAuditInputs): StrategyAudit => {
+  const { strategy, startValue: start, rate: r, newCash, cashOut, endValue } = inputs;
+  const name = STRATEGIES[strategy].name;
+  const afterGrowth = start * (1 + r);
+  const grown = (note: string): AuditStep => ({
+    label: 'End Value',
+    note,
+    formula: '({0} + {1}) × (1 + {2})',
+    operands: [moneyOperand('start', start), moneyOperand('cash in', newCash), rateOperand('rate', r)],
+    value: endValue
+  });
+  const withdrawn = (note: string): AuditStep => ({
+    label: 'End Value',
+    note,
+    formula: 'max(0, {0} × (1 + {1}) − {2})',
+    operands: [moneyOperand('start', start), rateOperand('rate', r), moneyOperand('cash out', cashOut)],
+    value: endValue
+  });
+  const noCashOut: AuditStep = { label: 'Cash Out', ...NONE };
+  const noCashIn: AuditStep = { label: 'Cash In', ...NONE };
+
+  if (inputs.initialCashIn) {
+    return {
+      rule: { label: 'Rule', note: 'First period: the balance starts at zero, the investment goes in and grows' },
+      cashIn: { label: 'Cash In', note: 'The investment amount', formula: '{0}', operands: [moneyOperand('investment', newCash)], value: newCash },
+      cashOut: noCashOut,
+      endValue: grown('The investment grows')
+    };
+  }
+
+  switch (strategy) {
+    case '2x':
+      return {
+        rule: { label: 'Rule', note: `${name}: add cash equal to the balance` },
+        cashIn: { label: 'Cash In', note: 'The balance at the start', formula: '{0}', operands: [moneyOperand('start', start)], value: newCash },
+        cashOut: noCashOut,
+        endValue: grown('Everything invested grows')
+      };
+    case 'repeat':
+      return {
+        rule: { label: 'Rule', note: `${name}: add the original investment again` },
+        cashIn: { label: 'Cash In', note: 'The original investment', formula: '{0}', operands: [moneyOperand('original investment', inputs.originalPrincipal)], value: newCash },
+        cashOut: noCashOut,
+        endValue: grown('Everything invested grows')
+      };
+    case 'double-down':
+      return {
+        rule: { label: 'Rule', note: `${name}: add last period's profit as new cash` },
+        cashIn: { label: 'Cash In', note: "Last period's profit", formula: '{0}', operands: [moneyOperand("last period's profit", inputs.previousProfit)], value: newCash },
+        cashOut: noCashOut,
+        endValue: grown('Everything invested grows')
+      };
+    case 'shield-value':
+      return {
+        rule: { label: 'Rule', note: `${name}: top up by inflation (always the inflation rate, even with inflation off)` },
+        cashIn: {
+          label: 'Cash In',
+          note: 'Start × inflation per period',
+          formula: '{0} × {1}',
+          operands: [moneyOperand('start', start), rateOperand('inflation', inputs.shieldInflation)],
+          value: newCash
+        },
+        cashOut: noCashOut,
+        endValue: grown('Everything invested grows')
+      };
+    case 'level-up':
+      return {
+        rule: { label: 'Rule', note: `${name}: add a fixed amount` },
+        cashIn: { label: 'Cash In', note: 'The fixed extra amount', formula: '{0}', operands: [moneyOperand('fixed extra amount', inputs.levelUpAmount)], value: newCash },
+        cashOut: noCashOut,
+        endValue: grown('Everything invested grows')
+      };
+    case 'pay-yourself':
+      return {
+        rule: { label: 'Rule', note: `${name}: take half of the growth home, reinvest the other half` },
+        cashIn: noCashIn,
+        cashOut: {
+          label: 'Cash Out',
+          note: "Half of this period's growth",
+          formula: '{0} × {1} ÷ 2',
+          operands: [moneyOperand('start', start), rateOperand('rate', r)],
+          value: cashOut
+        },
+        endValue: {
+          label: 'End Value',
+          note: 'Start plus the half that stays invested',
+          formula: '{0} + {0} × {1} ÷ 2',
+          operands: [moneyOperand('start', start), rateOperand('rate', r)],
+          value: endValue
+        }
+      };
+    case 'capital-protect': {
+      const excess = Math.max(0, start - inputs.principal);
+      const lost = afterGrowth - cashOut - endValue;
+      return {
+        rule: { label: 'Rule', note: `${name}: keep only the principal invested and withdraw the rest` },
+        cashIn: noCashIn,
+        cashOut: {
+          label: 'Cash Out',
+          note: 'The excess over the principal, plus the growth on the principal',
+          formula: 'max(0, {0} − {1}) + {1} × {2}',
+          operands: [moneyOperand('start', start), moneyOperand('principal', inputs.principal), rateOperand('rate', r)],
+          value: cashOut
+        },
+        endValue: {
+          label: 'End Value',
+          note: excess > 0 && Math.abs(lost) >= 0.5
+            ? 'Reset to the principal. The growth on the excess is in After Growth but in neither Cash Out nor End Value.'
+            : 'Reset to the principal',
+          formula: '{0}',
+          operands: [moneyOperand('principal', inputs.principal)],
+          value: endValue
+        }
+      };
+    }
+    case 'take-salary':
+      return {
+        rule: { label: 'Rule', note: `${name}: withdraw a fixed salary after growth` },
+        cashIn: noCashIn,
+        cashOut: {
+          label: 'Cash Out',
+          note: 'The salary, but never more than the balance',
+          formula: 'min({0}, {1} × (1 + {2}))',
+          operands: [moneyOperand('salary', inputs.salaryAmount), moneyOperand('start', start), rateOperand('rate', r)],
+          value: cashOut
+        },
+        endValue: withdrawn('What is left after the salary')
+      };
+    case 'drawdown':
+      return {
+        rule: { label: 'Rule', note: `${name}: withdraw what the withdrawal rule plans for this period` },
+        cashIn: noCashIn,
+        cashOut: {
+          label: 'Cash Out',
+          note: 'The planned withdrawal, but never more than the balance',
+          formula: 'min({0}, {1} × (1 + {2}))',
+          operands: [moneyOperand('planned withdrawal', inputs.plannedWithdrawal ?? 0), moneyOperand('start', start), rateOperand('rate', r)],
+          value: cashOut
+        },
+        endValue: withdrawn('What is left after the withdrawal')
+      };
+    case 'custom':
+      return inputs.customPerPeriodAmount >= 0
+        ? {
+            rule: { label: 'Rule', note: `${name}: invest the fixed amount solved to reach the target` },
+            cashIn: { label: 'Cash In', note: 'Solved per-period amount', formula: '{0}', operands: [moneyOperand('per period', inputs.customPerPeriodAmount)], value: newCash },
+            cashOut: noCashOut,
+            endValue: grown('Everything invested grows')
+          }
+        : {
+            rule: { label: 'Rule', note: `${name}: withdraw the fixed amount solved to reach the target` },
+            cashIn: noCashIn,
+            cashOut: {
+              label: 'Cash Out',
+              note: 'Solved per-period withdrawal, but never more than the balance',
+              formula: 'min({0}, {1} × (1 + {2}))',
+              operands: [moneyOperand('per period', -inputs.customPerPeriodAmount), moneyOperand('start', start), rateOperand('rate', r)],
+              value: cashOut
+            },
+            endValue: withdrawn('What is left after the withdrawal')
+          };
+    case 'built': {
+      const active = (inputs.rules ?? []).filter((rule) => isRuleActive(rule, inputs.period));
+      const fired = (unit: 'in' | 'out') => active
+        .filter((rule) => (unit === 'in' ? rule.kind.startsWith('add-') : !rule.kind.startsWith('add-')))
+        .map((rule) => `${RULE_KINDS[rule.kind].label} (${rule.value}${RULE_KINDS[rule.kind].unit === 'percent' ? '%' : ''})`);
+      const cashInRules = fired('in');
+      const cashOutRules = fired('out');
+      return {
+        rule: { label: 'Rule', note: active.length > 0 ? `${name}: ${active.length} of ${(inputs.rules ?? []).length} rules act this period` : `${name}: no rule acts this period` },
+        cashIn: cashInRules.length > 0
+          ? { label: 'Cash In', note: cashInRules.join('; '), value: newCash }
+          : noCashIn,
+        cashOut: cashOutRules.length > 0
+          ? { label: 'Cash Out', note: `${cashOutRules.join('; ')}, taken after growth in that order`, value: cashOut }
+          : noCashOut,
+        endValue: {
+          label: 'End Value',
+          note: 'What is left after growth and withdrawals',
+          formula: '({0} + {1}) × (1 + {2}) − {3}',
+          operands: [moneyOperand('start', start), moneyOperand('cash in', newCash), rateOperand('rate', r), moneyOperand('cash out', cashOut)],
+          value: endValue
+        }
+      };
+    }
+    default:
+      return {
+        rule: { label: 'Rule', note: `${name}: let everything compound, no cash in or out` },
+        cashIn: noCashIn,
+        cashOut: noCashOut,
+        endValue: {
+          label: 'End Value',
+          note: 'The balance grows',
+          formula: '{0} × (1 + {1})',
+          operands: [moneyOperand('start', start), rateOperand('rate', r)],
+          value: endValue
+        }
+      };
+  }
+};
+
+// A per-period rate as a percent, to four decimals without trailing zeros
+export const formatAuditRate = (rate: number): string => `${Number((rate * 100).toFixed(4))}%`;
+
+// Put the operands into the formula, e.g. '($1,100 + $0) × (1 + 10.000%)'
+export const formatAuditFormula = (step: AuditStep, formatMoney: (n: number) => string): string =>
+  (step.formula ?? '').replace(/\{(\d+)\}/g, (_, index: string) => {
+    const operand = step.operands?.[Number(index)];
+    if (!operand) return '?';
+    return operand.unit === 'rate' ? formatAuditRate(operand.value) : formatMoney(operand.value);
+  });
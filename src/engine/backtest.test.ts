@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { getAnnualReturn, runBacktest } from './backtest';
+import type { BacktestInputs } from './backtest';
+import type { HistoricalYear } from './types';
+
+const history: HistoricalYear[] = [
+  { year: 2000, stocks: 10, bonds: 5, inflation: 2 },
+  { year: 2001, stocks: -20, bonds: 8, inflation: 3 },
+  { year: 2002, stocks: 30, bonds: 2, inflation: 1 },
+  { year: 2003, stocks: 5, bonds: 4, inflation: 2 }
+];
+
+const baseInputs: BacktestInputs = {
+  investmentAmount: 1000,
+  roiPercentage: 10,
+  inflationRate: 3,
+  projectionFrequency: 'yearly',
+  projectionDuration: 2,
+  reinvestmentStrategy: 'all-in',
+  levelUpAmount: 50,
+  salaryAmount: 100,
+  customTargetAmount: 5000,
+  accumulatedValue: 1000,
+  history,
+  series: 'stocks',
+  adjustForInflation: false
+};
+
+describe('getAnnualReturn', () => {
+  it('reads each series and blends 60/40', () => {
+    expect(getAnnualReturn(history[0], 'stocks', false)).toBeCloseTo(0.1);
+    expect(getAnnualReturn(history[0], 'bonds', false)).toBeCloseTo(0.05);
+    expect(getAnnualReturn(history[0], 'balanced', false)).toBeCloseTo(0.08);
+  });
+
+  it('deflates by inflation using the Fisher relation', () => {
+    expect(getAnnualReturn(history[0], 'stocks', true)).toBeCloseTo(1.1 / 1.02 - 1);
+  });
+});
+
+describe('runBacktest', () => {
+  it('replays every rolling start year that fits the horizon', () => {
+    const { runs } = runBacktest(baseInputs);
+    expect(runs.map((r) => [r.startYear, r.endYear])).toEqual([
+      [2000, 2001],
+      [2001, 2002],
+      [2002, 2003]
+    ]);
+    expect(runs[0].finalBalance).toBe(Math.round(1000 * 1.1 * 0.8));
+    expect(runs[1].finalBalance).toBe(Math.round(1000 * 0.8 * 1.3));
+  });
+
+  it('ranks worst, median and best ending balances', () => {
+    const { worst, median, best } = runBacktest(baseInputs);
+    expect(worst?.startYear).toBe(2000);
+    expect(median?.startYear).toBe(2001);
+    expect(best?.startYear).toBe(2002);
+  });
+
+  it('spreads annual returns across sub-annual periods', () => {
+    const { runs } = runBacktest({ ...baseInputs, projectionFrequency: 'monthly', projectionDuration: 12 });
+    expect(runs).toHaveLength(4);
+    expect(runs[0].finalBalance).toBe(1100);
+  });
+
+  it('flags start years where income strategies run out of money', () => {
+    const { failedStartYears, runs } = runBacktest({
+      ...baseInputs,
+      reinvestmentStrategy: 'take-salary',
+      salaryAmount: 1100
+    });
+    expect(failedStartYears['take-salary']).toEqual([2000, 2001]);
+    expect(runs[0].depletedPeriod).toBe(2);
+    // Only the crash in 2001 forces capital-protect to dip into principal
+    expect(failedStartYears['capital-protect']).toEqual([2000]);
+  });
+
+  it('returns no runs when the horizon is longer than the dataset', () => {
+    const result = runBacktest({ ...baseInputs, projectionDuration: 10 });
+    expect(result.runs).toEqual([]);
+    expect(result.worst).toBeNull();
+  });
+});
@@ -0,0 +1,122 @@
+import { projectFuture } from './projections';
+import { getPeriodsPerYear } from './schedule';
+import type {
+  HistoricalSeries,
+  HistoricalYear,
+  ProjectionData,
+  ProjectionInputs,
+  ReinvestmentStrategy
+} from './types';
+
+export interface BacktestInputs extends ProjectionInputs {
+  history: HistoricalYear[];
+  series: HistoricalSeries;
+  adjustForInflation: boolean;  // Replay real (inflation-adjusted) instead of nominal returns
+}
+
+export interface BacktestRun {
+  startYear: number;
+  endYear: number;
+  finalBalance: number;
+  totalCashIn: number;
+  totalCashOut: number;
+  depletedPeriod: number | null;  // First period the selected strategy ran out of money
+}
+
+export interface BacktestResult {
+  runs: BacktestRun[];
+  worst: BacktestRun | null;
+  median: BacktestRun | null;
+  best: BacktestRun | null;
+  // Start years in which each income strategy ran out of money
+  failedStartYears: Record<'take-salary' | 'capital-protect', number[]>;
+}
+
+// 60/40 stocks/bonds, rebalanced every year
+const BALANCED_STOCK_WEIGHT = 0.6;
+
+export const getAnnualReturn = (
+  year: HistoricalYear,
+  series: HistoricalSeries,
+  adjustForInflation: boolean
+): number => {
+  const nominal = series === 'stocks'
+    ? year.stocks / 100
+    : series === 'bonds'
+      ? year.bonds / 100
+      : BALANCED_STOCK_WEIGHT * year.stocks / 100 + (1 - BALANCED_STOCK_WEIGHT) * year.bonds / 100;
+
+  return adjustForInflation
+    ? (1 + nominal) / (1 + year.inflation / 100) - 1
+    : nominal;
+};
+
+// 'capital-protect' pins the balance at the principal, so it fails when a bad
+// year forces a negative cash out (the principal can't be protected from profit).
+// Every other strategy fails when the balance reaches $0.
+export const findDepletionPeriod = (
+  strategy: ReinvestmentStrategy,
+  rows: ProjectionData[]
+): number | null => {
+  const failed = strategy === 'capital-protect'
+    ? rows.find((row) => row.cashOut < 0)
+    : rows.find((row) => row.endValue <= 0);
+  return failed ? failed.period : null;
+};
+
+// Replay every rolling window of the dataset through the selected strategy
+export const runBacktest = (inputs: BacktestInputs): BacktestResult => {
+  const { history, series, adjustForInflation, ...projectionInputs } = inputs;
+  const periods = projectionInputs.projectionDuration;
+  const periodsPerYear = getPeriodsPerYear(projectionInputs.projectionFrequency, projectionInputs.businessDays);
+  const yearsNeeded = Math.max(1, Math.ceil(periods / periodsPerYear));
+
+  const sorted = [...history].sort((a, b) => a.year - b.year);
+  const annualReturns = sorted.map((year) => getAnnualReturn(year, series, adjustForInflation));
+
+  const runs: BacktestRun[] = [];
+  const failedStartYears: BacktestResult['failedStartYears'] = {
+    'take-salary': [],
+    'capital-protect': []
+  };
+
+  for (let start = 0; start + yearsNeeded <= sorted.length; start++) {
+    // Spread each year's return evenly (compounded) across its periods
+    const periodRates = Array.from({ length: periods }, (_, i) => {
+      const annual = annualReturns[start + Math.floor(i / periodsPerYear)];
+      return Math.pow(1 + annual, 1 / periodsPerYear) - 1;
+    });
+
+    const runStrategy = (reinvestmentStrategy: ReinvestmentStrategy) =>
+      projectFuture({ ...projectionInputs, reinvestmentStrategy, periodRates });
+
+    const rows = runStrategy(projectionInputs.reinvestmentStrategy);
+    const startYear = sorted[start].year;
+
+    runs.push({
+      startYear,
+      endYear: sorted[start + yearsNeeded - 1].year,
+      finalBalance: rows[rows.length - 1]?.endValue ?? 0,
+      totalCashIn: rows.reduce((sum, row) => sum + row.newCash, 0),
+      totalCashOut: rows.reduce((sum, row) => sum + row.cashOut, 0),
+      depletedPeriod: findDepletionPeriod(projectionInputs.reinvestmentStrategy, rows)
+    });
+
+    for (const strategy of ['take-salary', 'capital-protect'] as const) {
+      const strategyRows = strategy === projectionInputs.reinvestmentStrategy ? rows : runStrategy(strategy);
+      if (findDepletionPeriod(strategy, strategyRows) !== null) {
+        failedStartYears[strategy].push(startYear);
+      }
+    }
+  }
+
+  const ranked = [...runs].sort((a, b) => a.finalBalance - b.finalBalance);
+
+  return {
+    runs,
+    worst: ranked[0] ?? null,
+    median: ranked[Math.floor((ranked.length - 1) / 2)] ?? null,
+    best: ranked[ranked.length - 1] ?? null,
+    failedStartYears
+  };
+};
@@ -0,0 +1,213 @@
+import { describe, expect, it } from 'vitest';
+import { calculateGrowth } from './calculations';
+import type { CalculationInputs } from './types';
+
+const baseInputs: CalculationInputs = {
+  investmentAmount: 1000,
+  roiPercentage: 12,
+  duration: 12,
+  frequency: 'monthly',
+  startDate: '2026-01-01',
+  showTotal: true,
+  enableInflation: false,
+  inflationRate: 3
+};
+
+describe('calculateGrowth', () => {
+  it('compounds a one-off investment like recurring contributions', () => {
+    const data = calculateGrowth({ ...baseInputs, frequency: 'once' });
+    expect(data).toHaveLength(13);
+    expect(data[0]).toMatchObject({ period: 0, totalInvested: 1000, currentValue: 1000, profit: 0 });
+    expect(data[6].currentValue).toBe(Math.round(1000 * Math.pow(1.01, 6)));
+    expect(data[12]).toMatchObject({ totalInvested: 1000, currentValue: 1127, profit: 127 });
+  });
+
+  it('uses the selected compounding convention', () => {
+    const once = (compounding: CalculationInputs['compounding']) =>
+      calculateGrowth({ ...baseInputs, frequency: 'once', compounding })[12].currentValue;
+    expect(once('annual')).toBe(1120);
+    expect(once('daily')).toBe(Math.round(1000 * Math.pow(1 + 0.12 / 365, 365)));
+    expect(once('continuous')).toBe(Math.round(1000 * Math.exp(0.12)));
+
+    // Weekly contributions still grow at the same effective annual rate
+    const weekly = calculateGrowth({ ...baseInputs, frequency: 'weekly', compounding: 'annual' });
+    let expected = 0;
+    for (let i = 0; i < 52; i++) expected = (expected + 1000) * Math.pow(1.12, 1 / 52);
+    expect(weekly[52].currentValue).toBe(Math.round(expected));
+  });
+
+  it('compounds monthly contributions at the start of each period', () => {
+    const data = calculateGrowth(baseInputs);
+    const rate = 0.01;
+    let expected = 0;
+    for (let i = 0; i < 12; i++) expected = (expected + 1000) * (1 + rate);
+
+    expect(data).toHaveLength(13);
+    expect(data[0]).toMatchObject({ totalInvested: 0, currentValue: 0 });
+    expect(data[12].totalInvested).toBe(12000);
+    expect(data[12].currentValue).toBe(Math.round(expected));
+  });
+
+  it('derives the period count from the duration in months', () => {
+    expect(calculateGrowth({ ...baseInputs, frequency: 'weekly' })).toHaveLength(53);
+    expect(calculateGrowth({ ...baseInputs, frequency: 'daily' })).toHaveLength(366);
+    expect(calculateGrowth({ ...baseInputs, frequency: 'weekly', duration: 6 })).toHaveLength(27);
+    expect(calculateGrowth({ ...baseInputs, frequency: 'daily', businessDays: true })).toHaveLength(261);
+  });
+
+  it('labels daily and weekly rows with the day', () => {
+    const daily = calculateGrowth({ ...baseInputs, frequency: 'daily' });
+    expect(daily.slice(0, 3).map((row) => row.date)).toEqual(['Jan 1, 2026', 'Jan 2, 2026', 'Jan 3, 2026']);
+    const businessDays = calculateGrowth({ ...baseInputs, frequency: 'daily', businessDays: true });
+    expect(businessDays.slice(1, 3).map((row) => row.date)).toEqual(['Jan 2, 2026', 'Jan 5, 2026']);
+    expect(calculateGrowth(baseInputs)[1].date).toBe('Feb 2026');
+  });
+
+  it('keeps values nominal and adds a Fisher deflator when inflation is on', () => {
+    const nominal = calculateGrowth(baseInputs);
+    const data = calculateGrowth({ ...baseInputs, enableInflation: true });
+    expect(data[12].currentValue).toBe(nominal[12].currentValue);
+    expect(data[0].deflator).toBe(1);
+    expect(data[6].deflator).toBeCloseTo(1 / Math.sqrt(1.03), 12);
+    expect(data[12].deflator).toBeCloseTo(1 / 1.03, 12);
+    expect(nominal[12].deflator).toBeUndefined();
+  });
+
+  it('switches the display series between total value and profit', () => {
+    const total = calculateGrowth(baseInputs);
+    const profitOnly = calculateGrowth({ ...baseInputs, showTotal: false });
+    expect(total[12].displayValue).toBe(total[12].currentValue);
+    expect(profitOnly[12].displayValue).toBe(profitOnly[12].profit);
+  });
+});
+
+describe('calculateGrowth with a contribution schedule', () => {
+  it('replaces the uniform contribution with dated cash flows', () => {
+    const data = calculateGrowth({
+      ...baseInputs,
+      contributions: [
+        { date: '2026-01-01', amount: 1000 },
+        { date: '2026-03-10', amount: 500 },
+        { date: '2026-06-01', amount: -200 },
+        { date: '2025-12-31', amount: 9999 },
+        { date: '2030-01-01', amount: 9999 }
+      ]
+    });
+
+    let expected = 1000 * 1.01;           // Month 1
+    expected = expected * 1.01;           // Month 2
+    expected = (expected + 500) * 1.01;   // Month 3 (Mar 1 – Apr 1)
+    expected = expected * 1.01 * 1.01;    // Months 4–5
+    expected = (expected - 200) * 1.01;   // Month 6 (Jun 1 – Jul 1)
+    for (let i = 6; i < 12; i++) expected *= 1.01;
+
+    expect(data).toHaveLength(13);
+    expect(data[12].totalInvested).toBe(1300);
+    expect(data[12].currentValue).toBe(Math.round(expected));
+  });
+
+  it('never withdraws more than the balance', () => {
+    const data = calculateGrowth({
+      ...baseInputs,
+      contributions: [
+        { date: '2026-01-01', amount: 100 },
+        { date: '2026-02-01', amount: -5000 }
+      ]
+    });
+    expect(data[2].currentValue).toBe(0);
+  });
+
+  it('tracks a one-off investment month by month when a schedule is given', () => {
+    const data = calculateGrowth({
+      ...baseInputs,
+      frequency: 'once',
+      contributions: [{ date: '2026-01-01', amount: 1000 }]
+    });
+    expect(data).toHaveLength(13);
+    expect(data[12].currentValue).toBe(Math.round(1000 * Math.pow(1.01, 12)));
+  });
+});
+
+describe('calculateGrowth with a cash-flow timeline', () => {
+  it('adds one-off deposits and withdrawals to the regular contribution', () => {
+    const data = calculateGrowth({
+      ...baseInputs,
+      events: [
+        { id: 'a', kind: 'one-off', label: 'Bonus', date: '2026-03-01', amount: 5000 },
+        { id: 'b', kind: 'one-off', label: 'Car', date: '2026-07-10', amount: -2000 }
+      ]
+    });
+
+    let expected = 0;
+    for (let i = 1; i <= 12; i++) {
+      const extra = i === 3 ? 5000 : i === 7 ? -2000 : 0;
+      expected = (expected + 1000 + extra) * 1.01;
+    }
+
+    expect(data[12].totalInvested).toBe(15000);
+    expect(data[12].currentValue).toBe(Math.round(expected));
+    expect(data[3].events).toEqual(['Bonus']);
+    expect(data[7].events).toEqual(['Car']);
+    expect(data[4].events).toBeUndefined();
+  });
+
+  it('pauses and steps up the regular contribution', () => {
+    const paused = calculateGrowth({
+      ...baseInputs,
+      events: [{ id: 'p', kind: 'pause', label: 'Leave', date: '2026-04-01', endDate: '2026-06-30', amount: 0 }]
+    });
+    expect(paused[12].totalInvested).toBe(9000);
+
+    const raised = calculateGrowth({
+      ...baseInputs,
+      duration: 24,
+      events: [{ id: 's', kind: 'step-up', label: 'Raise', date: '2026-01-01', amount: 10 }]
+    });
+    expect(raised[24].totalInvested).toBe(12000 + 12 * 1100);
+  });
+
+  it('tracks a one-off investment month by month when events are given', () => {
+    const data = calculateGrowth({
+      ...baseInputs,
+      frequency: 'once',
+      events: [{ id: 'a', kind: 'one-off', label: 'Top-up', date: '2026-07-01', amount: 1000 }]
+    });
+    expect(data).toHaveLength(13);
+    expect(data[12].totalInvested).toBe(2000);
+    expect(data[12].currentValue).toBe(Math.round(1000 * Math.pow(1.01, 12) + 1000 * Math.pow(1.01, 6)));
+  });
+});
+
+describe('calculateGrowth with fees', () => {
+  const fees = { annualFee: 1.2, contributionFee: 10, withdrawalFee: 0 };
+
+  it('charges the contribution fee and the annual fee every period', () => {
+    const data = calculateGrowth({ ...baseInputs, fees });
+    let expected = 0;
+    let paid = 0;
+    for (let i = 0; i < 12; i++) {
+      const gross = (expected + 990) * 1.01;
+      paid += 10 + gross * 0.001;
+      expected = gross * 0.999;
+    }
+    expect(data[12].totalInvested).toBe(12000);
+    expect(data[12].currentValue).toBe(Math.round(expected));
+    expect(data[12].feesPaid).toBe(Math.round(paid));
+  });
+
+  it('reports fee drag as the gap to the same plan without fees', () => {
+    const withFees = calculateGrowth({ ...baseInputs, fees });
+    const without = calculateGrowth(baseInputs);
+    // Each side is rounded separately
+    expect(Math.abs((withFees[12].feeDrag ?? 0) - (without[12].currentValue - withFees[12].currentValue))).toBeLessThanOrEqual(1);
+    expect(withFees[12].feeDrag).toBeGreaterThan(withFees[12].feesPaid ?? 0);
+    expect(without[12].feesPaid).toBeUndefined();
+  });
+
+  it('applies fees to a one-off investment', () => {
+    const data = calculateGrowth({ ...baseInputs, frequency: 'once', fees });
+    expect(data[0].currentValue).toBe(990);
+    expect(data[12].currentValue).toBe(Math.round(990 * Math.pow(1.01 * 0.999, 12)));
+    expect(Math.abs((data[12].feeDrag ?? 0) - (1127 - data[12].currentValue))).toBeLessThanOrEqual(1);
+  });
+});
@@ -0,0 +1,149 @@
+import { resolveEvents } from './events';
+import { getContributionFee, getWithdrawalFee, hasFees } from './fees';
+import { getAllocation, getGlidePathReturn, hasGlidePath } from './glidePath';
+import { createPortfolioTracker, hasPortfolio, splitByWeights } from './portfolio';
+import { DEFAULT_COMPOUNDING, getDeflator, getPeriodRate } from './rates';
+import { formatPeriodDate, getPeriodsPerYear, getScheduleDates } from './schedule';
+import type { CalculationData, CalculationInputs, Contribution, ProjectionFrequency } from './types';
+
+// Sum the scheduled cash flows into the period whose window [date(i-1), date(i)) they fall in.
+// Index 0 holds nothing; flows before the start or after the horizon are dropped.
+export const bucketContributions = (
+  contributions: Contribution[],
+  start: Date,
+  frequency: ProjectionFrequency,
+  totalPeriods: number,
+  businessDays = false
+): number[] => {
+  const buckets = new Array<number>(totalPeriods + 1).fill(0);
+  const boundaries = getScheduleDates(start, frequency, totalPeriods, businessDays);
+
+  for (const { date, amount } of contributions) {
+    const time = new Date(date).getTime();
+    const period = boundaries.findIndex((boundary) => boundary > time);
+    if (period > 0) buckets[period] += amount;
+  }
+
+  return buckets;
+};
+
+// Accumulation phase: invest `investmentAmount` once or every period and track growth.
+// Every path compounds at the same effective annual rate, so a one-off investment and
+// recurring contributions agree. Values are nominal; with inflation on, each row also
+// carries the Fisher deflator for its date.
+export const calculateGrowth = ({
+  investmentAmount,
+  roiPercentage,
+  duration,
+  frequency,
+  startDate,
+  showTotal,
+  enableInflation,
+  inflationRate,
+  compounding = DEFAULT_COMPOUNDING,
+  contributions,
+  events,
+  fees,
+  portfolio,
+  glidePath,
+  businessDays = false
+}: CalculationInputs): CalculationData[] => {
+  const data: CalculationData[] = [];
+  let totalInvested = 0;
+  let currentValue = 0;
+  let feesPaid = 0;
+  let feeDrag = 0;
+  const fee = hasFees(fees) ? fees : null;
+
+  const start = new Date(startDate);
+
+  // A one-off investment is tracked month by month; daily investing can skip weekends
+  const gridFrequency: ProjectionFrequency = frequency === 'once' ? 'monthly' : frequency;
+  const periodsPerYear = getPeriodsPerYear(gridFrequency, businessDays);
+  const totalPeriods = Math.floor((duration / 12) * periodsPerYear);
+  const ratePerPeriod = getPeriodRate(roiPercentage, compounding, periodsPerYear);
+  const boundaries = getScheduleDates(start, gridFrequency, totalPeriods, businessDays);
+  const scheduled = contributions?.length
+    ? bucketContributions(contributions, start, gridFrequency, totalPeriods, businessDays)
+    : null;
+  const effects = events?.length ? resolveEvents(events, boundaries) : null;
+  // With a portfolio, each asset compounds at its own rate and the period rate is their blend
+  const activePortfolio = hasPortfolio(portfolio) ? portfolio : null;
+  const tracker = activePortfolio
+    ? createPortfolioTracker(
+        activePortfolio,
+        activePortfolio.assets.map((asset) => getPeriodRate(asset.roi, compounding, periodsPerYear)),
+        periodsPerYear
+      )
+    : null;
+  // Without one, a glide path sets the return for each year of the investor's age
+  const glide = !activePortfolio && hasGlidePath(glidePath) ? glidePath : null;
+
+  // Without a schedule, a one-off investment is in the account from day one
+  const initialInvestment = frequency === 'once' && !scheduled ? investmentAmount : 0;
+  if (initialInvestment > 0) {
+    const contributionFee = fee ? getContributionFee(fee, initialInvestment) : 0;
+    totalInvested = initialInvestment;
+    currentValue = initialInvestment - contributionFee;
+    feesPaid = contributionFee;
+    feeDrag = contributionFee;
+  }
+
+  for (let i = 0; i <= totalPeriods; i++) {
+    const effect = effects?.[i - 1];
+    // The opening balance starts at the target weights
+    let assetValues = activePortfolio && i === 0 ? splitByWeights(activePortfolio.assets, currentValue).map(Math.round) : undefined;
+
+    if (i > 0) {
+      // Step-ups and pauses only scale the uniform contribution, not a dated schedule
+      const regular = scheduled
+        ? scheduled[i]
+        : frequency === 'once'
+          ? 0
+          : investmentAmount * (effect?.contributionFactor ?? 1);
+      // Withdrawals can't take out more than the current balance
+      const cashFlow = Math.max(regular + (effect?.cashFlow ?? 0), -currentValue);
+      totalInvested += cashFlow;
+
+      const contributionFee = fee ? getContributionFee(fee, cashFlow) : 0;
+      const rate = tracker
+        ? tracker.rate(currentValue, cashFlow - contributionFee)
+        : glide
+          ? getPeriodRate(getGlidePathReturn(glide, (i - 1) / periodsPerYear), compounding, periodsPerYear)
+          : ratePerPeriod;
+
+      if (fee) {
+        // Withdrawal fees come out of the cash you receive, the others out of the balance.
+        // Fee drag compounds every fee at the gross rate, as if it had stayed invested.
+        const withdrawalFee = getWithdrawalFee(fee, -cashFlow);
+        const grossValue = (currentValue + cashFlow - contributionFee) * (1 + rate);
+        const managementFee = grossValue * fee.annualFee / 100 / periodsPerYear;
+        currentValue = grossValue - managementFee;
+        feesPaid += contributionFee + managementFee + withdrawalFee;
+        feeDrag = (feeDrag + contributionFee) * (1 + rate) + managementFee + withdrawalFee;
+      } else {
+        currentValue = (currentValue + cashFlow) * (1 + rate);
+      }
+
+      if (tracker) assetValues = tracker.settle(cashFlow - contributionFee, currentValue, i);
+    }
+
+    const profit = currentValue - totalInvested;
+
+    data.push({
+      period: i,
+      date: formatPeriodDate(boundaries[i], gridFrequency),
+      totalInvested: Math.round(totalInvested),
+      currentValue: Math.round(currentValue),
+      profit: Math.round(profit),
+      displayValue: showTotal ? Math.round(currentValue) : Math.round(profit),
+      ...(effect && effect.labels.length > 0 ? { events: effect.labels } : {}),
+      ...(fee ? { feesPaid: Math.round(feesPaid), feeDrag: Math.round(feeDrag) } : {}),
+      ...(enableInflation ? { deflator: getDeflator(inflationRate, i / periodsPerYear) } : {}),
+      ...(assetValues ? { assetValues } : {}),
+      ...(glide ? { allocation: getAllocation(glide, Math.max(0, i - 1) / periodsPerYear) } : {})
+    });
+  }
+
+  return data;
+};
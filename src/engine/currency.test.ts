@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { createMoneyFormatter, getBundledRate, getFxRate } from './currency';
+import { FX_PER_USD } from '../data/fxRates';
+
+describe('getFxRate', () => {
+  it('is 1 when figures stay in the scenario currency', () => {
+    expect(getFxRate({ code: 'EUR', display: 'EUR', locale: 'de-DE', rate: 3 })).toBe(1);
+  });
+
+  it('crosses the bundled rates through the dollar', () => {
+    expect(getBundledRate('USD', 'BDT')).toBe(FX_PER_USD.BDT);
+    expect(getFxRate({ code: 'GBP', display: 'EUR', locale: 'de-DE', rate: 0 })).toBeCloseTo(FX_PER_USD.EUR / FX_PER_USD.GBP, 12);
+  });
+
+  it('prefers a rate entered by the user', () => {
+    expect(getFxRate({ code: 'USD', display: 'BDT', locale: 'en-IN', rate: 122 })).toBe(122);
+  });
+});
+
+describe('createMoneyFormatter', () => {
+  it('formats whole dollars by default', () => {
+    const money = createMoneyFormatter();
+    expect(money.format(1234.6)).toBe('$1,235');
+    expect(money.signed(250)).toBe('+$250');
+    expect(money.signed(-250)).toBe('-$250');
+    expect(money.compact(12345)).toBe('$12.3K');
+    expect(money.inputSymbol).toBe('$');
+  });
+
+  it('groups by lakh and crore', () => {
+    const money = createMoneyFormatter({ code: 'BDT', display: 'BDT', locale: 'en-IN', rate: 0 });
+    expect(money.format(12345678)).toBe('৳1,23,45,678');
+    expect(money.compact(12345678)).toBe('৳1.2Cr');
+  });
+
+  it('converts into the display currency', () => {
+    const money = createMoneyFormatter({ code: 'USD', display: 'EUR', locale: 'en-US', rate: 0.5 });
+    expect(money.format(1000)).toBe('€500');
+    expect(money.inputSymbol).toBe('$');
+  });
+});
@@ -0,0 +1,69 @@
+import { FX_PER_USD } from '../data/fxRates';
+import type { CurrencyCode, CurrencySettings } from './types';
+
+export const CURRENCIES: Record<CurrencyCode, { name: string; locale: string }> = {
+  USD: { name: 'US Dollar', locale: 'en-US' },
+  EUR: { name: 'Euro', locale: 'de-DE' },
+  GBP: { name: 'British Pound', locale: 'en-GB' },
+  BDT: { name: 'Bangladeshi Taka', locale: 'en-IN' },
+  INR: { name: 'Indian Rupee', locale: 'en-IN' },
+  JPY: { name: 'Japanese Yen', locale: 'ja-JP' }
+};
+
+// Digit grouping styles, keyed by the locale that produces them
+export const NUMBER_LOCALES: Record<string, string> = {
+  'en-US': '1,234,567',
+  'en-IN': '12,34,567 (lakh / crore)',
+  'de-DE': '1.234.567',
+  'fr-FR': '1 234 567',
+  'en-GB': '1,234,567 (UK)',
+  'ja-JP': '1,234,567 (Japan)'
+};
+
+export const DEFAULT_CURRENCY: CurrencySettings = { code: 'USD', display: 'USD', locale: 'en-US', rate: 0 };
+
+// Units of `to` per unit of `from`, from the bundled table (quoted against the dollar)
+export const getBundledRate = (from: CurrencyCode, to: CurrencyCode): number => FX_PER_USD[to] / FX_PER_USD[from];
+
+// A rate entered by the user wins over the bundled one
+export const getFxRate = (settings: CurrencySettings): number => {
+  if (settings.display === settings.code) return 1;
+  return settings.rate > 0 ? settings.rate : getBundledRate(settings.code, settings.display);
+};
+
+export interface MoneyFormatter {
+  code: CurrencyCode;   // What figures are shown in
+  rate: number;         // Shown amount per unit of the scenario currency
+  inputSymbol: string;  // Symbol of the scenario currency, which inputs are entered in
+  format: (amount: number) => string;   // Converted, in whole units
+  signed: (amount: number) => string;   // Same, with a + on gains
+  compact: (amount: number) => string;  // Short form for chart axes (12K, 1.2L, 3.4 Mio.)
+}
+
+const getSymbol = (code: CurrencyCode, locale: string) =>
+  new Intl.NumberFormat(locale, { style: 'currency', currency: code, currencyDisplay: 'narrowSymbol' })
+    .formatToParts(0)
+    .find((part) => part.type === 'currency')?.value ?? code;
+
+// Every figure in the app is computed in the scenario currency and only converted here
+export const createMoneyFormatter = (settings: CurrencySettings = DEFAULT_CURRENCY): MoneyFormatter => {
+  const rate = getFxRate(settings);
+  const options = {
+    style: 'currency',
+    currency: settings.display,
+    currencyDisplay: 'narrowSymbol',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0
+  } as const;
+  const whole = new Intl.NumberFormat(settings.locale, options);
+  const withSign = new Intl.NumberFormat(settings.locale, { ...options, signDisplay: 'exceptZero' });
+  const short = new Intl.NumberFormat(settings.locale, { ...options, notation: 'compact', maximumFractionDigits: 1 });
+  return {
+    code: settings.display,
+    rate,
+    inputSymbol: getSymbol(settings.code, settings.locale),
+    format: (amount) => whole.format(amount * rate),
+    signed: (amount) => withSign.format(amount * rate),
+    compact: (amount) => short.format(amount * rate)
+  };
+};
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { amortize, compareDebtVsInvest, findBreakevenReturn, getMonthlyPayment } from './debt';
+import { DEFAULT_SCENARIO } from './scenario';
+import type { LoanSettings } from './debt';
+
+const loan: LoanSettings = { principal: 20000, apr: 6, termMonths: 60, extraPayment: 200 };
+
+describe('amortize', () => {
+  it('pays a loan off over its term with the scheduled payment', () => {
+    expect(getMonthlyPayment(20000, 6, 60)).toBeCloseTo(386.66, 2);
+    const rows = amortize(loan, 0);
+    expect(rows).toHaveLength(60);
+    expect(rows[0].interest).toBeCloseTo(100);
+    expect(rows[59].balance).toBe(0);
+    expect(rows.reduce((sum, row) => sum + row.interest, 0)).toBeCloseTo(3199.36, 1);
+  });
+
+  it('clears the loan sooner with extra payments and caps the last one', () => {
+    const rows = amortize(loan);
+    expect(rows.length).toBeLessThan(60);
+    const last = rows[rows.length - 1];
+    expect(last.balance).toBe(0);
+    expect(last.payment).toBeLessThanOrEqual(586.66);
+  });
+
+  it('splits the payment evenly without interest', () => {
+    expect(getMonthlyPayment(1200, 0, 12)).toBe(100);
+  });
+});
+
+describe('compareDebtVsInvest', () => {
+  it('starts both paths at minus the principal and follows the loan term with the projections', () => {
+    const result = compareDebtVsInvest(loan, DEFAULT_SCENARIO);
+    expect(result.netWorth[0]).toEqual({ label: 'Jan 2026', prepay: -20000, invest: -20000 });
+    expect(result.netWorth).toHaveLength(61 + DEFAULT_SCENARIO.projectionDuration);
+    expect(result.payoffMonth).toBe(result.schedule.length);
+    expect(result.interestSaved).toBeGreaterThan(0);
+  });
+
+  it('favours investing when the return beats the loan rate, and prepaying when it does not', () => {
+    const atEndOfTerm = (roiPercentage: number) => compareDebtVsInvest(loan, { ...DEFAULT_SCENARIO, roiPercentage }).netWorth[60];
+    const high = atEndOfTerm(12);
+    expect(high.invest).toBeGreaterThan(high.prepay);
+    const low = atEndOfTerm(2);
+    expect(low.prepay).toBeGreaterThan(low.invest);
+  });
+
+  it('keeps adding the original amount, not the ending balance, under Repeat after the term', () => {
+    const scenario = { ...DEFAULT_SCENARIO, reinvestmentStrategy: 'repeat' as const, roiPercentage: 0 };
+    const { netWorth } = compareDebtVsInvest(loan, scenario);
+    expect(netWorth[62].prepay - netWorth[61].prepay).toBe(scenario.investmentAmount);
+    expect(netWorth[62].invest - netWorth[61].invest).toBe(scenario.investmentAmount);
+  });
+});
+
+describe('findBreakevenReturn', () => {
+  it('matches the loan rate when both compound monthly', () => {
+    expect(findBreakevenReturn(loan, DEFAULT_SCENARIO)).toBeCloseTo(6, 1);
+  });
+
+  it('is null without spare cash to compare', () => {
+    expect(findBreakevenReturn({ ...loan, extraPayment: 0 }, DEFAULT_SCENARIO)).toBeNull();
+  });
+});
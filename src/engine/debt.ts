@@ -0,0 +1,172 @@
+import { calculateGrowth } from './calculations';
+import { getProjectionBoundaries } from './events';
+import { projectFuture } from './projections';
+import { addDays, addMonths, formatPeriodDate, toISODate } from './schedule';
+import { getProjectionInputs } from './summary';
+import type { Contribution, Scenario } from './types';
+
+export interface LoanSettings {
+  principal: number;
+  apr: number;           // Annual percentage rate (%), compounded monthly
+  termMonths: number;
+  extraPayment: number;  // Spare cash each month: prepaid, or invested instead
+}
+
+export interface AmortizationRow {
+  month: number;
+  payment: number;    // Scheduled payment plus any extra, capped at what's owed
+  interest: number;
+  principal: number;
+  balance: number;
+}
+
+// One point of the net-worth chart: investments minus the loan balance on each path
+export interface NetWorthPoint {
+  label: string;
+  prepay: number;
+  invest: number;
+}
+
+export interface DebtComparison {
+  monthlyPayment: number;
+  schedule: AmortizationRow[];      // Paying the extra into the loan
+  baseSchedule: AmortizationRow[];  // Scheduled payments only
+  payoffMonth: number;              // Month the prepaid loan is cleared
+  interestSaved: number;
+  netWorth: NetWorthPoint[];        // Monthly over the loan term, then per projection period
+  breakevenReturn: number | null;   // Annual return (%) at which both paths end the term level
+}
+
+export const getMonthlyPayment = (principal: number, apr: number, termMonths: number): number => {
+  if (termMonths <= 0) return principal;
+  const rate = apr / 100 / 12;
+  if (rate === 0) return principal / termMonths;
+  return principal * rate / (1 - Math.pow(1 + rate, -termMonths));
+};
+
+export const amortize = (loan: LoanSettings, extraPayment = loan.extraPayment): AmortizationRow[] => {
+  const rate = loan.apr / 100 / 12;
+  const scheduled = getMonthlyPayment(loan.principal, loan.apr, loan.termMonths);
+  const rows: AmortizationRow[] = [];
+  let balance = loan.principal;
+
+  for (let month = 1; month <= loan.termMonths && balance > 0.005; month++) {
+    const interest = balance * rate;
+    const payment = Math.min(scheduled + extraPayment, balance + interest);
+    balance = Math.max(0, balance + interest - payment);
+    rows.push({ month, payment, interest, principal: payment - interest, balance });
+  }
+
+  return rows;
+};
+
+// Grow a list of monthly deposits with the scenario's return settings. Each deposit is
+// dated mid-month, well inside its period.
+const investMonthly = (scenario: Scenario, deposits: number[]) => {
+  const start = new Date(scenario.startDate);
+  const contributions: Contribution[] = deposits
+    .map((amount, i) => {
+      return { date: toISODate(addDays(addMonths(start, i), 14)), amount };
+    })
+    .filter((contribution) => contribution.amount > 0);
+  return calculateGrowth({
+    ...scenario,
+    frequency: 'monthly',
+    duration: deposits.length,
+    showTotal: true,
+    enableInflation: false,
+    contributions,
+    events: []
+  });
+};
+
+// Both paths spend the same cash each month (the scheduled payment plus the extra).
+// Prepaying clears the loan sooner and then invests the whole amount; investing keeps
+// the original schedule and invests the extra from day one.
+const getDeposits = (loan: LoanSettings, schedule: AmortizationRow[], baseSchedule: AmortizationRow[]) => {
+  const budget = getMonthlyPayment(loan.principal, loan.apr, loan.termMonths) + loan.extraPayment;
+  const months = Array.from({ length: loan.termMonths }, (_, i) => i);
+  return {
+    prepay: months.map((i) => budget - (schedule[i]?.payment ?? 0)),
+    invest: months.map((i) => budget - (baseSchedule[i]?.payment ?? 0))
+  };
+};
+
+export const compareDebtVsInvest = (loan: LoanSettings, scenario: Scenario): DebtComparison => {
+  const schedule = amortize(loan);
+  const baseSchedule = amortize(loan, 0);
+  const deposits = getDeposits(loan, schedule, baseSchedule);
+  const balanceAt = (rows: AmortizationRow[], month: number) =>
+    month === 0 ? loan.principal : rows[month - 1]?.balance ?? 0;
+
+  const prepayGrowth = investMonthly(scenario, deposits.prepay);
+  const investGrowth = investMonthly(scenario, deposits.invest);
+
+  const netWorth: NetWorthPoint[] = prepayGrowth.map((row, month) => ({
+    label: row.date,
+    prepay: Math.round(row.currentValue - balanceAt(schedule, month)),
+    invest: Math.round(investGrowth[month].currentValue - balanceAt(baseSchedule, month))
+  }));
+
+  // After the term both paths are debt-free; carry each on with the selected strategy
+  const carryOn = (growth: typeof prepayGrowth) => {
+    const final = growth[growth.length - 1];
+    return projectFuture(getProjectionInputs(
+      { ...scenario, duration: loan.termMonths, events: [], continueFromAccumulation: true },
+      final?.currentValue ?? 0,
+      final?.totalInvested ?? 0
+    ));
+  };
+  const prepayAfter = carryOn(prepayGrowth);
+  const investAfter = carryOn(investGrowth);
+  const boundaries = getProjectionBoundaries(
+    scenario.startDate, loan.termMonths, scenario.projectionFrequency, prepayAfter.length, scenario.businessDays
+  );
+  prepayAfter.forEach((row, i) => {
+    netWorth.push({ label: formatPeriodDate(boundaries[i + 1], 'monthly'), prepay: row.endValue, invest: investAfter[i].endValue });
+  });
+
+  return {
+    monthlyPayment: getMonthlyPayment(loan.principal, loan.apr, loan.termMonths),
+    schedule,
+    baseSchedule,
+    payoffMonth: schedule.length,
+    interestSaved: baseSchedule.reduce((sum, row) => sum + row.interest, 0) - schedule.reduce((sum, row) => sum + row.interest, 0),
+    netWorth,
+    breakevenReturn: findBreakevenReturn(loan, scenario)
+  };
+};
+
+// The investment return at which investing the extra ends the loan term with the same
+// net worth as prepaying. Below it prepaying wins, above it investing does.
+export const findBreakevenReturn = (loan: LoanSettings, scenario: Scenario): number | null => {
+  if (loan.extraPayment <= 0 || loan.termMonths <= 0) return null;
+  const schedule = amortize(loan);
+  const baseSchedule = amortize(loan, 0);
+  const deposits = getDeposits(loan, schedule, baseSchedule);
+  const endBalance = (rows: AmortizationRow[]) => rows[loan.termMonths - 1]?.balance ?? 0;
+
+  // Positive when investing comes out ahead. A single ROI stands in for any portfolio or glide path.
+  const advantage = (roiPercentage: number) => {
+    const flat: Scenario = {
+      ...scenario,
+      roiPercentage,
+      portfolio: { ...scenario.portfolio, enabled: false },
+      glidePath: { ...scenario.glidePath, enabled: false }
+    };
+    const invest = investMonthly(flat, deposits.invest);
+    const prepay = investMonthly(flat, deposits.prepay);
+    return (invest[invest.length - 1].currentValue - endBalance(baseSchedule)) -
+      (prepay[prepay.length - 1].currentValue - endBalance(schedule));
+  };
+
+  let low = -99;
+  let high = 100;
+  if (advantage(low) > 0 || advantage(high) < 0) return null;
+  for (let i = 0; i < 60 && high - low > 0.001; i++) {
+    const mid = (low + high) / 2;
+    if (advantage(mid) < 0) low = mid;
+    else high = mid;
+  }
+  return Number(((low + high) / 2).toFixed(2));
+};
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { createMoneyFormatter } from './currency';
+import { DEFAULT_DRAWDOWN, describeDrawdown, planWithdrawal } from './drawdown';
+import type { DrawdownSettings } from './types';
+
+const guardrails: DrawdownSettings = { ...DEFAULT_DRAWDOWN, rule: 'guardrails' };
+// A 4% starting rate: $4,000 from $100,000
+const started = { withdrawal: 4000, initialRate: 0.04 };
+
+describe('planWithdrawal', () => {
+  it('starts at the salary amount and remembers the starting rate', () => {
+    expect(planWithdrawal(guardrails, { withdrawal: 0, initialRate: 0 }, 100000, 105000, 4000, 0.03, 1)).toEqual({
+      withdrawal: 4000,
+      state: { withdrawal: 4000, initialRate: 0.04 }
+    });
+  });
+
+  it('raises the withdrawal with inflation inside the band', () => {
+    expect(planWithdrawal(guardrails, started, 100000, 105000, 4000, 0.03, 1).withdrawal).toBeCloseTo(4120);
+  });
+
+  it('cuts spending when the rate drifts above the band', () => {
+    // 4120 / 80000 = 5.15%, above 4% * 1.2
+    expect(planWithdrawal(guardrails, started, 80000, 84000, 4000, 0.03, 1).withdrawal).toBeCloseTo(4120 * 0.9);
+  });
+
+  it('raises spending when the rate drifts below the band', () => {
+    // 4120 / 150000 = 2.75%, below 4% * 0.8
+    expect(planWithdrawal(guardrails, started, 150000, 160000, 4000, 0.03, 1).withdrawal).toBeCloseTo(4120 * 1.1);
+  });
+
+  it('ignores the band under the inflation-indexed rule', () => {
+    expect(planWithdrawal(DEFAULT_DRAWDOWN, started, 80000, 84000, 4000, 0.03, 1).withdrawal).toBeCloseTo(4120);
+  });
+
+  it('takes a per-period share of the balance after growth under the percent rule', () => {
+    const percent: DrawdownSettings = { ...DEFAULT_DRAWDOWN, rule: 'percent-of-portfolio', withdrawalRate: 6 };
+    expect(planWithdrawal(percent, started, 100000, 120000, 4000, 0.03, 12).withdrawal).toBeCloseTo(600);
+  });
+});
+
+describe('describeDrawdown', () => {
+  it('names the amounts for each rule', () => {
+    const format = createMoneyFormatter().format;
+    expect(describeDrawdown(DEFAULT_DRAWDOWN, 4000, format)).toContain('$4,000');
+    expect(describeDrawdown({ ...DEFAULT_DRAWDOWN, rule: 'percent-of-portfolio' }, 4000, format)).toContain('4%');
+    expect(describeDrawdown(guardrails, 4000, format)).toContain('cut 10%');
+  });
+
+  it('shows the salary in the display currency', () => {
+    const money = createMoneyFormatter({ code: 'BDT', display: 'BDT', locale: 'en-IN', rate: 0 });
+    expect(describeDrawdown(DEFAULT_DRAWDOWN, 400000, money.format)).toContain('৳4,00,000');
+  });
+});
@@ -0,0 +1,64 @@
+import type { DrawdownSettings } from './types';
+
+export const DEFAULT_DRAWDOWN: DrawdownSettings = {
+  rule: 'inflation-indexed',
+  withdrawalRate: 4,
+  guardrail: 20,
+  adjustment: 10
+};
+
+// Carried from one drawdown period to the next
+export interface DrawdownState {
+  withdrawal: number;   // Last period's planned withdrawal (0 before the first)
+  initialRate: number;  // Withdrawal / balance at the first withdrawal, for the guardrails
+}
+
+export interface WithdrawalPlan {
+  withdrawal: number;
+  state: DrawdownState;
+}
+
+// What the rule asks for this period. `balance` is the balance before growth,
+// `afterGrowth` what is available to withdraw from.
+export const planWithdrawal = (
+  settings: DrawdownSettings,
+  state: DrawdownState,
+  balance: number,
+  afterGrowth: number,
+  salaryAmount: number,
+  inflationPerPeriod: number,
+  periodsPerYear: number
+): WithdrawalPlan => {
+  if (settings.rule === 'percent-of-portfolio') {
+    const withdrawal = afterGrowth * settings.withdrawalRate / 100 / periodsPerYear;
+    return { withdrawal, state: { ...state, withdrawal } };
+  }
+
+  if (state.withdrawal === 0) {
+    const initialRate = balance > 0 ? salaryAmount / balance : 0;
+    return { withdrawal: salaryAmount, state: { withdrawal: salaryAmount, initialRate } };
+  }
+
+  let withdrawal = state.withdrawal * (1 + inflationPerPeriod);
+  if (settings.rule === 'guardrails' && balance > 0) {
+    // Cut spending when the rate has drifted above the band (after bad years),
+    // raise it when it has fallen below (after good ones)
+    const rate = withdrawal / balance;
+    const band = settings.guardrail / 100;
+    if (rate > state.initialRate * (1 + band)) withdrawal *= 1 - settings.adjustment / 100;
+    else if (rate < state.initialRate * (1 - band)) withdrawal *= 1 + settings.adjustment / 100;
+  }
+  return { withdrawal, state: { ...state, withdrawal } };
+};
+
+export const describeDrawdown = (settings: DrawdownSettings, salaryAmount: number, formatNum: (n: number) => string): string => {
+  const salary = formatNum(salaryAmount);
+  switch (settings.rule) {
+    case 'inflation-indexed':
+      return `Withdraw ${salary} in the first period, then raise it with inflation every period.`;
+    case 'percent-of-portfolio':
+      return `Withdraw ${settings.withdrawalRate}% of the balance a year. Income moves with the market, but the money never runs out.`;
+    case 'guardrails':
+      return `Start at ${salary} and raise it with inflation, but cut ${settings.adjustment}% when the withdrawal rate drifts ${settings.guardrail}% above where it started and raise ${settings.adjustment}% when it drifts ${settings.guardrail}% below.`;
+  }
+};
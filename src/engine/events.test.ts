@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { createMoneyFormatter } from './currency';
+import { describeEvent, getProjectionBoundaries, resolveEvents } from './events';
+import type { CashFlowEvent } from './types';
+
+// Monthly boundaries for 2026: [Jan 1, Feb 1, ..., Jan 1 2027]
+const months = getProjectionBoundaries('2026-01-01', 0, 'monthly', 12);
+
+const event = (overrides: Partial<CashFlowEvent>): CashFlowEvent => ({
+  id: 'e',
+  kind: 'one-off',
+  label: 'Event',
+  date: '2026-01-01',
+  amount: 0,
+  ...overrides
+});
+
+describe('getProjectionBoundaries', () => {
+  it('starts where the accumulation phase ends', () => {
+    const yearly = getProjectionBoundaries('2026-01-01', 24, 'yearly', 2);
+    expect(yearly.map((t) => new Date(t).getFullYear())).toEqual([2028, 2029, 2030]);
+  });
+
+  it('steps weeks and days in calendar days', () => {
+    const weekly = getProjectionBoundaries('2026-01-01', 0, 'weekly', 2);
+    expect(weekly[2] - weekly[0]).toBe(14 * 24 * 60 * 60 * 1000);
+    expect(getProjectionBoundaries('2026-01-01', 0, 'daily', 3)).toHaveLength(4);
+  });
+});
+
+describe('resolveEvents', () => {
+  it('puts a one-off event in the period that contains its date', () => {
+    const effects = resolveEvents([event({ label: 'Bonus', date: '2026-03-15', amount: 2000 })], months);
+    expect(effects).toHaveLength(12);
+    expect(effects[2]).toEqual({ cashFlow: 2000, contributionFactor: 1, labels: ['Bonus'] });
+    expect(effects.filter((e) => e.cashFlow !== 0)).toHaveLength(1);
+  });
+
+  it('drops events outside the grid', () => {
+    const effects = resolveEvents([
+      event({ date: '2025-12-31', amount: 100 }),
+      event({ date: '2027-01-01', amount: 100 })
+    ], months);
+    expect(effects.every((e) => e.cashFlow === 0 && e.labels.length === 0)).toBe(true);
+  });
+
+  it('repeats a recurring event until its end date', () => {
+    const effects = resolveEvents([
+      event({ kind: 'recurring', date: '2026-02-01', endDate: '2026-05-31', amount: -300, interval: 'monthly' })
+    ], months);
+    expect(effects.map((e) => e.cashFlow)).toEqual([0, -300, -300, -300, -300, 0, 0, 0, 0, 0, 0, 0]);
+  });
+
+  it('repeats a yearly event on its anniversary', () => {
+    const years = getProjectionBoundaries('2026-01-01', 0, 'yearly', 3);
+    const effects = resolveEvents([event({ kind: 'recurring', date: '2026-06-01', amount: 1000, interval: 'yearly' })], years);
+    expect(effects.map((e) => e.cashFlow)).toEqual([1000, 1000, 1000]);
+  });
+
+  it('zeroes the contribution factor during a pause', () => {
+    const effects = resolveEvents([event({ kind: 'pause', date: '2026-04-01', endDate: '2026-06-30' })], months);
+    expect(effects.map((e) => e.contributionFactor)).toEqual([1, 1, 1, 0, 0, 0, 1, 1, 1, 1, 1, 1]);
+  });
+
+  it('compounds a step-up on each anniversary', () => {
+    const years = getProjectionBoundaries('2026-01-01', 0, 'yearly', 4);
+    const effects = resolveEvents([event({ kind: 'step-up', date: '2026-01-01', amount: 5 })], years);
+    expect(effects.map((e) => e.contributionFactor)).toEqual([1, 1.05, 1.05 * 1.05, Math.pow(1.05, 3)]);
+  });
+});
+
+describe('describeEvent', () => {
+  it('shows amounts in the display currency', () => {
+    const money = createMoneyFormatter({ code: 'USD', display: 'EUR', locale: 'en-US', rate: 0.5 });
+    expect(describeEvent(event({ amount: -2000 }), money.format)).toBe('Withdraw €1,000 on 2026-01-01');
+    expect(describeEvent(event({ kind: 'step-up', amount: 3 }), money.format)).toBe('Regular contributions grow 3% a year from 2026-01-01');
+  });
+});
@@ -0,0 +1,104 @@
+import { addMonths, getProjectionStart, getScheduleDates } from './schedule';
+import type { CashFlowEvent, PeriodEventEffect, ProjectionFrequency } from './types';
+
+// Period i of the projections covers [boundaries[i - 1], boundaries[i]) and the
+// projections begin where the accumulation phase (`duration` months) ends
+export const getProjectionBoundaries = (
+  startDate: string,
+  duration: number,
+  projectionFrequency: ProjectionFrequency,
+  periods: number,
+  businessDays = false
+): number[] =>
+  getScheduleDates(new Date(getProjectionStart(startDate, duration)), projectionFrequency, periods, businessDays);
+
+const fullYearsBetween = (from: Date, to: Date) => {
+  let years = to.getUTCFullYear() - from.getUTCFullYear();
+  if (addMonths(from, years * 12).getTime() > to.getTime()) years--;
+  return Math.max(0, years);
+};
+
+// Dates of a recurring event that fall before `until`
+const occurrences = (event: CashFlowEvent, until: number): number[] => {
+  const start = new Date(event.date);
+  const end = event.endDate ? Math.min(new Date(event.endDate).getTime(), until - 1) : until - 1;
+  const step = event.interval === 'yearly' ? 12 : 1;
+  const dates: number[] = [];
+  for (let n = 0; ; n++) {
+    const time = addMonths(start, n * step).getTime();
+    if (time > end) break;
+    dates.push(time);
+  }
+  return dates;
+};
+
+// Work out what the timeline does to each period of a date grid
+export const resolveEvents = (events: CashFlowEvent[], boundaries: number[]): PeriodEventEffect[] => {
+  const periods = Math.max(0, boundaries.length - 1);
+  const effects: PeriodEventEffect[] = Array.from({ length: periods }, () => ({
+    cashFlow: 0,
+    contributionFactor: 1,
+    labels: []
+  }));
+  if (periods === 0) return effects;
+
+  const findPeriod = (time: number) => {
+    if (time < boundaries[0]) return -1;
+    return boundaries.findIndex((boundary) => boundary > time) - 1;
+  };
+
+  for (const event of events) {
+    const eventTime = new Date(event.date).getTime();
+    const startPeriod = findPeriod(eventTime);
+    if (startPeriod >= 0) effects[startPeriod].labels.push(event.label);
+
+    switch (event.kind) {
+      case 'one-off':
+        if (startPeriod >= 0) effects[startPeriod].cashFlow += event.amount;
+        break;
+
+      case 'recurring':
+        for (const time of occurrences(event, boundaries[periods])) {
+          const period = findPeriod(time);
+          if (period >= 0) effects[period].cashFlow += event.amount;
+        }
+        break;
+
+      case 'pause': {
+        const endTime = event.endDate ? new Date(event.endDate).getTime() : Infinity;
+        effects.forEach((effect, i) => {
+          if (boundaries[i] >= eventTime && boundaries[i] <= endTime) effect.contributionFactor = 0;
+        });
+        break;
+      }
+
+      case 'step-up': {
+        // Contributions grow by `amount`% on each anniversary of the event date
+        const start = new Date(event.date);
+        effects.forEach((effect, i) => {
+          if (boundaries[i] < eventTime) return;
+          const years = fullYearsBetween(start, new Date(boundaries[i]));
+          effect.contributionFactor *= Math.pow(1 + event.amount / 100, years);
+        });
+        break;
+      }
+    }
+  }
+
+  return effects;
+};
+
+export const describeEvent = (event: CashFlowEvent, formatNum: (n: number) => string): string => {
+  const amount = formatNum(Math.abs(event.amount));
+  const until = event.endDate ? ` until ${event.endDate}` : '';
+  switch (event.kind) {
+    case 'one-off':
+      return `${event.amount >= 0 ? 'Deposit' : 'Withdraw'} ${amount} on ${event.date}`;
+    case 'recurring':
+      return `${event.amount >= 0 ? 'Deposit' : 'Withdraw'} ${amount} ${event.interval === 'yearly' ? 'every year' : 'every month'} from ${event.date}${until}`;
+    case 'step-up':
+      return `Regular contributions grow ${event.amount}% a year from ${event.date}`;
+    case 'pause':
+      return `Regular contributions paused from ${event.date}${until || ' onwards'}`;
+  }
+};
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { calculationTable, projectionTable, toCsv, toJson, toSpreadsheetXml } from './exporters';
+import { DEFAULT_SCENARIO, SCENARIO_FIELDS } from './scenario';
+import { runScenario } from './summary';
+
+const { calculations, projections } = runScenario(DEFAULT_SCENARIO);
+
+describe('toCsv', () => {
+  it('writes a scenario header block before the table', () => {
+    const lines = toCsv(DEFAULT_SCENARIO, projectionTable(projections)).trimEnd().split('\r\n');
+    const header = lines.filter((line) => line.startsWith('#'));
+    expect(header).toHaveLength(SCENARIO_FIELDS.length + 1);
+    expect(header).toContain('# investmentAmount,1000');
+    expect(header).toContain('# monteCarlo.seed,42');
+
+    const data = lines.filter((line) => !line.startsWith('#'));
+    expect(data[0]).toBe('Period,Period End,Start,Cash In,Total Invested,Profit,After Growth,Cash Out,End Value');
+    expect(data).toHaveLength(projections.length + 1);
+    const p = projections[1];
+    expect(data[2]).toBe([p.period, p.date, p.startValue, p.newCash, p.totalInvested, p.profit, p.afterGrowth, p.cashOut, p.endValue].join(','));
+  });
+
+  it('adds a column per portfolio asset after the end value', () => {
+    const scenario = { ...DEFAULT_SCENARIO, portfolio: { ...DEFAULT_SCENARIO.portfolio, enabled: true } };
+    const table = projectionTable(runScenario(scenario).projections, ['Stocks', 'Bonds', 'Cash']);
+    expect(table.columns.slice(-4)).toEqual(['End Value', 'Stocks', 'Bonds', 'Cash']);
+    expect(table.rows[0]).toHaveLength(table.columns.length);
+  });
+
+  it('names the strategy of each period when a plan is on', () => {
+    const plan = { enabled: true, phases: [{ id: 'p', trigger: 'period' as const, period: 6, strategy: 'take-salary' as const, amount: 100 }] };
+    const table = projectionTable(runScenario({ ...DEFAULT_SCENARIO, plan }).projections);
+    expect(table.columns.slice(0, 3)).toEqual(['Period', 'Period End', 'Strategy']);
+    expect(table.rows.map((row) => row[2])).toEqual([...Array(5).fill('All In'), ...Array(5).fill('Take Salary')]);
+  });
+
+  it('quotes cells containing commas or quotes', () => {
+    const csv = toCsv(DEFAULT_SCENARIO, { name: 'T', columns: ['A'], rows: [['x, "y"']] });
+    expect(csv).toContain('"x, ""y"""');
+  });
+});
+
+describe('toJson', () => {
+  it('includes the scenario and both series', () => {
+    const parsed = JSON.parse(toJson(DEFAULT_SCENARIO, calculations, projections));
+    expect(parsed.format).toBe('wealth-projector');
+    expect(parsed.scenario).toEqual(DEFAULT_SCENARIO);
+    expect(parsed.calculations).toEqual(calculations);
+    expect(parsed.projections).toEqual(projections);
+  });
+});
+
+describe('toSpreadsheetXml', () => {
+  it('writes an inputs sheet plus one sheet per table', () => {
+    const xml = toSpreadsheetXml(DEFAULT_SCENARIO, [projectionTable(projections), calculationTable(calculations)]);
+    expect(xml.match(/<Worksheet /g)).toHaveLength(3);
+    expect(xml).toContain('ss:Name="Inputs"');
+    expect(xml).toContain('<Cell><Data ss:Type="Number">1000</Data></Cell>');
+  });
+});
@@ -0,0 +1,148 @@
+import { SCENARIO_FIELDS, SCENARIO_VERSION, formatFieldValue, getFieldValue } from './scenario';
+import { STRATEGIES } from './strategies';
+import type { CalculationData, ProjectionData, Scenario } from './types';
+
+export const EXPORT_FORMAT = 'wealth-projector';
+
+type Cell = string | number | boolean;
+
+export interface ExportTable {
+  name: string;
+  columns: string[];
+  rows: Cell[][];
+}
+
+export interface ScenarioExport {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  scenario: Scenario;
+  calculations: CalculationData[];
+  projections: ProjectionData[];
+}
+
+// Tax, fee and real-value columns are only added when the projections model them
+// `assetNames` label the per-asset columns when the rows carry a portfolio breakdown
+export const projectionTable = (projections: ProjectionData[], assetNames: string[] = []): ExportTable => {
+  const withTax = projections.some((p) => p.taxPaid !== undefined);
+  const withFees = projections.some((p) => p.feesPaid !== undefined);
+  const withNet = withTax || withFees;
+  const withReal = projections.some((p) => p.deflator !== undefined);
+  const withPlanned = projections.some((p) => p.plannedWithdrawal !== undefined);
+  const withDates = projections.some((p) => p.date !== undefined);
+  const withPhases = projections.some((p) => p.strategy !== undefined);
+  const assetCount = Math.max(0, ...projections.map((p) => p.assetValues?.length ?? 0));
+  const assetColumns = Array.from({ length: assetCount }, (_, i) => assetNames[i] ?? `Asset ${i + 1}`);
+  return {
+    name: 'Projections',
+    columns: [
+      'Period',
+      ...(withDates ? ['Period End'] : []),
+      ...(withPhases ? ['Strategy'] : []),
+      'Start', 'Cash In', 'Total Invested', 'Profit', 'After Growth',
+      ...(withPlanned ? ['Planned Withdrawal'] : []),
+      'Cash Out',
+      ...(withTax ? ['Tax Paid'] : []),
+      ...(withFees ? ['Fees'] : []),
+      ...(withNet ? ['Net Cash Out'] : []),
+      'End Value',
+      ...assetColumns,
+      ...(withReal ? ['Real End Value'] : [])
+    ],
+    rows: projections.map((p) => [
+      p.period,
+      ...(withDates ? [p.date ?? ''] : []),
+      ...(withPhases ? [p.strategy ? STRATEGIES[p.strategy].name : ''] : []),
+      p.startValue, p.newCash, p.totalInvested, p.profit, p.afterGrowth,
+      ...(withPlanned ? [p.plannedWithdrawal ?? 0] : []),
+      p.cashOut,
+      ...(withTax ? [p.taxPaid ?? 0] : []),
+      ...(withFees ? [p.feesPaid ?? 0] : []),
+      ...(withNet ? [p.netCashOut ?? p.cashOut] : []),
+      p.endValue,
+      ...assetColumns.map((_, i) => p.assetValues?.[i] ?? 0),
+      ...(withReal ? [Math.round(p.endValue * (p.deflator ?? 1))] : [])
+    ])
+  };
+};
+
+export const calculationTable = (calculations: CalculationData[]): ExportTable => {
+  const withFees = calculations.some((c) => c.feesPaid !== undefined);
+  const withReal = calculations.some((c) => c.deflator !== undefined);
+  return {
+    name: 'Growth',
+    columns: [
+      'Period', 'Date', 'Total Invested', 'Current Value', 'Profit',
+      ...(withReal ? ['Real Value'] : []),
+      ...(withFees ? ['Fees Paid'] : [])
+    ],
+    rows: calculations.map((c) => [
+      c.period, c.date, c.totalInvested, c.currentValue, c.profit,
+      ...(withReal ? [Math.round(c.currentValue * (c.deflator ?? 1))] : []),
+      ...(withFees ? [c.feesPaid ?? 0] : [])
+    ])
+  };
+};
+
+// One [path, value] pair per scenario input, in the same order as share links
+export const scenarioHeader = (scenario: Scenario): [string, Cell][] =>
+  SCENARIO_FIELDS.map((field) => {
+    const value = getFieldValue(scenario, field.path);
+    return [field.path, typeof value === 'object' ? formatFieldValue(value) : value as Cell];
+  });
+
+const escapeCsv = (cell: Cell): string => {
+  const text = String(cell);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Header lines start with '#' so they can be told apart from the data rows
+export const toCsv = (scenario: Scenario, table: ExportTable): string => {
+  const lines = [
+    `# ${EXPORT_FORMAT} export,version ${SCENARIO_VERSION},${new Date().toISOString()}`,
+    ...scenarioHeader(scenario).map(([key, value]) => `# ${key},${escapeCsv(value)}`),
+    table.columns.map(escapeCsv).join(','),
+    ...table.rows.map((row) => row.map(escapeCsv).join(','))
+  ];
+  return lines.join('\r\n') + '\r\n';
+};
+
+export const toJson = (
+  scenario: Scenario,
+  calculations: CalculationData[],
+  projections: ProjectionData[]
+): string => {
+  const data: ScenarioExport = {
+    format: EXPORT_FORMAT,
+    version: SCENARIO_VERSION,
+    exportedAt: new Date().toISOString(),
+    scenario,
+    calculations,
+    projections
+  };
+  return JSON.stringify(data, null, 2);
+};
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const xmlCell = (cell: Cell) =>
+  typeof cell === 'number'
+    ? `<Cell><Data ss:Type="Number">${cell}</Data></Cell>`
+    : `<Cell><Data ss:Type="String">${escapeXml(String(cell))}</Data></Cell>`;
+
+const xmlWorksheet = (name: string, rows: Cell[][]) =>
+  `<Worksheet ss:Name="${escapeXml(name)}"><Table>${
+    rows.map((row) => `<Row>${row.map(xmlCell).join('')}</Row>`).join('')
+  }</Table></Worksheet>`;
+
+// SpreadsheetML 2003 workbook: opens in Excel, LibreOffice and Numbers with one
+// sheet per table plus the scenario inputs, and needs no zip library
+export const toSpreadsheetXml = (scenario: Scenario, tables: ExportTable[]): string => [
+  '<?xml version="1.0" encoding="UTF-8"?>',
+  '<?mso-application progid="Excel.Sheet"?>',
+  '<Workbook xmlns="urn:schemas-microsoft-com:office:spreadsheet" xmlns:ss="urn:schemas-microsoft-com:office:spreadsheet">',
+  xmlWorksheet('Inputs', [['Input', 'Value'], ...scenarioHeader(scenario)]),
+  ...tables.map((table) => xmlWorksheet(table.name, [table.columns, ...table.rows])),
+  '</Workbook>'
+].join('\n');
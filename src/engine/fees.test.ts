@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { getContributionFee, getNetRate, getWithdrawalFee, hasFees } from './fees';
+
+const fees = { annualFee: 1.2, contributionFee: 5, withdrawalFee: 0.5 };
+
+describe('hasFees', () => {
+  it('is false when every fee is zero', () => {
+    expect(hasFees(undefined)).toBe(false);
+    expect(hasFees({ annualFee: 0, contributionFee: 0, withdrawalFee: 0 })).toBe(false);
+    expect(hasFees(fees)).toBe(true);
+  });
+});
+
+describe('getNetRate', () => {
+  it('takes the per-period fee out of the grown balance', () => {
+    expect(getNetRate(0.01, fees, 12)).toBeCloseTo(1.01 * 0.999 - 1, 12);
+  });
+});
+
+describe('per-transaction fees', () => {
+  it('never charges more than the contribution', () => {
+    expect(getContributionFee(fees, 100)).toBe(5);
+    expect(getContributionFee(fees, 3)).toBe(3);
+    expect(getContributionFee(fees, -100)).toBe(0);
+  });
+
+  it('charges a share of each withdrawal', () => {
+    expect(getWithdrawalFee(fees, 1000)).toBe(5);
+    expect(getWithdrawalFee(fees, 0)).toBe(0);
+  });
+});
@@ -0,0 +1,15 @@
+import type { FeeSettings } from './types';
+
+export const hasFees = (fees?: FeeSettings): fees is FeeSettings =>
+  fees !== undefined && (fees.annualFee > 0 || fees.contributionFee > 0 || fees.withdrawalFee > 0);
+
+// The annual fee accrues on the grown balance, so the net return per period is
+// (1 + gross) × (1 - fee per period) - 1
+export const getNetRate = (grossRate: number, fees: FeeSettings, periodsPerYear: number): number =>
+  (1 + grossRate) * (1 - fees.annualFee / 100 / periodsPerYear) - 1;
+
+export const getContributionFee = (fees: FeeSettings, contribution: number): number =>
+  contribution > 0 ? Math.min(fees.contributionFee, contribution) : 0;
+
+export const getWithdrawalFee = (fees: FeeSettings, withdrawal: number): number =>
+  withdrawal > 0 ? withdrawal * fees.withdrawalFee / 100 : 0;
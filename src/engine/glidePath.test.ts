@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { getAllocation, getAverageGlidePathReturn, getGlidePathReturn } from './glidePath';
+import { calculateGrowth } from './calculations';
+import { projectFuture } from './projections';
+import { getPeriodRate } from './rates';
+import type { GlidePathSettings } from './types';
+
+const glidePath: GlidePathSettings = {
+  enabled: true,
+  currentAge: 40,
+  retirementAge: 50,
+  startAllocation: 90,
+  endAllocation: 40,
+  growthReturn: 10,
+  defensiveReturn: 4
+};
+
+describe('getAllocation', () => {
+  it('steps from the starting to the retirement allocation once a year', () => {
+    expect(getAllocation(glidePath, 0)).toBe(90);
+    expect(getAllocation(glidePath, 0.9)).toBe(90);
+    expect(getAllocation(glidePath, 1)).toBe(85);
+    expect(getAllocation(glidePath, 5.5)).toBe(65);
+  });
+
+  it('holds the retirement allocation from retirement on', () => {
+    expect(getAllocation(glidePath, 10)).toBe(40);
+    expect(getAllocation(glidePath, 30)).toBe(40);
+    expect(getAllocation({ ...glidePath, retirementAge: 35 }, 0)).toBe(40);
+  });
+});
+
+describe('getGlidePathReturn', () => {
+  it('blends the growth and defensive returns by allocation', () => {
+    expect(getGlidePathReturn(glidePath, 0)).toBeCloseTo(9.4);
+    expect(getGlidePathReturn(glidePath, 10)).toBeCloseTo(6.4);
+    expect(getAverageGlidePathReturn(glidePath, 0, 2)).toBeCloseTo((9.4 + 9.1) / 2);
+  });
+});
+
+describe('engines with a glide path', () => {
+  const inputs = {
+    investmentAmount: 100,
+    roiPercentage: 0,
+    duration: 24,
+    frequency: 'monthly' as const,
+    startDate: '2026-01-01',
+    showTotal: true,
+    enableInflation: false,
+    inflationRate: 3,
+    glidePath
+  };
+
+  it('compounds each year of the accumulation at that year\'s return', () => {
+    const rows = calculateGrowth(inputs);
+    const firstYear = getPeriodRate(9.4, 'monthly', 12);
+    const secondYear = getPeriodRate(9.1, 'monthly', 12);
+    let value = 0;
+    for (let i = 1; i <= 24; i++) value = (value + 100) * (1 + (i <= 12 ? firstYear : secondYear));
+    expect(rows[24].currentValue).toBe(Math.round(value));
+    expect(rows[12].allocation).toBe(90);
+    expect(rows[13].allocation).toBe(85);
+  });
+
+  it('ignores the glide path while it is off', () => {
+    const rows = calculateGrowth({ ...inputs, glidePath: { ...glidePath, enabled: false } });
+    expect(rows[24].currentValue).toBe(2400);
+    expect(rows[24].allocation).toBeUndefined();
+  });
+
+  it('continues the glide path into the projections at the age they start', () => {
+    const rows = projectFuture({
+      investmentAmount: 1000,
+      roiPercentage: 0,
+      inflationRate: 3,
+      compounding: 'annual',
+      projectionFrequency: 'yearly',
+      projectionDuration: 3,
+      reinvestmentStrategy: 'all-in',
+      levelUpAmount: 0,
+      salaryAmount: 0,
+      customTargetAmount: 0,
+      accumulatedValue: 1000,
+      elapsedYears: 2,
+      glidePath
+    });
+    expect(rows.map((row) => row.allocation)).toEqual([80, 75, 70]);
+    expect(rows[2].endValue).toBe(Math.round(1000 * 1.088 * 1.085 * 1.082));
+  });
+});
@@ -0,0 +1,27 @@
+import type { GlidePathSettings } from './types';
+
+export const hasGlidePath = (glidePath?: GlidePathSettings): glidePath is GlidePathSettings =>
+  glidePath !== undefined && glidePath.enabled;
+
+// Growth-asset share (%) `years` after the start date
+export const getAllocation = (glidePath: GlidePathSettings, years: number): number => {
+  const { currentAge, retirementAge, startAllocation, endAllocation } = glidePath;
+  const span = retirementAge - currentAge;
+  const elapsed = Math.floor(years);
+  if (span <= 0 || elapsed >= span) return endAllocation;
+  return startAllocation + (endAllocation - startAllocation) * (elapsed / span);
+};
+
+// Expected annual return (%) `years` after the start date
+export const getGlidePathReturn = (glidePath: GlidePathSettings, years: number): number => {
+  const growth = getAllocation(glidePath, years) / 100;
+  return growth * glidePath.growthReturn + (1 - growth) * glidePath.defensiveReturn;
+};
+
+// Average return (%) over the `years` after `fromYears`, for figures that need one rate
+export const getAverageGlidePathReturn = (glidePath: GlidePathSettings, fromYears: number, years: number): number => {
+  const count = Math.max(1, Math.ceil(years));
+  let total = 0;
+  for (let year = 0; year < count; year++) total += getGlidePathReturn(glidePath, fromYears + year);
+  return total / count;
+};
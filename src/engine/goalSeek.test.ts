@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import { balanceAt, findSustainableWithdrawal, getSolvableInputs, solveGoal } from './goalSeek';
+import { projectFuture } from './projections';
+import { DEFAULT_SCENARIO } from './scenario';
+import { runScenario } from './summary';
+import { getProjectionInputs } from './summary';
+import type { Scenario } from './types';
+
+describe('solveGoal', () => {
+  it('finds the return that reaches a final balance', () => {
+    // All-in compounds the $1000 yearly for 10 years: 1000 * 1.1^10 = 2594
+    const scenario: Scenario = { ...DEFAULT_SCENARIO, compounding: 'annual' };
+    const solved = solveGoal(scenario, { kind: 'final-balance', target: 2594 }, 'roiPercentage');
+    expect(solved.status).toBe('solved');
+    expect(solved.value).toBeCloseTo(10, 1);
+    expect(solved.result?.summary.finalBalance).toBeGreaterThanOrEqual(2594);
+  });
+
+  it('finds the largest salary that never depletes the balance', () => {
+    const scenario: Scenario = { ...DEFAULT_SCENARIO, reinvestmentStrategy: 'take-salary' };
+    const solved = solveGoal(scenario, { kind: 'sustainable-salary', target: 0 }, 'salaryAmount');
+    expect(solved.status).toBe('solved');
+
+    const sustained = runScenario({ ...scenario, salaryAmount: solved.value! });
+    expect(sustained.projections.every((p) => p.endValue > 0)).toBe(true);
+    const depleted = runScenario({ ...scenario, salaryAmount: solved.value! + 1 });
+    expect(depleted.projections.some((p) => p.endValue === 0)).toBe(true);
+  });
+
+  it('finds the contribution that reaches a balance by a date', () => {
+    const goal = { kind: 'reach-by-date' as const, target: 20000, date: '2026-12-15' };
+    const solved = solveGoal(DEFAULT_SCENARIO, goal, 'investmentAmount');
+    expect(solved.status).toBe('solved');
+
+    const reached = { ...DEFAULT_SCENARIO, investmentAmount: solved.value! };
+    expect(balanceAt(reached, runScenario(reached), goal.date)).toBeGreaterThanOrEqual(20000);
+    const short = { ...DEFAULT_SCENARIO, investmentAmount: solved.value! - 1 };
+    expect(balanceAt(short, runScenario(short), goal.date)).toBeLessThan(20000);
+  });
+
+  it('solves whole months for the duration', () => {
+    // Contributions only build up during the accumulation phase, so it has to run
+    // long enough to cover the date
+    const goal = { kind: 'reach-by-date' as const, target: 10000, date: '2027-06-15' };
+    const solved = solveGoal(DEFAULT_SCENARIO, goal, 'duration');
+    expect(solved.status).toBe('solved');
+    expect(Number.isInteger(solved.value)).toBe(true);
+
+    const shorter = { ...DEFAULT_SCENARIO, duration: solved.value! - 1 };
+    expect(balanceAt(shorter, runScenario(shorter), goal.date)).toBeLessThan(10000);
+  });
+
+  it('reports goals the unknown cannot reach', () => {
+    // All-in ignores the level-up amount, so no value of it changes the outcome
+    const unreachable = solveGoal(DEFAULT_SCENARIO, { kind: 'final-balance', target: 1e6 }, 'levelUpAmount');
+    expect(unreachable.status).toBe('unreachable');
+    expect(unreachable.value).toBeUndefined();
+
+    expect(unreachable.message).toContain('with Level Up Amount anywhere');
+
+    const alwaysMet = solveGoal(DEFAULT_SCENARIO, { kind: 'final-balance', target: 100 }, 'levelUpAmount');
+    expect(alwaysMet.status).toBe('always-met');
+  });
+
+  it('does not solve for the ROI when a portfolio or glide path sets the return', () => {
+    const scenario = { ...DEFAULT_SCENARIO, portfolio: { ...DEFAULT_SCENARIO.portfolio, enabled: true } };
+    expect(getSolvableInputs(scenario)).not.toContain('roiPercentage');
+    expect(getSolvableInputs(DEFAULT_SCENARIO)).toContain('roiPercentage');
+    const solved = solveGoal(scenario, { kind: 'final-balance', target: 5000 }, 'roiPercentage');
+    expect(solved.status).toBe('unavailable');
+    expect(solved.message).toContain('Expected ROI');
+
+    const glide = { ...DEFAULT_SCENARIO, glidePath: { ...DEFAULT_SCENARIO.glidePath, enabled: true } };
+    expect(getSolvableInputs(glide)).not.toContain('roiPercentage');
+  });
+});
+
+describe('balanceAt', () => {
+  it('reads the accumulation rows, then the projection periods', () => {
+    const result = runScenario(DEFAULT_SCENARIO);
+    expect(balanceAt(DEFAULT_SCENARIO, result, '2026-01-01')).toBe(result.calculations[0].currentValue);
+    expect(balanceAt(DEFAULT_SCENARIO, result, '2027-06-01')).toBe(result.calculations[12].currentValue);
+    expect(balanceAt(DEFAULT_SCENARIO, result, '2028-06-01')).toBe(result.projections[0].endValue);
+  });
+
+  it('is undefined outside the plan', () => {
+    const result = runScenario(DEFAULT_SCENARIO);
+    expect(balanceAt(DEFAULT_SCENARIO, result, '2025-06-01')).toBeUndefined();
+    expect(balanceAt(DEFAULT_SCENARIO, result, '2040-06-01')).toBeUndefined();
+  });
+});
+
+describe('findSustainableWithdrawal', () => {
+  const inputs = getProjectionInputs({ ...DEFAULT_SCENARIO, reinvestmentStrategy: 'drawdown' }, 1000);
+
+  it('finds the largest starting withdrawal that lasts the horizon', () => {
+    const sustainable = findSustainableWithdrawal(inputs)!;
+    expect(sustainable).toBeGreaterThan(0);
+    const lasts = (salaryAmount: number) =>
+      projectFuture({ ...inputs, salaryAmount }).every((row) => row.endValue > 0);
+    expect(lasts(sustainable)).toBe(true);
+    expect(lasts(sustainable + 1)).toBe(false);
+  });
+
+  it('is null when withdrawals do not come from the salary amount', () => {
+    expect(findSustainableWithdrawal({ ...inputs, reinvestmentStrategy: 'all-in' })).toBeNull();
+    expect(findSustainableWithdrawal({
+      ...inputs,
+      drawdown: { ...DEFAULT_SCENARIO.drawdown, rule: 'percent-of-portfolio' }
+    })).toBeNull();
+  });
+});
@@ -0,0 +1,178 @@
+import { DEFAULT_DRAWDOWN } from './drawdown';
+import { getProjectionBoundaries } from './events';
+import { projectFuture } from './projections';
+import { runScenario, usesScenarioRoi } from './summary';
+import type { ScenarioResult } from './summary';
+import type { ProjectionInputs, Scenario } from './types';
+
+export type GoalKind = 'final-balance' | 'sustainable-salary' | 'reach-by-date';
+export type SolveFor = 'roiPercentage' | 'duration' | 'investmentAmount' | 'salaryAmount' | 'levelUpAmount';
+
+export interface Goal {
+  kind: GoalKind;
+  target: number;  // Balance to reach; unused by 'sustainable-salary'
+  date?: string;   // YYYY-MM-DD, for 'reach-by-date'
+}
+
+export interface SolveForInfo {
+  label: string;
+  unit?: string;  // Amounts without a unit are in the scenario currency
+}
+
+export interface GoalSeekResult {
+  status: 'solved' | 'unreachable' | 'always-met' | 'unavailable';
+  value?: number;           // The solved input, on the side that meets the goal
+  result?: ScenarioResult;  // The scenario run with that value
+  message: string;
+}
+
+interface SearchRange {
+  min: number;
+  max: number;
+  tolerance: number;
+  integer?: boolean;
+}
+
+export const SOLVE_FOR: Record<SolveFor, SolveForInfo> = {
+  roiPercentage: { label: 'Expected ROI', unit: '%' },
+  duration: { label: 'Duration', unit: 'months' },
+  investmentAmount: { label: 'Investment Amount' },
+  salaryAmount: { label: 'Salary Amount' },
+  levelUpAmount: { label: 'Level Up Amount' }
+};
+
+// Inclusive bounds searched for each unknown
+export const SOLVE_RANGES: Record<SolveFor, SearchRange> = {
+  roiPercentage: { min: -99, max: 100, tolerance: 0.001 },
+  duration: { min: 1, max: 600, tolerance: 1, integer: true },
+  investmentAmount: { min: 0, max: 1e9, tolerance: 0.01 },
+  salaryAmount: { min: 0, max: 1e9, tolerance: 0.01 },
+  levelUpAmount: { min: 0, max: 1e9, tolerance: 0.01 }
+};
+
+const MAX_ITERATIONS = 100;
+
+// The unknowns that change this scenario's result: with a portfolio or glide path the ROI doesn't
+export const getSolvableInputs = (scenario: Scenario): SolveFor[] =>
+  (Object.keys(SOLVE_FOR) as SolveFor[]).filter((key) => key !== 'roiPercentage' || usesScenarioRoi(scenario));
+
+// Value at a date on the combined timeline: accumulation rows, then projection periods.
+// Undefined when the date is outside the plan.
+export const balanceAt = (scenario: Scenario, result: ScenarioResult, date: string): number | undefined => {
+  const time = new Date(date).getTime();
+  const start = new Date(scenario.startDate).getTime();
+  const boundaries = getProjectionBoundaries(
+    scenario.startDate,
+    scenario.duration,
+    scenario.projectionFrequency,
+    scenario.projectionDuration,
+    scenario.businessDays
+  );
+  const { calculations, projections } = result;
+  if (time < start || time > boundaries[boundaries.length - 1] || calculations.length === 0) return undefined;
+
+  if (time < boundaries[0]) {
+    const index = Math.floor(((time - start) / (boundaries[0] - start)) * (calculations.length - 1));
+    return calculations[index].currentValue;
+  }
+
+  const period = boundaries.filter((boundary) => boundary <= time).length - 1;
+  if (period === 0) return calculations[calculations.length - 1].currentValue;
+  return projections[period - 1]?.endValue;
+};
+
+const isGoalMet = (goal: Goal, scenario: Scenario, result: ScenarioResult): boolean => {
+  switch (goal.kind) {
+    case 'final-balance':
+      return result.summary.finalBalance >= goal.target;
+    case 'sustainable-salary':
+      return result.projections.length > 0 && result.projections.every((p) => p.endValue > 0);
+    case 'reach-by-date': {
+      const balance = goal.date ? balanceAt(scenario, result, goal.date) : undefined;
+      return balance !== undefined && balance >= goal.target;
+    }
+  }
+};
+
+// Find the input value at which the goal switches from unmet to met. Every goal
+// here moves one way as the unknown grows, so bisection over the engine works for
+// strategies without a closed form.
+export const solveGoal = (scenario: Scenario, goal: Goal, solveFor: SolveFor): GoalSeekResult => {
+  const range = SOLVE_RANGES[solveFor];
+  const { label } = SOLVE_FOR[solveFor];
+  if (!getSolvableInputs(scenario).includes(solveFor)) {
+    return { status: 'unavailable', message: `The portfolio or glide path sets the return, so ${label} has no effect to solve for.` };
+  }
+  const evaluate = (value: number) => {
+    const candidate: Scenario = { ...scenario, [solveFor]: value };
+    const result = runScenario(candidate);
+    return { met: isGoalMet(goal, candidate, result), result };
+  };
+
+  const low = evaluate(range.min);
+  const high = evaluate(range.max);
+
+  if (low.met && high.met) {
+    return { status: 'always-met', message: 'The goal is met across the whole range, so this input does not limit it.' };
+  }
+  if (!low.met && !high.met) {
+    return {
+      status: 'unreachable',
+      message: `The goal can't be reached with ${label} anywhere between ${range.min.toLocaleString()} and ${range.max.toLocaleString()}.`
+    };
+  }
+
+  // Keep `met` on one end and `unmet` on the other, then narrow
+  const metAtHigh = high.met;
+  let metValue = metAtHigh ? range.max : range.min;
+  let unmetValue = metAtHigh ? range.min : range.max;
+  let metResult = metAtHigh ? high.result : low.result;
+
+  for (let i = 0; i < MAX_ITERATIONS && Math.abs(metValue - unmetValue) > range.tolerance; i++) {
+    const mid = range.integer ? Math.floor((metValue + unmetValue) / 2) : (metValue + unmetValue) / 2;
+    if (mid === metValue || mid === unmetValue) break;
+    const next = evaluate(mid);
+    if (next.met) {
+      metValue = mid;
+      metResult = next.result;
+    } else {
+      unmetValue = mid;
+    }
+  }
+
+  const decimals = Math.max(0, -Math.floor(Math.log10(range.tolerance)));
+  const value = range.integer ? metValue : Number(metValue.toFixed(decimals));
+
+  return {
+    status: 'solved',
+    value,
+    result: metResult,
+    message: metAtHigh ? `Needs at least ${value.toLocaleString()}.` : `Works up to ${value.toLocaleString()}.`
+  };
+};
+
+// Largest starting withdrawal (salaryAmount) that never empties the balance over the
+// projection horizon. Null for rules that don't start from salaryAmount, since a
+// percentage of what's left never runs out.
+export const findSustainableWithdrawal = (inputs: ProjectionInputs): number | null => {
+  const usesSalary = inputs.reinvestmentStrategy === 'take-salary' ||
+    (inputs.reinvestmentStrategy === 'drawdown' && (inputs.drawdown ?? DEFAULT_DRAWDOWN).rule !== 'percent-of-portfolio');
+  if (!usesSalary) return null;
+
+  const lasts = (salaryAmount: number) =>
+    projectFuture({ ...inputs, salaryAmount }).every((row) => row.endValue > 0);
+  if (!lasts(0)) return 0;
+
+  let low = 0;
+  let high = Math.max(1, inputs.investmentAmount);
+  for (let i = 0; i < 60 && lasts(high); i++) {
+    low = high;
+    high *= 2;
+  }
+  while (high - low > 1) {
+    const mid = Math.floor((low + high) / 2);
+    if (lasts(mid)) low = mid;
+    else high = mid;
+  }
+  return low;
+};
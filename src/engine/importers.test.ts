@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { parseContributionCsv, parseScenarioJson, splitCsvLine } from './importers';
+import { toJson } from './exporters';
+import { DEFAULT_SCENARIO } from './scenario';
+import { runScenario } from './summary';
+
+describe('splitCsvLine', () => {
+  it('handles quoted cells', () => {
+    expect(splitCsvLine('2026-01-01,"1,000","Bonus ""Q1"""')).toEqual(['2026-01-01', '1,000', 'Bonus "Q1"']);
+  });
+});
+
+describe('parseScenarioJson', () => {
+  it('restores a scenario from a full export', () => {
+    const scenario = {
+      ...DEFAULT_SCENARIO,
+      roiPercentage: 6,
+      reinvestmentStrategy: 'level-up' as const,
+      contributions: [{ date: '2026-03-01', amount: 500, note: 'Bonus' }]
+    };
+    const { calculations, projections } = runScenario(scenario);
+    const result = parseScenarioJson(toJson(scenario, calculations, projections));
+    expect(result).toEqual({ scenario, warnings: [] });
+  });
+
+  it('accepts a bare scenario object and reports bad fields', () => {
+    const result = parseScenarioJson(JSON.stringify({ investmentAmount: 2000, roiPercentage: 'high' }));
+    expect(result.scenario.investmentAmount).toBe(2000);
+    expect(result.scenario.roiPercentage).toBe(DEFAULT_SCENARIO.roiPercentage);
+    expect(result.warnings).toHaveLength(1);
+    expect(result.scenario.contributions).toEqual([]);
+  });
+
+  it('rejects files that are not scenario JSON', () => {
+    expect(() => parseScenarioJson('{oops')).toThrow('Not valid JSON');
+    expect(() => parseScenarioJson('[1, 2]')).toThrow('Expected a JSON object');
+    expect(() => parseScenarioJson('{"format": "wealth-projector"}')).toThrow('no scenario section');
+  });
+});
+
+describe('parseContributionCsv', () => {
+  it('parses dated contributions and withdrawals, skipping header and comments', () => {
+    const csv = [
+      '# exported from my bank',
+      'Date,Amount,Note',
+      '2026-03-15,"$5,000",Bonus',
+      '2026-02-01,-250',
+      ''
+    ].join('\n');
+    expect(parseContributionCsv(csv)).toEqual({
+      contributions: [
+        { date: '2026-02-01', amount: -250 },
+        { date: '2026-03-15', amount: 5000, note: 'Bonus' }
+      ],
+      errors: []
+    });
+  });
+
+  it('reports each malformed row by line number', () => {
+    const csv = 'date,amount\n2026-01-01,100\n2026-13-01,100\n2026-02-01,abc\n2026-03-01,\n2026-04-01,0\nlater,5';
+    const { contributions, errors } = parseContributionCsv(csv);
+    expect(contributions).toEqual([{ date: '2026-01-01', amount: 100 }]);
+    expect(errors.map((e) => e.line)).toEqual([3, 4, 5, 6, 7]);
+  });
+
+  it('reports an empty file', () => {
+    expect(parseContributionCsv('date,amount\n').errors).toEqual([
+      { line: 1, message: 'The file has no contribution rows.' }
+    ]);
+  });
+});
@@ -0,0 +1,110 @@
+import { EXPORT_FORMAT } from './exporters';
+import { parseFieldValue, sanitizeScenario } from './scenario';
+import type { SanitizedScenario } from './scenario';
+import type { Contribution } from './types';
+
+export interface ImportError {
+  line: number;  // 1-based line in the source file
+  message: string;
+}
+
+export interface ContributionImport {
+  contributions: Contribution[];
+  errors: ImportError[];
+}
+
+// Split one CSV line, honouring double-quoted cells with "" escapes
+export const splitCsvLine = (line: string): string[] => {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      cells.push(cell);
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  cells.push(cell);
+  return cells.map((c) => c.trim());
+};
+
+// Accepts a full JSON export or a bare scenario object
+export const parseScenarioJson = (text: string): SanitizedScenario => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (e) {
+    throw new Error(`Not valid JSON: ${(e as Error).message}`);
+  }
+  if (raw === null || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error('Expected a JSON object with scenario inputs.');
+  }
+
+  const data = raw as Record<string, unknown>;
+  const isExport = data.format === EXPORT_FORMAT;
+  if (isExport && (data.scenario === null || typeof data.scenario !== 'object')) {
+    throw new Error('This export has no scenario section.');
+  }
+
+  return sanitizeScenario(isExport ? data.scenario : data);
+};
+
+// Rows are `date,amount[,note]`. Positive amounts are contributions, negative are
+// withdrawals. Blank lines, '#' comments and an optional header row are skipped.
+export const parseContributionCsv = (text: string): ContributionImport => {
+  const contributions: Contribution[] = [];
+  const errors: ImportError[] = [];
+  const lines = text.replace(/^\ufeff/, '').split(/\r?\n/);
+  let firstRow = true;
+
+  lines.forEach((rawLine, index) => {
+    const line = index + 1;
+    if (rawLine.trim() === '' || rawLine.trim().startsWith('#')) return;
+
+    const [dateCell = '', amountCell = '', note = ''] = splitCsvLine(rawLine);
+
+    // The first row is a header if it starts with a word and has no numeric amount
+    const isHeader = firstRow && /^[a-z]/i.test(dateCell) && isNaN(Number(amountCell));
+    firstRow = false;
+    if (isHeader) return;
+
+    if (parseFieldValue({ kind: 'date' }, dateCell) === undefined) {
+      errors.push({ line, message: `"${dateCell}" is not a valid YYYY-MM-DD date.` });
+      return;
+    }
+
+    const amount = Number(amountCell.replace(/[$,\s]/g, ''));
+    if (amountCell === '' || !Number.isFinite(amount)) {
+      errors.push({ line, message: `"${amountCell}" is not a valid amount.` });
+      return;
+    }
+    if (amount === 0) {
+      errors.push({ line, message: 'Amount is zero.' });
+      return;
+    }
+
+    contributions.push({ date: dateCell, amount, ...(note ? { note } : {}) });
+  });
+
+  if (contributions.length === 0 && errors.length === 0) {
+    errors.push({ line: 1, message: 'The file has no contribution rows.' });
+  }
+
+  contributions.sort((a, b) => a.date.localeCompare(b.date));
+  return { contributions, errors };
+};
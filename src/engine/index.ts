@@ -0,0 +1,138 @@
+export * from './types';
+export { STRATEGIES, PROJECTION_PERIODS_PER_YEAR } from './strategies';
+export { bucketContributions, calculateGrowth } from './calculations';
+export { calculatePerPeriodInvestment, projectFuture, solveCustomAmount } from './projections';
+export { PHASE_AMOUNTS, PHASE_TRIGGERS, describePhase, hasPlan, isPhaseTriggered } from './phases';
+export {
+  RULE_KINDS,
+  STRATEGY_STORAGE_KEY,
+  addStrategy,
+  applyRules,
+  createRule,
+  describeBuiltStrategy,
+  getStrategyName,
+  isRuleActive,
+  loadStrategies,
+  parseRule,
+  removeStrategy,
+  saveStrategies
+} from './strategyBuilder';
+export type { RuleKindInfo, RuleOutcome, SavedStrategy } from './strategyBuilder';
+export { describeEvent, getProjectionBoundaries, resolveEvents } from './events';
+export { explainPhase, explainRate, explainStrategy, formatAuditFormula, formatAuditRate } from './audit';
+export type { StrategyAudit, StrategyAuditInputs } from './audit';
+export {
+  BUSINESS_DAYS_PER_YEAR,
+  addBusinessDays,
+  addDays,
+  addMonths,
+  formatPeriodDate,
+  getPeriodDate,
+  getPeriodsPerYear,
+  getProjectionStart,
+  getScheduleDates,
+  toISODate
+} from './schedule';
+export { getDividendTax, getWithdrawalTax } from './tax';
+export {
+  CURRENCIES,
+  DEFAULT_CURRENCY,
+  NUMBER_LOCALES,
+  createMoneyFormatter,
+  getBundledRate,
+  getFxRate
+} from './currency';
+export type { MoneyFormatter } from './currency';
+export { getContributionFee, getNetRate, getWithdrawalFee, hasFees } from './fees';
+export { DEFAULT_DRAWDOWN, describeDrawdown, planWithdrawal } from './drawdown';
+export type { DrawdownState, WithdrawalPlan } from './drawdown';
+export { getAllocation, getAverageGlidePathReturn, getGlidePathReturn, hasGlidePath } from './glidePath';
+export {
+  ASSET_COLORS,
+  createPortfolioTracker,
+  getExpectedReturn,
+  getPortfolioReturn,
+  getPortfolioVolatility,
+  hasPortfolio,
+  normalizeWeights,
+  splitByWeights
+} from './portfolio';
+export type { PortfolioTracker } from './portfolio';
+export { DEFAULT_COMPOUNDING, getDeflator, getEffectiveAnnualRate, getPeriodRate, toRealCalculations, toRealProjections } from './rates';
+export type { DividendTax, WithdrawalTax } from './tax';
+export { createRng, percentile, runMonteCarlo, sampleNormal, toRealBands } from './monteCarlo';
+export type { MonteCarloInputs, MonteCarloResult, PercentileBand } from './monteCarlo';
+export { findDepletionPeriod, getAnnualReturn, runBacktest } from './backtest';
+export type { BacktestInputs, BacktestResult, BacktestRun } from './backtest';
+export {
+  DEFAULT_SCENARIO,
+  SCENARIO_FIELDS,
+  SCENARIO_VERSION,
+  formatFieldValue,
+  getFieldValue,
+  parseFieldValue,
+  sanitizeScenario
+} from './scenario';
+export type { FieldRule, SanitizedScenario, ScenarioField } from './scenario';
+export { decodeScenario, encodeScenario } from './urlState';
+export { MAX_DAILY_YEARS, checkDateInput, checkNumberInput, checkScenario, getNumberRule } from './validation';
+export type { DateCheck, IssueSeverity, NumberCheck, ScenarioIssue } from './validation';
+export {
+  compareStrategies,
+  getProjectionInputs,
+  getRunway,
+  runScenario,
+  summarizeProjections,
+  toRealResult,
+  usesScenarioRoi
+} from './summary';
+export type { ProjectionSummary, Runway, ScenarioResult, StrategyOutcome } from './summary';
+export { amortize, compareDebtVsInvest, findBreakevenReturn, getMonthlyPayment } from './debt';
+export type { AmortizationRow, DebtComparison, LoanSettings, NetWorthPoint } from './debt';
+export { SOLVE_FOR, SOLVE_RANGES, balanceAt, findSustainableWithdrawal, getSolvableInputs, solveGoal } from './goalSeek';
+export type { Goal, GoalKind, GoalSeekResult, SolveFor, SolveForInfo } from './goalSeek';
+export {
+  MAX_SWEEP_STEPS,
+  SENSITIVITY_INPUTS,
+  SENSITIVITY_METRICS,
+  getDefaultAxis,
+  getSensitivityInputs,
+  getSweepValues,
+  measureScenario,
+  runSensitivity,
+  runTornado
+} from './sensitivity';
+export type {
+  SensitivityCell,
+  SensitivityGrid,
+  SensitivityInput,
+  SensitivityInputInfo,
+  SensitivityMetric,
+  SensitivityOutcome,
+  SweepAxis,
+  TornadoBar,
+  TornadoResult
+} from './sensitivity';
+export {
+  LIBRARY_STORAGE_KEY,
+  MAX_COMPARED_SCENARIOS,
+  addToLibrary,
+  duplicateInLibrary,
+  loadLibrary,
+  removeFromLibrary,
+  renameInLibrary,
+  saveLibrary
+} from './library';
+export type { SavedScenario } from './library';
+export {
+  EXPORT_FORMAT,
+  calculationTable,
+  projectionTable,
+  scenarioHeader,
+  toCsv,
+  toJson,
+  toSpreadsheetXml
+} from './exporters';
+export type { ExportTable, ScenarioExport } from './exporters';
+export { parseContributionCsv, parseScenarioJson, splitCsvLine } from './importers';
+export type { ContributionImport, ImportError } from './importers';
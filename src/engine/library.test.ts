@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import {
+  LIBRARY_STORAGE_KEY,
+  addToLibrary,
+  duplicateInLibrary,
+  loadLibrary,
+  removeFromLibrary,
+  renameInLibrary,
+  saveLibrary
+} from './library';
+import { DEFAULT_SCENARIO } from './scenario';
+
+const createStorage = (initial: Record<string, string> = {}) => {
+  const data = new Map(Object.entries(initial));
+  return {
+    getItem: (key: string) => data.get(key) ?? null,
+    setItem: (key: string, value: string) => { data.set(key, value); }
+  };
+};
+
+describe('scenario library', () => {
+  it('adds, renames, duplicates and removes entries', () => {
+    let library = addToLibrary([], '  Retirement  ', DEFAULT_SCENARIO);
+    library = addToLibrary(library, 'House', { ...DEFAULT_SCENARIO, investmentAmount: 5000 });
+    expect(library.map((e) => e.name)).toEqual(['Retirement', 'House']);
+
+    const [retirement, house] = library;
+    library = renameInLibrary(library, retirement.id, 'Early Retirement');
+    library = renameInLibrary(library, house.id, '   ');
+    expect(library.map((e) => e.name)).toEqual(['Early Retirement', 'House']);
+
+    library = duplicateInLibrary(library, retirement.id);
+    expect(library.map((e) => e.name)).toEqual(['Early Retirement', 'Early Retirement (copy)', 'House']);
+    expect(library[1].id).not.toBe(retirement.id);
+    expect(library[1].scenario).toEqual(library[0].scenario);
+    expect(library[1].scenario).not.toBe(library[0].scenario);
+
+    library = removeFromLibrary(library, retirement.id);
+    expect(library.map((e) => e.name)).toEqual(['Early Retirement (copy)', 'House']);
+  });
+
+  it('round-trips through storage', () => {
+    const storage = createStorage();
+    const library = addToLibrary([], 'Plan', { ...DEFAULT_SCENARIO, roiPercentage: 6 });
+    saveLibrary(storage, library);
+    expect(loadLibrary(storage)).toEqual(library);
+  });
+
+  it('ignores corrupt storage and repairs invalid scenario fields', () => {
+    expect(loadLibrary(createStorage({ [LIBRARY_STORAGE_KEY]: 'not json' }))).toEqual([]);
+    expect(loadLibrary(createStorage({ [LIBRARY_STORAGE_KEY]: '{}' }))).toEqual([]);
+
+    const storage = createStorage({
+      [LIBRARY_STORAGE_KEY]: JSON.stringify([
+        { id: 'a', name: 'Old', savedAt: '2025-01-01T00:00:00.000Z', scenario: { investmentAmount: 'lots', roiPercentage: 8 } },
+        { name: 'missing id' }
+      ])
+    });
+    const [entry, ...rest] = loadLibrary(storage);
+    expect(rest).toEqual([]);
+    expect(entry.scenario).toEqual({ ...DEFAULT_SCENARIO, roiPercentage: 8 });
+  });
+});
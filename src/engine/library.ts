@@ -0,0 +1,60 @@
+import { sanitizeScenario } from './scenario';
+import { createId } from './storage';
+import type { KeyValueStorage } from './storage';
+import type { Scenario } from './types';
+
+export interface SavedScenario {
+  id: string;
+  name: string;
+  savedAt: string;  // ISO timestamp
+  scenario: Scenario;
+}
+
+export const LIBRARY_STORAGE_KEY = 'wealth-projector:scenarios';
+export const MAX_COMPARED_SCENARIOS = 4;
+
+// Stored scenarios are re-validated so entries from older versions still load
+export const loadLibrary = (storage: KeyValueStorage): SavedScenario[] => {
+  try {
+    const raw = JSON.parse(storage.getItem(LIBRARY_STORAGE_KEY) ?? '[]');
+    if (!Array.isArray(raw)) return [];
+    return raw
+      .filter((entry) => entry && typeof entry.id === 'string' && typeof entry.name === 'string')
+      .map((entry) => ({
+        id: entry.id,
+        name: entry.name,
+        savedAt: typeof entry.savedAt === 'string' ? entry.savedAt : new Date(0).toISOString(),
+        scenario: sanitizeScenario(entry.scenario).scenario
+      }));
+  } catch {
+    return [];
+  }
+};
+
+export const saveLibrary = (storage: KeyValueStorage, library: SavedScenario[]) => {
+  storage.setItem(LIBRARY_STORAGE_KEY, JSON.stringify(library));
+};
+
+export const addToLibrary = (library: SavedScenario[], name: string, scenario: Scenario): SavedScenario[] => [
+  ...library,
+  { id: createId(), name: name.trim() || 'Untitled', savedAt: new Date().toISOString(), scenario: structuredClone(scenario) }
+];
+
+export const renameInLibrary = (library: SavedScenario[], id: string, name: string): SavedScenario[] =>
+  library.map((entry) => (entry.id === id ? { ...entry, name: name.trim() || entry.name } : entry));
+
+export const duplicateInLibrary = (library: SavedScenario[], id: string): SavedScenario[] => {
+  const index = library.findIndex((entry) => entry.id === id);
+  if (index === -1) return library;
+  const copy: SavedScenario = {
+    ...library[index],
+    id: createId(),
+    name: `${library[index].name} (copy)`,
+    savedAt: new Date().toISOString(),
+    scenario: structuredClone(library[index].scenario)
+  };
+  return [...library.slice(0, index + 1), copy, ...library.slice(index + 1)];
+};
+
+export const removeFromLibrary = (library: SavedScenario[], id: string): SavedScenario[] =>
+  library.filter((entry) => entry.id !== id);
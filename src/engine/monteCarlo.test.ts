@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import { createRng, percentile, runMonteCarlo, toRealBands } from './monteCarlo';
+import { projectFuture } from './projections';
+import type { MonteCarloInputs } from './monteCarlo';
+
+const baseInputs: MonteCarloInputs = {
+  investmentAmount: 1000,
+  roiPercentage: 8,
+  inflationRate: 3,
+  projectionFrequency: 'yearly',
+  projectionDuration: 10,
+  reinvestmentStrategy: 'all-in',
+  levelUpAmount: 50,
+  salaryAmount: 100,
+  customTargetAmount: 5000,
+  accumulatedValue: 1000,
+  expectedReturn: 8,
+  volatility: 15,
+  simulations: 500,
+  seed: 42
+};
+
+describe('createRng', () => {
+  it('is reproducible for the same seed', () => {
+    const a = createRng(7);
+    const b = createRng(7);
+    const c = createRng(8);
+    const seqA = [a(), a(), a()];
+    expect([b(), b(), b()]).toEqual(seqA);
+    expect([c(), c(), c()]).not.toEqual(seqA);
+    seqA.forEach((n) => {
+      expect(n).toBeGreaterThanOrEqual(0);
+      expect(n).toBeLessThan(1);
+    });
+  });
+});
+
+describe('percentile', () => {
+  it('interpolates between ranks', () => {
+    expect(percentile([1, 2, 3, 4, 5], 0.5)).toBe(3);
+    expect(percentile([0, 10], 0.1)).toBe(1);
+    expect(percentile([], 0.5)).toBe(0);
+  });
+});
+
+describe('runMonteCarlo', () => {
+  it('returns the same result for the same seed', () => {
+    expect(runMonteCarlo(baseInputs)).toEqual(runMonteCarlo(baseInputs));
+  });
+
+  it('collapses to the deterministic projection at zero volatility', () => {
+    const result = runMonteCarlo({ ...baseInputs, volatility: 0, simulations: 20 });
+    const deterministic = projectFuture(baseInputs);
+    result.bands.forEach((band, i) => {
+      expect(band.p10).toBe(deterministic[i].endValue);
+      expect(band.p50).toBe(deterministic[i].endValue);
+      expect(band.p90).toBe(deterministic[i].endValue);
+    });
+    expect(result.probabilityBelowPrincipal).toBe(0);
+    expect(result.probabilityOfDepletion).toBe(0);
+  });
+
+  it('centres the paths on the compounded rate', () => {
+    const inputs = { ...baseInputs, compounding: 'monthly' as const };
+    const result = runMonteCarlo({ ...inputs, volatility: 0, simulations: 5 });
+    const deterministic = projectFuture(inputs);
+    expect(result.bands.map((band) => band.p50)).toEqual(deterministic.map((row) => row.endValue));
+    expect(deterministic[9].endValue).toBeGreaterThan(projectFuture({ ...baseInputs, compounding: 'annual' })[9].endValue);
+  });
+
+  it('orders the percentile bands', () => {
+    const { bands } = runMonteCarlo(baseInputs);
+    expect(bands).toHaveLength(10);
+    bands.forEach((band) => {
+      expect(band.p10).toBeLessThanOrEqual(band.p50);
+      expect(band.p50).toBeLessThanOrEqual(band.p90);
+    });
+    expect(bands[9].p90 - bands[9].p10).toBeGreaterThan(0);
+  });
+
+  it('deflates the bands like the projection rows', () => {
+    const inputs = { ...baseInputs, enableInflation: true, elapsedYears: 1 };
+    const { bands } = runMonteCarlo({ ...inputs, volatility: 0, simulations: 5 });
+    const real = toRealBands(bands, inputs);
+    const rows = projectFuture(inputs);
+    expect(real.map((band) => band.p50)).toEqual(rows.map((row) => Math.round(row.endValue * row.deflator!)));
+  });
+
+  it('measures depletion under take-salary even for other strategies', () => {
+    const result = runMonteCarlo({ ...baseInputs, salaryAmount: 250 });
+    expect(result.probabilityOfDepletion).toBeGreaterThan(0);
+    expect(result.probabilityOfDepletion).toBeLessThanOrEqual(1);
+
+    const safe = runMonteCarlo({ ...baseInputs, salaryAmount: 1 });
+    expect(safe.probabilityOfDepletion).toBe(0);
+  });
+});
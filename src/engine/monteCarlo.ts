@@ -0,0 +1,124 @@
+import { projectFuture } from './projections';
+import { DEFAULT_COMPOUNDING, getDeflator, getPeriodRate } from './rates';
+import { getPeriodsPerYear } from './schedule';
+import type { ProjectionInputs } from './types';
+
+export interface MonteCarloInputs extends ProjectionInputs {
+  expectedReturn: number;   // Annual expected return (%)
+  volatility: number;       // Annual standard deviation (%)
+  simulations: number;
+  seed: number;
+}
+
+export interface PercentileBand {
+  period: number;
+  p10: number;
+  p50: number;
+  p90: number;
+}
+
+export interface MonteCarloResult {
+  bands: PercentileBand[];
+  probabilityBelowPrincipal: number;  // Share of paths ending below the starting balance
+  probabilityOfDepletion: number;     // Share of 'take-salary' paths that hit $0
+  simulations: number;
+}
+
+// Mulberry32: small, fast and good enough for reproducible simulations
+export const createRng = (seed: number): (() => number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Standard normal sample via Box-Muller
+export const sampleNormal = (rng: () => number): number => {
+  const u1 = 1 - rng(); // (0, 1] so log() stays finite
+  const u2 = rng();
+  return Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+};
+
+// Linear interpolation between closest ranks of an ascending array
+export const percentile = (sorted: number[], p: number): number => {
+  if (sorted.length === 0) return 0;
+  const index = (sorted.length - 1) * p;
+  const lower = Math.floor(index);
+  const upper = Math.ceil(index);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (index - lower);
+};
+
+// Run many randomized return paths through the same strategy logic as projectFuture
+export const runMonteCarlo = (inputs: MonteCarloInputs): MonteCarloResult => {
+  const { expectedReturn, volatility, simulations, seed, ...projectionInputs } = inputs;
+  const periods = projectionInputs.projectionDuration;
+  const periodsPerYear = getPeriodsPerYear(projectionInputs.projectionFrequency, projectionInputs.businessDays);
+  const meanPerPeriod = getPeriodRate(expectedReturn, projectionInputs.compounding ?? DEFAULT_COMPOUNDING, periodsPerYear);
+  const sdPerPeriod = volatility / 100 / Math.sqrt(periodsPerYear);
+
+  // The projections start from the accumulated balance when they carry on from it
+  const principal = projectionInputs.continueFromAccumulation ? projectionInputs.accumulatedValue : projectionInputs.investmentAmount;
+  const rng = createRng(seed);
+  const valuesByPeriod: number[][] = Array.from({ length: periods }, () => []);
+  let endedBelowPrincipal = 0;
+  let depleted = 0;
+
+  for (let s = 0; s < simulations; s++) {
+    // A return below -100% would mean owing more than the balance
+    const periodRates = Array.from({ length: periods }, () =>
+      Math.max(-1, meanPerPeriod + sdPerPeriod * sampleNormal(rng))
+    );
+
+    const path = projectFuture({ ...projectionInputs, roiPercentage: expectedReturn, periodRates });
+    path.forEach((row, i) => valuesByPeriod[i].push(row.endValue));
+
+    const finalValue = path[path.length - 1]?.endValue ?? principal;
+    if (finalValue < principal) endedBelowPrincipal++;
+
+    // Depletion is always measured under 'take-salary' on the same returns
+    const salaryPath = projectionInputs.reinvestmentStrategy === 'take-salary'
+      ? path
+      : projectFuture({
+          ...projectionInputs,
+          roiPercentage: expectedReturn,
+          reinvestmentStrategy: 'take-salary',
+          periodRates
+        });
+    if (salaryPath.some((row) => row.endValue <= 0)) depleted++;
+  }
+
+  const bands = valuesByPeriod.map((values, i) => {
+    const sorted = [...values].sort((a, b) => a - b);
+    return {
+      period: i + 1,
+      p10: Math.round(percentile(sorted, 0.1)),
+      p50: Math.round(percentile(sorted, 0.5)),
+      p90: Math.round(percentile(sorted, 0.9))
+    };
+  });
+
+  return {
+    bands,
+    probabilityBelowPrincipal: simulations > 0 ? endedBelowPrincipal / simulations : 0,
+    probabilityOfDepletion: simulations > 0 ? depleted / simulations : 0,
+    simulations
+  };
+};
+
+// The bands in today's money, deflated to the end of each period like the projection rows
+export const toRealBands = (bands: PercentileBand[], inputs: ProjectionInputs): PercentileBand[] => {
+  const periodsPerYear = getPeriodsPerYear(inputs.projectionFrequency, inputs.businessDays);
+  return bands.map((band) => {
+    const deflator = getDeflator(inputs.inflationRate, (inputs.elapsedYears ?? 0) + band.period / periodsPerYear);
+    return {
+      period: band.period,
+      p10: Math.round(band.p10 * deflator),
+      p50: Math.round(band.p50 * deflator),
+      p90: Math.round(band.p90 * deflator)
+    };
+  });
+};
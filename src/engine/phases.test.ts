@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { describePhase, hasPlan, isPhaseTriggered } from './phases';
+import { parseFieldValue } from './scenario';
+import type { PlanPhase } from './types';
+
+const format = (n: number) => `$${n.toLocaleString('en-US')}`;
+
+describe('isPhaseTriggered', () => {
+  it('fires from the given period on', () => {
+    const phase: PlanPhase = { id: 'p', trigger: 'period', period: 3, strategy: 'all-in', amount: 0 };
+    expect([1, 2, 3, 4].map((period) => isPhaseTriggered(phase, period, null, 0))).toEqual([false, false, true, true]);
+  });
+
+  it('fires for the first period that begins on or after the date', () => {
+    const phase: PlanPhase = { id: 'p', trigger: 'date', date: '2030-01-01', strategy: 'all-in', amount: 0 };
+    expect(isPhaseTriggered(phase, 1, Date.UTC(2029, 11, 31), 0)).toBe(false);
+    expect(isPhaseTriggered(phase, 1, Date.UTC(2030, 0, 1), 0)).toBe(true);
+    expect(isPhaseTriggered(phase, 1, null, 0)).toBe(false);
+  });
+
+  it('fires once the balance reaches the target', () => {
+    const phase: PlanPhase = { id: 'p', trigger: 'balance', balance: 500000, strategy: 'take-salary', amount: 2000 };
+    expect(isPhaseTriggered(phase, 1, null, 499999)).toBe(false);
+    expect(isPhaseTriggered(phase, 1, null, 500000)).toBe(true);
+  });
+});
+
+describe('plan settings', () => {
+  it('needs to be enabled and have phases', () => {
+    const phase: PlanPhase = { id: 'p', trigger: 'period', period: 2, strategy: 'all-in', amount: 0 };
+    expect(hasPlan({ enabled: true, phases: [phase] })).toBe(true);
+    expect(hasPlan({ enabled: false, phases: [phase] })).toBe(false);
+    expect(hasPlan({ enabled: true, phases: [] })).toBe(false);
+    expect(hasPlan(undefined)).toBe(false);
+  });
+
+  it('describes each phase in plain language', () => {
+    expect(describePhase({ id: 'p', trigger: 'period', period: 11, strategy: 'all-in', amount: 0 }, 'Year', format))
+      .toBe('From Year 11: All In');
+    expect(describePhase({ id: 'p', trigger: 'balance', balance: 500000, strategy: 'take-salary', amount: 2000 }, 'Year', format))
+      .toBe('Once the balance reaches $500,000: Take Salary (salary amount $2,000)');
+    expect(describePhase({ id: 'p', trigger: 'date', date: '2036-01-01', strategy: 'level-up', amount: 50 }, 'Year', format))
+      .toBe('From Jan 1, 2036: Level Up (fixed extra amount $50)');
+  });
+
+  it('keeps only the field of each trigger when parsed from a share link', () => {
+    const raw = JSON.stringify([{ trigger: 'balance', balance: 1000, period: 4, strategy: 'all-in', amount: 0 }]);
+    expect(parseFieldValue({ kind: 'phases' }, raw)).toEqual([
+      { id: 'phase-1', trigger: 'balance', balance: 1000, strategy: 'all-in', amount: 0 }
+    ]);
+    expect(parseFieldValue({ kind: 'phases' }, '[{"trigger":"period","strategy":"all-in","amount":0}]')).toBeUndefined();
+    expect(parseFieldValue({ kind: 'phases' }, '[{"trigger":"period","period":2,"strategy":"moon","amount":0}]')).toBeUndefined();
+  });
+});
@@ -0,0 +1,53 @@
+import { formatPeriodDate } from './schedule';
+import { STRATEGIES } from './strategies';
+import type { PhaseTrigger, PlanPhase, PlanSettings, ReinvestmentStrategy } from './types';
+
+export const PHASE_TRIGGERS: Record<PhaseTrigger, string> = {
+  'period': 'At period',
+  'date': 'On date',
+  'balance': 'When balance reaches'
+};
+
+// The strategy parameter a phase's amount stands for, or null if it takes none
+export const PHASE_AMOUNTS: Partial<Record<ReinvestmentStrategy, string>> = {
+  'level-up': 'Fixed Extra Amount',
+  'take-salary': 'Salary Amount',
+  'drawdown': 'First Withdrawal',
+  'custom': 'Target Amount'
+};
+
+export const hasPlan = (plan?: PlanSettings): plan is PlanSettings =>
+  plan?.enabled === true && plan.phases.length > 0;
+
+// Has the phase's trigger fired by the start of `period`? `periodStart` is the time the
+// period begins (null without a calendar, so date triggers never fire), `balance` the
+// balance it starts with.
+export const isPhaseTriggered = (
+  phase: PlanPhase,
+  period: number,
+  periodStart: number | null,
+  balance: number
+): boolean => {
+  switch (phase.trigger) {
+    case 'period':
+      return phase.period !== undefined && period >= phase.period;
+    case 'date':
+      return periodStart !== null && phase.date !== undefined && periodStart >= new Date(phase.date).getTime();
+    case 'balance':
+      return phase.balance !== undefined && balance >= phase.balance;
+  }
+};
+
+export const describePhase = (
+  phase: PlanPhase,
+  periodLabel: string,
+  formatNum: (n: number) => string
+): string => {
+  const start = phase.trigger === 'period'
+    ? `From ${periodLabel} ${phase.period}`
+    : phase.trigger === 'date'
+      ? `From ${phase.date ? formatPeriodDate(phase.date, 'daily') : 'a date'}`
+      : `Once the balance reaches ${formatNum(phase.balance ?? 0)}`;
+  const amount = PHASE_AMOUNTS[phase.strategy];
+  return `${start}: ${STRATEGIES[phase.strategy].name}${amount ? ` (${amount.toLowerCase()} ${formatNum(phase.amount)})` : ''}`;
+};
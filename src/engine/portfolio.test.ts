@@ -0,0 +1,137 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createPortfolioTracker,
+  getExpectedReturn,
+  getPortfolioReturn,
+  getPortfolioVolatility,
+  normalizeWeights
+} from './portfolio';
+import { calculateGrowth } from './calculations';
+import { projectFuture } from './projections';
+import type { Asset, PortfolioSettings, ProjectionInputs } from './types';
+
+const stocks: Asset = { id: 'stocks', name: 'Stocks', roi: 10, volatility: 15, weight: 60 };
+const bonds: Asset = { id: 'bonds', name: 'Bonds', roi: 4, volatility: 5, weight: 40 };
+
+const portfolio = (overrides: Partial<PortfolioSettings> = {}): PortfolioSettings => ({
+  enabled: true,
+  assets: [stocks, bonds],
+  rebalance: 'never',
+  threshold: 5,
+  ...overrides
+});
+
+describe('portfolio figures', () => {
+  it('scales weights that do not add up to 100', () => {
+    expect(normalizeWeights([{ ...stocks, weight: 30 }, { ...bonds, weight: 10 }])).toEqual([0.75, 0.25]);
+    expect(normalizeWeights([{ ...stocks, weight: 0 }, { ...bonds, weight: 0 }])).toEqual([0.5, 0.5]);
+  });
+
+  it('blends the expected return and volatility of the target allocation', () => {
+    expect(getPortfolioReturn([stocks, bonds])).toBeCloseTo(7.6);
+    expect(getPortfolioVolatility([stocks, bonds])).toBeCloseTo(Math.sqrt(9 * 9 + 2 * 2));
+  });
+
+  it('only replaces the ROI when the portfolio is on and has assets', () => {
+    expect(getExpectedReturn(5, portfolio())).toBeCloseTo(7.6);
+    expect(getExpectedReturn(5, portfolio({ enabled: false }))).toBe(5);
+    expect(getExpectedReturn(5, portfolio({ assets: [] }))).toBe(5);
+  });
+});
+
+describe('createPortfolioTracker', () => {
+  it('lets holdings drift without rebalancing', () => {
+    const tracker = createPortfolioTracker(portfolio(), [0.1, 0.04], 1);
+    expect(tracker.rate(0, 1000)).toBeCloseTo(0.076);
+    expect(tracker.settle(1000, 1076, 1)).toEqual([660, 416]);
+    // Stocks are now a bigger share, so the blend rises
+    expect(tracker.rate(1076)).toBeCloseTo((660 * 0.1 + 416 * 0.04) / 1076);
+  });
+
+  it('resets to the target weights once a year when rebalancing annually', () => {
+    const tracker = createPortfolioTracker(portfolio({ rebalance: 'annually' }), [0.1, 0.04], 1);
+    tracker.rate(0, 1000);
+    expect(tracker.settle(1000, 1076, 1)).toEqual([646, 430]);
+  });
+
+  it('rebalances only past the drift threshold', () => {
+    const tracker = createPortfolioTracker(portfolio({ rebalance: 'threshold', threshold: 2 }), [0.1, 0.04], 1);
+    tracker.rate(0, 1000);
+    // 660 / 1076 = 61.3%, within 2 points of 60%
+    expect(tracker.settle(1000, 1076, 1)).toEqual([660, 416]);
+    tracker.rate(1076);
+    const holdings = tracker.settle(0, 1142, 2);
+    // 726 / 1142 = 63.6%, past the threshold
+    expect(holdings[0] / (holdings[0] + holdings[1])).toBeCloseTo(0.6, 2);
+  });
+
+  it('takes withdrawals and fees out of every holding pro rata', () => {
+    const tracker = createPortfolioTracker(portfolio(), [0.1, 0.04], 1);
+    tracker.rate(0, 1000);
+    tracker.settle(1000, 1076, 1);
+    tracker.rate(1076);
+    const [a, b] = tracker.settle(0, 538, 2);
+    expect(a + b).toBeCloseTo(538, 0);
+    expect(a / b).toBeCloseTo((660 * 1.1) / (416 * 1.04), 2);
+  });
+});
+
+describe('engines with a portfolio', () => {
+  it('matches a single ROI when the portfolio holds one asset', () => {
+    const inputs = {
+      investmentAmount: 100,
+      roiPercentage: 8,
+      duration: 24,
+      frequency: 'monthly' as const,
+      startDate: '2026-01-01',
+      showTotal: true,
+      enableInflation: false,
+      inflationRate: 3
+    };
+    const single = calculateGrowth(inputs);
+    const rows = calculateGrowth({ ...inputs, roiPercentage: 0, portfolio: portfolio({ assets: [{ ...stocks, roi: 8 }] }) });
+    expect(rows.map(({ assetValues, ...row }) => row)).toEqual(single);
+    expect(rows[24].assetValues).toEqual([rows[24].currentValue]);
+  });
+
+  it('breaks every projection end value down by asset', () => {
+    const inputs: ProjectionInputs = {
+      investmentAmount: 1000,
+      roiPercentage: 0,
+      inflationRate: 3,
+      compounding: 'annual',
+      projectionFrequency: 'yearly',
+      projectionDuration: 5,
+      reinvestmentStrategy: 'level-up',
+      levelUpAmount: 100,
+      salaryAmount: 0,
+      customTargetAmount: 0,
+      accumulatedValue: 1000,
+      portfolio: portfolio({ rebalance: 'annually' })
+    };
+    const rows = projectFuture(inputs);
+    expect(rows[0].endValue).toBe(1076);
+    for (const row of rows) {
+      const total = row.assetValues!.reduce((sum, value) => sum + value, 0);
+      expect(Math.abs(total - row.endValue)).toBeLessThanOrEqual(1);
+    }
+  });
+
+  it('grows each asset at its own rate when never rebalanced', () => {
+    const rows = projectFuture({
+      investmentAmount: 1000,
+      roiPercentage: 0,
+      inflationRate: 3,
+      compounding: 'annual',
+      projectionFrequency: 'yearly',
+      projectionDuration: 10,
+      reinvestmentStrategy: 'all-in',
+      levelUpAmount: 0,
+      salaryAmount: 0,
+      customTargetAmount: 0,
+      accumulatedValue: 1000,
+      portfolio: portfolio()
+    });
+    expect(rows[9].assetValues).toEqual([Math.round(600 * Math.pow(1.1, 10)), Math.round(400 * Math.pow(1.04, 10))]);
+  });
+});
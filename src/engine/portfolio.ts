@@ -0,0 +1,81 @@
+import type { Asset, PortfolioSettings } from './types';
+
+// Chart colour for each asset, in order (wraps around for longer lists)
+export const ASSET_COLORS = ['#6366f1', '#f59e0b', '#10b981', '#ef4444', '#0ea5e9', '#a855f7', '#84cc16', '#ec4899'];
+
+export const hasPortfolio = (portfolio?: PortfolioSettings): portfolio is PortfolioSettings =>
+  portfolio !== undefined && portfolio.enabled && portfolio.assets.length > 0;
+
+// Target weights as fractions that add up to 1
+export const normalizeWeights = (assets: Asset[]): number[] => {
+  const total = assets.reduce((sum, asset) => sum + Math.max(0, asset.weight), 0);
+  return assets.map((asset) => (total > 0 ? Math.max(0, asset.weight) / total : 1 / assets.length));
+};
+
+// Expected annual return of the target allocation (%)
+export const getPortfolioReturn = (assets: Asset[]): number => {
+  const weights = normalizeWeights(assets);
+  return assets.reduce((sum, asset, i) => sum + asset.roi * weights[i], 0);
+};
+
+// The return a whole-balance figure should use: the portfolio blend when one is active
+export const getExpectedReturn = (roiPercentage: number, portfolio?: PortfolioSettings): number =>
+  hasPortfolio(portfolio) ? getPortfolioReturn(portfolio.assets) : roiPercentage;
+
+// Annual volatility of the target allocation (%), treating the assets as uncorrelated
+export const getPortfolioVolatility = (assets: Asset[]): number => {
+  const weights = normalizeWeights(assets);
+  return Math.sqrt(assets.reduce((sum, asset, i) => sum + Math.pow((asset.volatility ?? 0) * weights[i], 2), 0));
+};
+
+export const splitByWeights = (assets: Asset[], amount: number): number[] =>
+  normalizeWeights(assets).map((weight) => amount * weight);
+
+export interface PortfolioTracker {
+  rate: (balance: number, cash?: number) => number;
+  settle: (cash: number, endValue: number, period: number) => number[];
+}
+
+// Follows each asset through a projection loop. The loop still owns the balance:
+// `rate` gives it the blended return for the period, and `settle` grows every holding
+// at its own rate, then scales them to the loop's end value so fees, tax and
+// withdrawals come out pro rata. `assetRates` are per-period rates.
+export const createPortfolioTracker = (
+  portfolio: PortfolioSettings,
+  assetRates: number[],
+  periodsPerYear: number
+): PortfolioTracker => {
+  const weights = normalizeWeights(portfolio.assets);
+  let holdings = weights.map(() => 0);
+
+  const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+  const scaleTo = (values: number[], target: number) => {
+    const total = sum(values);
+    return total > 0 ? values.map((value) => value * target / total) : weights.map((weight) => weight * target);
+  };
+  const withCash = (cash: number) => holdings.map((value, i) => value + Math.max(0, cash) * weights[i]);
+
+  return {
+    // Blended per-period rate of the current holdings plus new cash at the target weights
+    rate: (balance, cash = 0) => {
+      holdings = scaleTo(holdings, balance);
+      const invested = withCash(cash);
+      const total = sum(invested);
+      const mix = total > 0 ? invested.map((value) => value / total) : weights;
+      return mix.reduce((rate, share, i) => rate + share * assetRates[i], 0);
+    },
+
+    settle: (cash, endValue, period) => {
+      holdings = scaleTo(withCash(cash).map((value, i) => value * (1 + assetRates[i])), Math.max(0, endValue));
+
+      const total = sum(holdings);
+      const drift = total > 0 ? Math.max(...holdings.map((value, i) => Math.abs(value / total - weights[i]))) : 0;
+      const rebalance = portfolio.rebalance === 'annually'
+        ? period % periodsPerYear === 0
+        : portfolio.rebalance === 'threshold' && drift * 100 > portfolio.threshold;
+      if (rebalance) holdings = weights.map((weight) => weight * total);
+
+      return holdings.map(Math.round);
+    }
+  };
+};
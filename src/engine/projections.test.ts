@@ -0,0 +1,520 @@
+import { describe, expect, it } from 'vitest';
+import { calculatePerPeriodInvestment, projectFuture } from './projections';
+import { calculateGrowth } from './calculations';
+import { getPeriodRate, toRealProjections } from './rates';
+import { PROJECTION_PERIODS_PER_YEAR, STRATEGIES } from './strategies';
+import type {
+  Frequency,
+  PlanPhase,
+  ProjectionData,
+  ProjectionFrequency,
+  ProjectionInputs,
+  ReinvestmentStrategy
+} from './types';
+
+const baseInputs: ProjectionInputs = {
+  investmentAmount: 1000,
+  roiPercentage: 10,
+  inflationRate: 3,
+  compounding: 'annual',  // A yearly period then grows by exactly the ROI
+  projectionFrequency: 'yearly',
+  projectionDuration: 3,
+  reinvestmentStrategy: 'all-in',
+  levelUpAmount: 50,
+  salaryAmount: 100,
+  customTargetAmount: 5000,
+  accumulatedValue: 1000
+};
+
+const run = (strategy: ReinvestmentStrategy, overrides: Partial<ProjectionInputs> = {}) =>
+  projectFuture({ ...baseInputs, reinvestmentStrategy: strategy, ...overrides });
+
+// Only the columns that change between strategies, to keep the tables readable
+const summarize = (rows: ProjectionData[]) =>
+  rows.map(({ newCash, profit, cashOut, endValue }) => [newCash, profit, cashOut, endValue]);
+
+describe('projectFuture', () => {
+  it('cashes in the investment amount and grows it in period 1 for every strategy', () => {
+    for (const strategy of Object.keys(STRATEGIES) as ReinvestmentStrategy[]) {
+      const [first] = run(strategy);
+      expect(first).toEqual({
+        period: 1,
+        startValue: 0,
+        newCash: 1000,
+        totalInvested: 1000,
+        profit: 100,
+        afterGrowth: 1100,
+        cashOut: 0,
+        endValue: 1100
+      });
+    }
+  });
+
+  it('returns no rows for a zero-length projection', () => {
+    expect(run('all-in', { projectionDuration: 0 })).toEqual([]);
+  });
+
+  it('grows at the effective annual rate of the compounding convention', () => {
+    const finalValue = (compounding?: ProjectionInputs['compounding']) =>
+      run('all-in', { compounding, projectionDuration: 1 })[0].endValue;
+    // Rows are rounded to whole amounts
+    expect(finalValue('annual')).toBe(1100);
+    expect(finalValue('monthly')).toBe(Math.round(1000 * Math.pow(1 + 0.1 / 12, 12)));
+    expect(finalValue('continuous')).toBe(Math.round(1000 * Math.exp(0.1)));
+    // Monthly periods under monthly compounding split the rate the same way as no convention
+    const monthly = (compounding?: ProjectionInputs['compounding']) =>
+      run('all-in', { compounding, projectionFrequency: 'monthly', projectionDuration: 12 })[11].endValue;
+    expect(monthly('monthly')).toBe(monthly(undefined));
+    expect(monthly('annual')).toBe(1100);
+  });
+
+  it('2x matches the balance with fresh cash', () => {
+    expect(summarize(run('2x'))).toEqual([
+      [1000, 100, 0, 1100],
+      [1100, 220, 0, 2420],
+      [2420, 484, 0, 5324]
+    ]);
+  });
+
+  it('repeat adds the original investment each period', () => {
+    expect(summarize(run('repeat'))).toEqual([
+      [1000, 100, 0, 1100],
+      [1000, 210, 0, 2310],
+      [1000, 331, 0, 3641]
+    ]);
+  });
+
+  it('all-in compounds with no cash flows', () => {
+    expect(summarize(run('all-in'))).toEqual([
+      [1000, 100, 0, 1100],
+      [0, 110, 0, 1210],
+      [0, 121, 0, 1331]
+    ]);
+  });
+
+  it("double-down adds last period's profit", () => {
+    expect(summarize(run('double-down'))).toEqual([
+      [1000, 100, 0, 1100],
+      [100, 120, 0, 1320],
+      [120, 144, 0, 1584]
+    ]);
+  });
+
+  it('shield-value tops up by the inflation rate', () => {
+    expect(summarize(run('shield-value'))).toEqual([
+      [1000, 100, 0, 1100],
+      [33, 113, 0, 1246],
+      [37, 128, 0, 1412]
+    ]);
+  });
+
+  it('level-up adds a fixed amount', () => {
+    expect(summarize(run('level-up'))).toEqual([
+      [1000, 100, 0, 1100],
+      [50, 115, 0, 1265],
+      [50, 132, 0, 1447]
+    ]);
+  });
+
+  it('pay-yourself withdraws half of each period\'s growth', () => {
+    const rows = run('pay-yourself');
+    expect(summarize(rows)).toEqual([
+      [1000, 100, 0, 1100],
+      [0, 110, 55, 1155],
+      [0, 116, 58, 1213]
+    ]);
+    expect(rows[1].afterGrowth).toBe(1210);
+  });
+
+  it('capital-protect withdraws everything above the principal', () => {
+    expect(summarize(run('capital-protect'))).toEqual([
+      [1000, 100, 0, 1100],
+      [0, 110, 200, 1000],
+      [0, 100, 100, 1000]
+    ]);
+  });
+
+  it('take-salary withdraws a fixed amount after growth', () => {
+    expect(summarize(run('take-salary'))).toEqual([
+      [1000, 100, 0, 1100],
+      [0, 110, 100, 1110],
+      [0, 111, 100, 1121]
+    ]);
+  });
+
+  it('take-salary never withdraws more than the balance', () => {
+    expect(summarize(run('take-salary', { salaryAmount: 2000 }))).toEqual([
+      [1000, 100, 0, 1100],
+      [0, 110, 1210, 0],
+      [0, 0, 0, 0]
+    ]);
+  });
+
+  it('custom invests the solved per-period amount when the target is above the projected value', () => {
+    // Period 1 puts in the investment amount; the rest of the horizon is solved from there
+    const perPeriod = calculatePerPeriodInvestment(1100, 5000, 2, 0.1, 'yearly');
+    const rows = run('custom');
+    expect(perPeriod).toBeGreaterThan(0);
+    expect(rows[1].newCash).toBe(Math.round(perPeriod));
+    expect(rows[2].newCash).toBe(Math.round(perPeriod));
+    expect(rows[1].cashOut).toBe(0);
+    expect(rows[2].endValue).toBeGreaterThanOrEqual(5000);
+  });
+
+  it('custom solves from the carried-over balance when continuing', () => {
+    const perPeriod = calculatePerPeriodInvestment(2000, 5000, 3, 0.1, 'yearly');
+    const rows = run('custom', { continueFromAccumulation: true, accumulatedValue: 2000, accumulatedBasis: 2000 });
+    expect(rows[0].newCash).toBe(Math.round(perPeriod));
+    expect(rows[2].endValue).toBeGreaterThanOrEqual(5000);
+  });
+
+  it('custom withdraws when the target is below the projected value', () => {
+    const perPeriod = calculatePerPeriodInvestment(1100, 500, 2, 0.1, 'yearly');
+    const rows = run('custom', { customTargetAmount: 500 });
+    expect(perPeriod).toBeLessThan(0);
+    expect(rows[1].newCash).toBe(0);
+    expect(rows[1].cashOut).toBe(Math.round(-perPeriod));
+  });
+
+  it('built runs the rules of the built strategy', () => {
+    const builtStrategy = {
+      name: 'Profit recycler',
+      rules: [{ id: 'r1', kind: 'add-profit' as const, value: 100, every: 1 }]
+    };
+    expect(summarize(run('built', { builtStrategy }))).toEqual(summarize(run('double-down')));
+  });
+
+  it('built only applies a rule in every Nth period', () => {
+    const builtStrategy = {
+      name: 'Skim',
+      rules: [{ id: 'r1', kind: 'withdraw-above' as const, value: 1000, every: 2 }]
+    };
+    expect(summarize(run('built', { builtStrategy, projectionDuration: 4 }))).toEqual([
+      [1000, 100, 0, 1100],
+      [0, 110, 210, 1000],
+      [0, 100, 0, 1100],
+      [0, 110, 210, 1000]
+    ]);
+  });
+});
+
+describe('projectFuture with a multi-phase plan', () => {
+  const phase = (overrides: Partial<PlanPhase>): PlanPhase =>
+    ({ id: 'p', trigger: 'period', period: 3, strategy: 'all-in', amount: 0, ...overrides });
+
+  it('switches strategy and amount as each phase starts', () => {
+    const rows = run('level-up', {
+      projectionDuration: 5,
+      plan: {
+        enabled: true,
+        phases: [phase({ id: 'a', period: 3 }), phase({ id: 'b', period: 5, strategy: 'take-salary', amount: 200 })]
+      }
+    });
+    expect(summarize(rows)).toEqual([
+      [1000, 100, 0, 1100],
+      [50, 115, 0, 1265],
+      [0, 127, 0, 1392],
+      [0, 139, 0, 1531],
+      [0, 153, 200, 1484]
+    ]);
+    expect(rows.map((row) => [row.phase, row.strategy])).toEqual([
+      [0, 'level-up'], [0, 'level-up'], [1, 'all-in'], [1, 'all-in'], [2, 'take-salary']
+    ]);
+  });
+
+  it('starts a phase once the balance reaches its trigger', () => {
+    const rows = run('all-in', {
+      projectionDuration: 4,
+      plan: { enabled: true, phases: [phase({ trigger: 'balance', period: undefined, balance: 1200, strategy: 'capital-protect' })] }
+    });
+    expect(rows.map((row) => row.strategy)).toEqual(['all-in', 'all-in', 'capital-protect', 'capital-protect']);
+  });
+
+  it('starts a phase on a date when the projections have a calendar', () => {
+    const plan = { enabled: true, phases: [phase({ trigger: 'date', period: undefined, date: '2027-06-01' })] };
+    const rows = run('repeat', { startDate: '2026-01-01', plan });
+    expect(rows.map((row) => row.strategy)).toEqual(['repeat', 'repeat', 'all-in']);
+    expect(run('repeat', { plan }).map((row) => row.strategy)).toEqual(['repeat', 'repeat', 'repeat']);
+  });
+
+  it('solves a Custom phase for the periods it has left', () => {
+    const rows = run('all-in', {
+      projectionDuration: 4,
+      plan: { enabled: true, phases: [phase({ period: 3, strategy: 'custom', amount: 2000 })] }
+    });
+    const perPeriod = calculatePerPeriodInvestment(1210, 2000, 2, 0.1, 'yearly');
+    expect(rows.map((row) => row.newCash)).toEqual([1000, 0, Math.round(perPeriod), Math.round(perPeriod)]);
+  });
+
+  it('leaves the rows untouched when the plan is off', () => {
+    const plan = { enabled: false, phases: [phase({})] };
+    expect(run('level-up', { plan })).toEqual(run('level-up'));
+  });
+});
+
+describe('projectFuture with a drawdown rule', () => {
+  it('raises an inflation-indexed withdrawal every period', () => {
+    const rows = run('drawdown');
+    expect(summarize(rows)).toEqual([
+      [1000, 100, 0, 1100],
+      [0, 110, 100, 1110],
+      [0, 111, 103, 1118]
+    ]);
+    expect(rows.map((row) => row.plannedWithdrawal)).toEqual([undefined, 100, 103]);
+  });
+
+  it('withdraws a share of the balance under the percent-of-portfolio rule', () => {
+    const rows = run('drawdown', { drawdown: { rule: 'percent-of-portfolio', withdrawalRate: 4, guardrail: 20, adjustment: 10 } });
+    expect(summarize(rows)).toEqual([
+      [1000, 100, 0, 1100],
+      [0, 110, 48, 1162],
+      [0, 116, 51, 1227]
+    ]);
+  });
+
+  it('records what was planned when the balance runs short', () => {
+    const rows = run('drawdown', { salaryAmount: 2000 });
+    expect(rows[1].cashOut).toBe(1210);
+    expect(rows[1].plannedWithdrawal).toBe(2000);
+    expect(rows[1].endValue).toBe(0);
+  });
+});
+
+describe('projectFuture continuing from the accumulation phase', () => {
+  const carry = { continueFromAccumulation: true, accumulatedValue: 5000, accumulatedBasis: 4000 };
+
+  it('starts from the accumulated balance instead of cashing in the investment', () => {
+    const rows = run('all-in', carry);
+    expect(rows[0]).toMatchObject({ startValue: 5000, newCash: 0, endValue: 5500 });
+    expect(rows[2].endValue).toBe(Math.round(5000 * 1.1 ** 3));
+  });
+
+  it('runs the strategy from period 1', () => {
+    expect(run('take-salary', carry)[0]).toMatchObject({ cashOut: 100, endValue: 5400 });
+    expect(run('capital-protect', carry)[0]).toMatchObject({ cashOut: 1400, endValue: 4000 });
+  });
+
+  it('carries the cost basis into the capital gains tax', () => {
+    const tax = { enabled: true, account: 'taxable' as const, capitalGainsRate: 20, dividendYield: 0, dividendTaxRate: 0, incomeTaxRate: 30 };
+    const rows = run('take-salary', { ...carry, tax });
+    expect(rows[0].taxPaid).toBe(Math.round(100 * (1500 / 5500) * 0.2));
+  });
+});
+
+describe('projectFuture with timeline events', () => {
+  const noEvent = { cashFlow: 0, contributionFactor: 1, labels: [] };
+
+  it('grows a deposit with the period and takes a withdrawal out at the end', () => {
+    const rows = run('all-in', {
+      periodEvents: [noEvent, { cashFlow: 500, contributionFactor: 1, labels: ['Bonus'] }, { cashFlow: -300, contributionFactor: 1, labels: ['Car'] }]
+    });
+    expect(summarize(rows)).toEqual([
+      [1000, 100, 0, 1100],
+      [500, 160, 0, 1760],
+      [0, 176, 300, 1636]
+    ]);
+    expect(rows[1].events).toEqual(['Bonus']);
+    expect(rows[0].events).toBeUndefined();
+  });
+
+  it("scales the strategy's own cash in, but not the initial investment", () => {
+    const paused = { cashFlow: 0, contributionFactor: 0, labels: [] };
+    const raised = { cashFlow: 0, contributionFactor: 2, labels: [] };
+    expect(summarize(run('level-up', { periodEvents: [paused, paused, raised] }))).toEqual([
+      [1000, 100, 0, 1100],
+      [0, 110, 0, 1210],
+      [100, 131, 0, 1441]
+    ]);
+  });
+
+  it('never withdraws more than the balance', () => {
+    const rows = run('all-in', { periodEvents: [{ cashFlow: -5000, contributionFactor: 1, labels: [] }] });
+    expect(rows[0].cashOut).toBe(1100);
+    expect(rows[0].endValue).toBe(0);
+  });
+});
+
+describe('projectFuture with tax', () => {
+  const tax = {
+    enabled: true,
+    account: 'taxable' as const,
+    capitalGainsRate: 20,
+    dividendYield: 0,
+    dividendTaxRate: 0,
+    incomeTaxRate: 30
+  };
+
+  it('leaves the figures pre-tax when tax is disabled', () => {
+    const rows = run('take-salary', { tax: { ...tax, enabled: false } });
+    expect(rows).toEqual(run('take-salary'));
+    expect(rows[1].taxPaid).toBeUndefined();
+  });
+
+  it('charges capital gains on the gain share of each withdrawal', () => {
+    const rows = run('take-salary', { tax });
+    // Period 2: 1210 after growth against a 1000 basis, so 210/1210 of the salary is gain
+    const tax2 = 100 * (210 / 1210) * 0.2;
+    expect(rows[1].cashOut).toBe(100);
+    expect(rows[1].taxPaid).toBe(Math.round(tax2));
+    expect(rows[1].netCashOut).toBe(Math.round(100 - tax2));
+    expect(rows[1].endValue).toBe(1110);
+  });
+
+  it('taxes tax-deferred withdrawals in full and tax-free ones not at all', () => {
+    expect(run('take-salary', { tax: { ...tax, account: 'tax-deferred' } })[1].netCashOut).toBe(70);
+    expect(run('take-salary', { tax: { ...tax, account: 'tax-free' } })[1].netCashOut).toBe(100);
+  });
+
+  it('takes dividend tax out of the balance in a taxable account', () => {
+    const rows = run('all-in', { tax: { ...tax, dividendYield: 2, dividendTaxRate: 50 } });
+    expect(rows[0].taxPaid).toBe(10);
+    expect(rows[0].endValue).toBe(1090);
+    expect(rows[0].netCashOut).toBe(0);
+  });
+});
+
+describe('projectFuture with fees', () => {
+  const fees = { annualFee: 1, contributionFee: 0, withdrawalFee: 0 };
+
+  it('runs every strategy on the return net of the annual fee', () => {
+    const rows = run('all-in', { fees });
+    const net = 1.1 * 0.99;
+    expect(rows[2].endValue).toBe(Math.round(1000 * Math.pow(net, 3)));
+    expect(rows[0].feesPaid).toBe(11);
+    expect(run('capital-protect', { fees })[2].cashOut).toBe(Math.round(1000 * (net - 1)));
+  });
+
+  it('keeps the contribution fee out of the invested cash', () => {
+    const rows = run('level-up', { fees: { ...fees, annualFee: 0, contributionFee: 10 } });
+    expect(summarize(rows)).toEqual([
+      [1000, 100, 0, 1089],
+      [50, 114, 0, 1242],
+      [50, 129, 0, 1410]
+    ]);
+    expect(rows[1].feesPaid).toBe(10);
+  });
+
+  it('takes the withdrawal fee out of the cash you receive', () => {
+    const rows = run('take-salary', { fees: { ...fees, annualFee: 0, withdrawalFee: 2 } });
+    expect(rows[1].cashOut).toBe(100);
+    expect(rows[1].netCashOut).toBe(98);
+    expect(rows[1].endValue).toBe(1110);
+  });
+
+  it('grows the fee drag at the gross rate', () => {
+    const rows = run('all-in', { fees });
+    const without = run('all-in');
+    expect(rows[2].feeDrag).toBe(without[2].endValue - rows[2].endValue);
+  });
+});
+
+describe('projectFuture in real terms', () => {
+  it('adds a deflator that continues from the end of the accumulation phase', () => {
+    const rows = run('all-in', { enableInflation: true, elapsedYears: 1 });
+    expect(rows[0].deflator).toBeCloseTo(Math.pow(1.03, -2), 12);
+    expect(rows[2].deflator).toBeCloseTo(Math.pow(1.03, -4), 12);
+    expect(rows[2].endValue).toBe(run('all-in')[2].endValue);
+  });
+
+  it('deflates every amount of a row by its deflator', () => {
+    const rows = run('take-salary', { enableInflation: true });
+    const real = toRealProjections(rows);
+    expect(real[1]).toMatchObject({
+      startValue: Math.round(rows[1].startValue * rows[1].deflator!),
+      profit: Math.round(rows[1].profit * rows[1].deflator!),
+      cashOut: Math.round(rows[1].cashOut * rows[1].deflator!),
+      endValue: Math.round(rows[1].endValue * rows[1].deflator!)
+    });
+    expect(real[1].cashOut).toBeLessThan(rows[1].cashOut);
+    // Without inflation there is no deflator and nothing changes
+    expect(toRealProjections(run('take-salary'))).toEqual(run('take-salary'));
+  });
+});
+
+describe('projectFuture on a calendar', () => {
+  it('dates each row by the end of its period', () => {
+    const rows = run('all-in', { startDate: '2027-01-31', projectionFrequency: 'monthly', projectionDuration: 3 });
+    expect(rows.map((row) => row.date)).toEqual(['2027-02-28', '2027-03-31', '2027-04-30']);
+    expect(run('all-in')[0].date).toBeUndefined();
+  });
+
+  it('runs business-day periods on weekdays at a weekday rate', () => {
+    const rows = run('all-in', { startDate: '2026-01-02', projectionFrequency: 'daily', projectionDuration: 2, businessDays: true });
+    expect(rows.map((row) => row.date)).toEqual(['2026-01-05', '2026-01-06']);
+    expect(rows[0].endValue).toBe(Math.round(1000 * (1 + 0.1 / 260)));
+  });
+});
+
+describe('calculatePerPeriodInvestment', () => {
+  it('returns 0 without periods or a starting balance', () => {
+    expect(calculatePerPeriodInvestment(1000, 5000, 0, 0.1, 'yearly')).toBe(0);
+    expect(calculatePerPeriodInvestment(0, 5000, 10, 0.1, 'yearly')).toBe(0);
+  });
+
+  it('splits the gap evenly at a zero rate', () => {
+    expect(calculatePerPeriodInvestment(1000, 2000, 4, 0, 'monthly')).toBe(250);
+  });
+
+  it('solves the annuity so the target is reached exactly', () => {
+    for (const freq of Object.keys(PROJECTION_PERIODS_PER_YEAR) as ProjectionFrequency[]) {
+      const rate = 0.08 / PROJECTION_PERIODS_PER_YEAR[freq];
+      const contribution = calculatePerPeriodInvestment(1000, 10000, 24, 0.08, freq);
+      let balance = 1000;
+      for (let i = 0; i < 24; i++) {
+        balance = balance * (1 + rate) + contribution;
+      }
+      expect(balance).toBeCloseTo(10000, 6);
+    }
+  });
+});
+
+describe('Frequency × ProjectionFrequency', () => {
+  const frequencies: Frequency[] = ['once', 'daily', 'weekly', 'monthly'];
+  const projectionFrequencies = Object.keys(PROJECTION_PERIODS_PER_YEAR) as ProjectionFrequency[];
+
+  for (const frequency of frequencies) {
+    for (const projectionFrequency of projectionFrequencies) {
+      it(`${frequency} accumulation feeds ${projectionFrequency} projections`, () => {
+        const calculations = calculateGrowth({
+          investmentAmount: 1000,
+          roiPercentage: 12,
+          duration: 12,
+          frequency,
+          startDate: '2026-01-01',
+          showTotal: true,
+          enableInflation: false,
+          inflationRate: 3
+        });
+        const finalData = calculations[calculations.length - 1];
+        const periodsPerYear = PROJECTION_PERIODS_PER_YEAR[projectionFrequency];
+        const rate = getPeriodRate(12, 'annual', periodsPerYear);
+
+        const rows = projectFuture({
+          ...baseInputs,
+          roiPercentage: 12,
+          projectionFrequency,
+          projectionDuration: 6,
+          reinvestmentStrategy: 'custom',
+          customTargetAmount: finalData.currentValue * 2,
+          accumulatedValue: finalData.currentValue
+        });
+        const perPeriod = calculatePerPeriodInvestment(
+          1000 * (1 + rate),
+          finalData.currentValue * 2,
+          5,
+          rate * periodsPerYear,
+          projectionFrequency
+        );
+
+        expect(rows).toHaveLength(6);
+        expect(rows.map((r) => r.period)).toEqual([1, 2, 3, 4, 5, 6]);
+        expect(rows[0].profit).toBe(Math.round(1000 * rate));
+        expect(rows[1].newCash).toBe(Math.round(perPeriod));
+        expect(rows[1].profit).toBe(Math.round((1000 * (1 + rate) + perPeriod) * rate));
+
+        const allIn = projectFuture({ ...baseInputs, roiPercentage: 12, projectionFrequency, projectionDuration: 6 });
+        expect(allIn[5].endValue).toBe(Math.round(1000 * Math.pow(1 + rate, 6)));
+      });
+    }
+  }
+});
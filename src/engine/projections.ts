@@ -0,0 +1,507 @@
+import { PROJECTION_PERIODS_PER_YEAR } from './strategies';
+import { explainPhase, explainRate, explainStrategy, moneyOperand, rateOperand } from './audit';
+import { DEFAULT_DRAWDOWN, planWithdrawal } from './drawdown';
+import type { DrawdownState } from './drawdown';
+import { getContributionFee, getNetRate, getWithdrawalFee, hasFees } from './fees';
+import { getAllocation, getAverageGlidePathReturn, getGlidePathReturn, hasGlidePath } from './glidePath';
+import { createPortfolioTracker, getExpectedReturn, hasPortfolio } from './portfolio';
+import { DEFAULT_COMPOUNDING, getDeflator, getPeriodRate } from './rates';
+import { getPeriodsPerYear, getScheduleDates, toISODate } from './schedule';
+import { applyRules } from './strategyBuilder';
+import { hasPlan, isPhaseTriggered } from './phases';
+import { getDividendTax, getWithdrawalTax } from './tax';
+import type { AuditStep, ProjectionData, ProjectionFrequency, ProjectionInputs, ReinvestmentStrategy } from './types';
+
+// Calculate the fixed per-period investment/withdrawal needed to reach target amount
+export const calculatePerPeriodInvestment = (
+  startBalance: number,
+  targetAmount: number,
+  periods: number,
+  annualRate: number,
+  freq: ProjectionFrequency,
+  periodsPerYear = PROJECTION_PERIODS_PER_YEAR[freq]
+): number => {
+  if (periods <= 0 || startBalance <= 0) return 0;
+
+  // Get per-period rate
+  const rate = annualRate / periodsPerYear;
+
+  if (rate === 0) return (targetAmount - startBalance) / periods;
+
+  // Using future value of annuity formula + compound growth
+  // FV = P * (1+r)^n + C * ((1+r)^n - 1) / r
+  // Where P = starting balance, C = per-period contribution, r = rate, n = periods
+  // Solving for C: C = (FV - P * (1+r)^n) * r / ((1+r)^n - 1)
+  const growthFactor = Math.pow(1 + rate, periods);
+  const futureValueOfStart = startBalance * growthFactor;
+
+  // If target < futureValue, result will be negative (meaning withdrawals needed)
+  const amountNeeded = targetAmount - futureValueOfStart;
+  const annuityFactor = (growthFactor - 1) / rate;
+
+  return amountNeeded / annuityFactor;
+};
+
+// Custom's amount per period, solved from the balance the projections start with: the
+// carried-over balance, or the investment amount once period 1 has put it in and grown it
+export const solveCustomAmount = (
+  inputs: Pick<ProjectionInputs, 'investmentAmount' | 'accumulatedValue' | 'continueFromAccumulation' | 'customTargetAmount' | 'projectionDuration' | 'projectionFrequency'>,
+  annualRate: number,
+  periodsPerYear = PROJECTION_PERIODS_PER_YEAR[inputs.projectionFrequency]
+): number => {
+  const { investmentAmount, accumulatedValue, continueFromAccumulation, customTargetAmount, projectionDuration, projectionFrequency } = inputs;
+  return continueFromAccumulation
+    ? calculatePerPeriodInvestment(accumulatedValue, customTargetAmount, projectionDuration, annualRate, projectionFrequency, periodsPerYear)
+    : calculatePerPeriodInvestment(
+        investmentAmount * (1 + annualRate / periodsPerYear), customTargetAmount, projectionDuration - 1, annualRate, projectionFrequency, periodsPerYear
+      );
+};
+
+// Run the selected reinvestment strategy over the projection horizon
+export const projectFuture = ({
+  investmentAmount,
+  roiPercentage,
+  inflationRate,
+  compounding = DEFAULT_COMPOUNDING,
+  projectionFrequency,
+  projectionDuration,
+  reinvestmentStrategy,
+  levelUpAmount,
+  salaryAmount,
+  customTargetAmount,
+  builtStrategy,
+  plan,
+  accumulatedValue,
+  accumulatedBasis = 0,
+  continueFromAccumulation = false,
+  periodRates,
+  periodEvents,
+  tax,
+  fees,
+  enableInflation,
+  elapsedYears = 0,
+  drawdown = DEFAULT_DRAWDOWN,
+  portfolio,
+  glidePath,
+  startDate,
+  businessDays = false,
+  explain = false
+}: ProjectionInputs): ProjectionData[] => {
+  const periodsPerYear = getPeriodsPerYear(projectionFrequency, businessDays);
+  const toPeriodRate = (annualPercent: number) => getPeriodRate(annualPercent, compounding, periodsPerYear);
+  // Real calendar dates for each period, when we know where the projections begin
+  const dates = startDate ? getScheduleDates(new Date(startDate), projectionFrequency, projectionDuration, businessDays) : null;
+  // A portfolio replaces the single ROI: each asset grows at its own rate. Without one,
+  // a glide path sets the return for each year of the investor's age.
+  const activePortfolio = hasPortfolio(portfolio) ? portfolio : null;
+  const glide = !activePortfolio && hasGlidePath(glidePath) ? glidePath : null;
+  const expectedReturn = glide
+    ? getAverageGlidePathReturn(glide, elapsedYears, projectionDuration / periodsPerYear)
+    : getExpectedReturn(roiPercentage, portfolio);
+  const baseRate = toPeriodRate(expectedReturn);
+  const tracker = activePortfolio
+    ? createPortfolioTracker(activePortfolio, activePortfolio.assets.map((asset) => toPeriodRate(asset.roi)), periodsPerYear)
+    : null;
+  // Shield Value always uses inflation rate (regardless of toggle)
+  const shieldInflation = inflationRate / 100 / periodsPerYear;
+
+  const projections: ProjectionData[] = [];
+  // Start from the original investment amount (Year 1 = first year of investment), or
+  // carry on with the accumulated balance, where period 1 runs the strategy like any other
+  const continuing = continueFromAccumulation;
+  let balance = continuing ? accumulatedValue : investmentAmount;
+  const originalPrincipal = investmentAmount;
+  // What Capital Protect keeps invested: the cash actually put in
+  const principal = continuing ? accumulatedBasis : investmentAmount;
+
+  const periods = projectionDuration;
+  let previousProfit = 0;  // Track previous year's profit for "Double Down" strategy
+  let costBasis = continuing ? accumulatedBasis : 0;  // Cash put in (plus reinvested dividends) still held, for capital gains
+  const taxEnabled = tax?.enabled === true;
+  const fee = hasFees(fees) ? fees : null;
+  let feeDrag = 0;         // Every fee so far, grown at the gross rate
+  let drawdownState: DrawdownState = { withdrawal: 0, initialRate: 0 };
+
+  // 'custom' adds (or withdraws) the same amount every period, solved at the same per-period rate
+  const customRate = (fee ? getNetRate(baseRate, fee, periodsPerYear) : baseRate) * periodsPerYear;
+  let customPerPeriodAmount = reinvestmentStrategy === 'custom'
+    ? solveCustomAmount(
+        { investmentAmount, accumulatedValue, continueFromAccumulation, customTargetAmount, projectionDuration, projectionFrequency },
+        customRate,
+        periodsPerYear
+      )
+    : 0;
+
+  // A plan switches strategy (and its amount) as each phase starts
+  const phases = hasPlan(plan) ? plan.phases : null;
+  let phaseIndex = 0;  // 0 = the scenario's own strategy, n = phases[n - 1]
+  let strategy: ReinvestmentStrategy = reinvestmentStrategy;
+  let levelUp = levelUpAmount;
+  let salary = salaryAmount;
+
+  for (let i = 1; i <= periods; i++) {
+    const initialCashIn = i === 1 && !continuing;
+    const startValue = initialCashIn ? 0 : balance;
+    const years = elapsedYears + (i - 1) / periodsPerYear;
+    // Only built when asked for: simulations run this loop thousands of times
+    const audit: AuditStep[] | null = explain ? [] : null;
+
+    while (phases && phaseIndex < phases.length && isPhaseTriggered(phases[phaseIndex], i, dates ? dates[i - 1] : null, startValue)) {
+      const phase = phases[phaseIndex++];
+      strategy = phase.strategy;
+      audit?.push(explainPhase(phase, phaseIndex + 1, startValue));
+      if (strategy === 'level-up') levelUp = phase.amount;
+      if (strategy === 'take-salary' || strategy === 'drawdown') salary = phase.amount;
+      // A new drawdown starts from its first withdrawal; Custom solves for what is left of the horizon
+      drawdownState = { withdrawal: 0, initialRate: 0 };
+      if (strategy === 'custom') {
+        customPerPeriodAmount = calculatePerPeriodInvestment(
+          startValue, phase.amount, periods - i + 1, customRate, projectionFrequency, periodsPerYear
+        );
+      }
+    }
+
+    // Simulated paths supply their own return for each period, a portfolio the blend of
+    // its holdings and a glide path the return for the investor's age. The annual fee is
+    // taken out of the return, so every strategy below works with the net rate.
+    const plannedRate = tracker
+      ? tracker.rate(startValue, initialCashIn ? balance : 0)
+      : glide
+        ? toPeriodRate(getGlidePathReturn(glide, years))
+        : baseRate;
+    const grossRate = periodRates?.[i - 1] ?? plannedRate;
+    const rate = fee ? getNetRate(grossRate, fee, periodsPerYear) : grossRate;
+    if (audit) {
+      const perPeriodNote = periodsPerYear > 1
+        ? `, compounded ${compounding === 'continuous' ? 'continuously' : compounding}`
+        : '';
+      audit.push(...explainRate(
+        periodRates?.[i - 1] !== undefined
+          ? 'Simulated or historical return for this period'
+          : tracker
+            ? "Blend of the portfolio assets' returns, by their current weights"
+            : glide
+              ? `Glide path return at age ${Math.floor(glide.currentAge + years)}${perPeriodNote}`
+              : `${Number(expectedReturn.toFixed(4))}% a year${perPeriodNote}`,
+        grossRate,
+        rate,
+        fee ? fee.annualFee / 100 / periodsPerYear : 0
+      ));
+    }
+
+    let newCash = 0;
+    let cashOut = 0;
+    let endValue = 0;
+    let plannedWithdrawal: number | undefined;
+
+    if (initialCashIn) {
+      // Year 1: bank starts at $0, you cash in your investment, and it grows for the year
+      newCash = balance;
+      endValue = newCash * (1 + rate);
+    } else {
+      // Apply reinvestment strategy
+      switch (strategy) {
+        case '2x':
+          // Double your position: balance + same amount as balance
+          newCash = startValue;
+          endValue = (startValue + newCash) * (1 + rate);
+          break;
+
+        case 'repeat':
+          // Balance + original principal
+          newCash = originalPrincipal;
+          endValue = (startValue + newCash) * (1 + rate);
+          break;
+
+        case 'all-in':
+          // Just compound everything (no new cash, no withdrawal)
+          endValue = startValue * (1 + rate);
+          break;
+
+        case 'double-down':
+          // Balance + LAST YEAR'S profit amount as new cash
+          newCash = previousProfit;
+          endValue = (startValue + newCash) * (1 + rate);
+          break;
+
+        case 'shield-value':
+          // Balance + inflation adjustment (always uses inflation rate, regardless of toggle)
+          newCash = startValue * shieldInflation;
+          endValue = (startValue + newCash) * (1 + rate);
+          break;
+
+        case 'level-up':
+          // Balance + fixed extra amount
+          newCash = levelUp;
+          endValue = (startValue + newCash) * (1 + rate);
+          break;
+
+        case 'pay-yourself': {
+          // Take half the profit each period, reinvest the other half
+          // Balance grows, we take half the growth as cash out
+          const payYourselfGrowth = startValue * rate;
+          cashOut = payYourselfGrowth / 2;
+          // Current balance + half the profit stays invested
+          endValue = startValue + (payYourselfGrowth / 2);
+          break;
+        }
+
+        case 'capital-protect': {
+          // Keep ONLY principal invested, withdraw ALL profit
+          // First, withdraw any excess over principal (if startValue > principal)
+          // Then, withdraw the profit from the principal's growth
+          const excessOverPrincipal = Math.max(0, startValue - principal);
+          const principalProfit = principal * rate;
+          cashOut = excessOverPrincipal + principalProfit;
+          endValue = principal; // End value stays at principal
+          break;
+        }
+
+        case 'take-salary': {
+          // Withdraw a fixed salary amount each period
+          // Balance grows, then we withdraw the fixed salary
+          const afterGrowth = startValue * (1 + rate);
+          cashOut = Math.min(salary, afterGrowth); // Can't withdraw more than available
+          endValue = Math.max(0, afterGrowth - cashOut);
+          break;
+        }
+
+        case 'drawdown': {
+          // Withdraw what the rule asks for (indexed, % of balance or guardrails)
+          const afterGrowth = startValue * (1 + rate);
+          const planned = planWithdrawal(drawdown, drawdownState, startValue, afterGrowth, salary, shieldInflation, periodsPerYear);
+          drawdownState = planned.state;
+          plannedWithdrawal = planned.withdrawal;
+          cashOut = Math.min(plannedWithdrawal, afterGrowth);
+          endValue = Math.max(0, afterGrowth - cashOut);
+          break;
+        }
+
+        case 'custom':
+          // Add a fixed per-period investment/withdrawal to reach target amount
+          if (customPerPeriodAmount >= 0) {
+            // Positive = invest more (add at start of period, then grow)
+            newCash = customPerPeriodAmount;
+            endValue = (startValue + newCash) * (1 + rate);
+          } else {
+            // Negative = withdraw money (grow first, then withdraw at end)
+            const grownValue = startValue * (1 + rate);
+            cashOut = Math.min(Math.abs(customPerPeriodAmount), grownValue);
+            endValue = Math.max(0, grownValue - cashOut);
+          }
+          break;
+
+        case 'built':
+          // The user's own rules; with none the balance just compounds
+          ({ newCash, cashOut, endValue } = applyRules(builtStrategy?.rules ?? [], i, startValue, rate, previousProfit));
+          break;
+
+        default:
+          endValue = startValue * (1 + rate);
+      }
+    }
+
+    const strategyAudit = audit
+      ? explainStrategy({
+          strategy,
+          initialCashIn,
+          period: i,
+          startValue,
+          rate,
+          newCash,
+          cashOut,
+          endValue,
+          previousProfit,
+          originalPrincipal,
+          principal,
+          levelUpAmount: levelUp,
+          salaryAmount: salary,
+          shieldInflation,
+          customPerPeriodAmount,
+          plannedWithdrawal,
+          rules: builtStrategy?.rules
+        })
+      : null;
+    const strategyCash = { newCash, cashOut, endValue };
+
+    // Timeline events on top of the strategy: step-ups and pauses scale the
+    // strategy's own cash in, deposits go in at the start, withdrawals come out at the end
+    const effect = periodEvents?.[i - 1];
+    if (effect) {
+      const factor = initialCashIn ? 1 : effect.contributionFactor;
+      const extraCash = newCash * (factor - 1) + Math.max(effect.cashFlow, 0);
+      newCash += extraCash;
+      endValue += extraCash * (1 + rate);
+
+      const withdrawal = Math.min(Math.max(-effect.cashFlow, 0), Math.max(endValue, 0));
+      cashOut += withdrawal;
+      endValue -= withdrawal;
+    }
+
+    // Contribution fees mean part of the cash in never gets invested; withdrawal
+    // fees come out of the cash you receive
+    let feesPaid = 0;
+    let withdrawalFee = 0;
+    let managementFee = 0;
+    let contributionFee = 0;
+    if (fee) {
+      const invested = newCash > 0 ? startValue + newCash : startValue;
+      managementFee = invested * (grossRate - rate);
+      contributionFee = getContributionFee(fee, newCash);
+      endValue = Math.max(0, endValue - contributionFee * (1 + rate));
+      withdrawalFee = getWithdrawalFee(fee, cashOut);
+      feesPaid = managementFee + contributionFee + withdrawalFee;
+      feeDrag = (feeDrag + contributionFee) * (1 + grossRate) + managementFee + withdrawalFee;
+    }
+
+    // Tax: dividend tax comes out of the balance, withdrawal tax out of the cash out
+    let taxPaid = 0;
+    let withdrawalTax = 0;
+    let dividendTaxPaid = 0;
+    if (tax && taxEnabled) {
+      costBasis += newCash;
+      const dividendTax = getDividendTax(tax, newCash > 0 ? startValue + newCash : startValue, periodsPerYear);
+      endValue = Math.max(0, endValue - dividendTax.taxPaid);
+      dividendTaxPaid = dividendTax.taxPaid;
+      costBasis += dividendTax.dividends - dividendTax.taxPaid;
+
+      const withdrawal = getWithdrawalTax(tax, cashOut, endValue + cashOut, costBasis);
+      costBasis -= withdrawal.basisUsed;
+      withdrawalTax = withdrawal.taxPaid;
+      taxPaid = dividendTax.taxPaid + withdrawalTax;
+    }
+
+    const assetValues = tracker?.settle(newCash, endValue, i);
+
+    // Calculate the total invested (Start + Cash In)
+    const totalInvested = startValue + newCash;
+
+    // Calculate actual profit (interest earned this period)
+    // For cash-in strategies: profit = totalInvested * rate
+    // For cash-out strategies: profit = startValue * rate
+    const actualProfit = newCash > 0
+      ? totalInvested * rate
+      : startValue * rate;
+
+    // Calculate after growth value (before cash out)
+    const afterGrowthValue = newCash > 0
+      ? totalInvested * (1 + rate)
+      : startValue * (1 + rate);
+
+    if (audit && strategyAudit) {
+      const eventCash = newCash - strategyCash.newCash;
+      const eventWithdrawal = cashOut - strategyCash.cashOut;
+      const eventNote = effect && effect.labels.length > 0 ? `Timeline events: ${effect.labels.join(', ')}` : 'Timeline events';
+      audit.push(strategyAudit.rule, strategyAudit.cashIn);
+      if (Math.abs(eventCash) >= 0.005) {
+        audit.push({
+          label: 'Cash In',
+          note: `${eventNote}${effect && effect.contributionFactor !== 1 && !initialCashIn ? `; the strategy's cash in runs at ${Number((effect.contributionFactor * 100).toFixed(2))}%` : ''}`,
+          formula: '{0} + {1}',
+          operands: [moneyOperand("strategy's cash in", strategyCash.newCash), moneyOperand('events', eventCash)],
+          value: newCash
+        });
+      }
+      audit.push(
+        {
+          label: 'Profit',
+          note: newCash > 0 ? 'Growth on the start value plus the cash in' : 'Growth on the start value',
+          formula: '{0} × {1}',
+          operands: [moneyOperand(newCash > 0 ? 'start + cash in' : 'start', newCash > 0 ? totalInvested : startValue), rateOperand('rate', rate)],
+          value: actualProfit
+        },
+        {
+          label: 'After Growth',
+          note: 'What was invested plus the profit, before any cash out',
+          formula: '{0} + {1}',
+          operands: [moneyOperand(newCash > 0 ? 'start + cash in' : 'start', newCash > 0 ? totalInvested : startValue), moneyOperand('profit', actualProfit)],
+          value: afterGrowthValue
+        },
+        strategyAudit.cashOut
+      );
+      if (eventWithdrawal >= 0.005) {
+        audit.push({
+          label: 'Cash Out',
+          note: `${eventNote}; withdrawals come out at the end of the period`,
+          formula: '{0} + {1}',
+          operands: [moneyOperand("strategy's cash out", strategyCash.cashOut), moneyOperand('events', eventWithdrawal)],
+          value: cashOut
+        });
+      }
+      audit.push(strategyAudit.endValue);
+      if (fee) {
+        audit.push({
+          label: 'Fees',
+          note: 'Annual fee taken from the return, flat fee on the cash in, and a share of the cash out',
+          formula: '{0} + {1} + {2}',
+          operands: [moneyOperand('annual fee', managementFee), moneyOperand('contribution fee', contributionFee), moneyOperand('withdrawal fee', withdrawalFee)],
+          value: feesPaid
+        });
+      }
+      if (taxEnabled) {
+        audit.push({
+          label: 'Tax',
+          note: 'Dividend tax out of the balance, plus tax on the gain share of the cash out',
+          formula: '{0} + {1}',
+          operands: [moneyOperand('dividend tax', dividendTaxPaid), moneyOperand('withdrawal tax', withdrawalTax)],
+          value: taxPaid
+        });
+      }
+      if (taxEnabled || fee) {
+        audit.push({
+          label: 'Net Cash Out',
+          note: 'What reaches you from the cash out',
+          formula: '{0} − {1} − {2}',
+          operands: [moneyOperand('cash out', cashOut), moneyOperand('withdrawal tax', withdrawalTax), moneyOperand('withdrawal fee', withdrawalFee)],
+          value: cashOut - withdrawalTax - withdrawalFee
+        });
+      }
+      // Events, the contribution fee and dividend tax move the strategy's end value
+      const adjustments = [
+        moneyOperand('events in, grown', eventCash * (1 + rate)),
+        moneyOperand('events out', -eventWithdrawal),
+        moneyOperand('contribution fee, grown', -contributionFee * (1 + rate)),
+        moneyOperand('dividend tax', -dividendTaxPaid)
+      ].filter((operand) => Math.abs(operand.value) >= 0.005);
+      if (adjustments.length > 0) {
+        audit.push({
+          label: 'End Value',
+          note: "The strategy's end value after events, fees and tax (never below zero)",
+          formula: ['{0}', ...adjustments.map((operand, k) => `${operand.value < 0 ? '−' : '+'} {${k + 1}}`)].join(' '),
+          operands: [
+            moneyOperand("strategy's end value", strategyCash.endValue),
+            ...adjustments.map((operand) => ({ ...operand, value: Math.abs(operand.value) }))
+          ],
+          value: endValue
+        });
+      }
+    }
+
+    projections.push({
+      period: i,
+      ...(dates ? { date: toISODate(dates[i]) } : {}),
+      startValue: Math.round(startValue),
+      newCash: Math.round(newCash),
+      totalInvested: Math.round(totalInvested),
+      profit: Math.round(actualProfit),
+      afterGrowth: Math.round(afterGrowthValue),
+      cashOut: Math.round(cashOut),
+      endValue: Math.round(endValue),
+      ...(effect && effect.labels.length > 0 ? { events: effect.labels } : {}),
+      ...(taxEnabled ? { taxPaid: Math.round(taxPaid) } : {}),
+      ...(taxEnabled || fee ? { netCashOut: Math.round(cashOut - withdrawalTax - withdrawalFee) } : {}),
+      ...(fee ? { feesPaid: Math.round(feesPaid), feeDrag: Math.round(feeDrag) } : {}),
+      ...(enableInflation ? { deflator: getDeflator(inflationRate, elapsedYears + i / periodsPerYear) } : {}),
+      ...(plannedWithdrawal !== undefined ? { plannedWithdrawal: Math.round(plannedWithdrawal) } : {}),
+      ...(assetValues ? { assetValues } : {}),
+      ...(glide ? { allocation: getAllocation(glide, years) } : {}),
+      ...(phases ? { phase: phaseIndex, strategy } : {}),
+      ...(audit ? { audit } : {})
+    });
+
+    previousProfit = actualProfit;  // Store for next year's "Double Down"
+    balance = endValue;
+  }
+
+  return projections;
+};
@@ -0,0 +1,66 @@
+import type { CalculationData, Compounding, ProjectionData } from './types';
+
+// What the growth chart, projections and simulations assume when no convention is given
+export const DEFAULT_COMPOUNDING: Compounding = 'monthly';
+
+// Growth over one year of a nominal annual rate (percent) under each compounding convention
+export const getEffectiveAnnualRate = (roiPercentage: number, compounding: Compounding): number => {
+  const r = roiPercentage / 100;
+  switch (compounding) {
+    case 'annual': return r;
+    case 'daily': return Math.pow(1 + r / 365, 365) - 1;
+    case 'continuous': return Math.exp(r) - 1;
+    default: return Math.pow(1 + r / 12, 12) - 1;
+  }
+};
+
+// Rate for a period of 1/periodsPerYear of a year, consistent with the effective annual rate
+export const getPeriodRate = (roiPercentage: number, compounding: Compounding, periodsPerYear: number): number =>
+  Math.pow(1 + getEffectiveAnnualRate(roiPercentage, compounding), 1 / periodsPerYear) - 1;
+
+// Fisher deflation: multiply a nominal amount `years` from the start by this to get today's money
+export const getDeflator = (inflationRate: number, years: number): number =>
+  Math.pow(1 + inflationRate / 100, -years);
+
+const deflate = (value: number, deflator: number) => Math.round(value * deflator);
+
+// The growth chart rows in today's money: every amount times the row's deflator.
+// Rows without one (inflation off) are already as real as they get.
+export const toRealCalculations = (rows: CalculationData[]): CalculationData[] =>
+  rows.map((row) => {
+    const { deflator } = row;
+    if (deflator === undefined) return row;
+    return {
+      ...row,
+      totalInvested: deflate(row.totalInvested, deflator),
+      currentValue: deflate(row.currentValue, deflator),
+      profit: deflate(row.profit, deflator),
+      displayValue: deflate(row.displayValue, deflator),
+      ...(row.feesPaid !== undefined ? { feesPaid: deflate(row.feesPaid, deflator) } : {}),
+      ...(row.feeDrag !== undefined ? { feeDrag: deflate(row.feeDrag, deflator) } : {}),
+      ...(row.assetValues ? { assetValues: row.assetValues.map((value) => deflate(value, deflator)) } : {})
+    };
+  });
+
+// The projection rows in today's money, the same way
+export const toRealProjections = (rows: ProjectionData[]): ProjectionData[] =>
+  rows.map((row) => {
+    const { deflator } = row;
+    if (deflator === undefined) return row;
+    return {
+      ...row,
+      startValue: deflate(row.startValue, deflator),
+      newCash: deflate(row.newCash, deflator),
+      totalInvested: deflate(row.totalInvested, deflator),
+      profit: deflate(row.profit, deflator),
+      afterGrowth: deflate(row.afterGrowth, deflator),
+      cashOut: deflate(row.cashOut, deflator),
+      endValue: deflate(row.endValue, deflator),
+      ...(row.taxPaid !== undefined ? { taxPaid: deflate(row.taxPaid, deflator) } : {}),
+      ...(row.netCashOut !== undefined ? { netCashOut: deflate(row.netCashOut, deflator) } : {}),
+      ...(row.feesPaid !== undefined ? { feesPaid: deflate(row.feesPaid, deflator) } : {}),
+      ...(row.feeDrag !== undefined ? { feeDrag: deflate(row.feeDrag, deflator) } : {}),
+      ...(row.plannedWithdrawal !== undefined ? { plannedWithdrawal: deflate(row.plannedWithdrawal, deflator) } : {}),
+      ...(row.assetValues ? { assetValues: row.assetValues.map((value) => deflate(value, deflator)) } : {})
+    };
+  });
@@ -0,0 +1,345 @@
+import { CURRENCIES, DEFAULT_CURRENCY, NUMBER_LOCALES } from './currency';
+import { DEFAULT_DRAWDOWN } from './drawdown';
+import { DEFAULT_COMPOUNDING } from './rates';
+import { STRATEGIES } from './strategies';
+import { parseRule } from './strategyBuilder';
+import type { Asset, BuiltStrategy, CashFlowEvent, Contribution, PlanPhase, Scenario } from './types';
+
+export const SCENARIO_VERSION = 2;
+
+export const DEFAULT_SCENARIO: Scenario = {
+  investmentAmount: 1000,
+  roiPercentage: 10,
+  duration: 12,
+  frequency: 'monthly',
+  startDate: '2026-01-01',
+  businessDays: false,
+  showTotal: true,
+  enableInflation: false,
+  inflationRate: 3,
+  valueBasis: 'nominal',
+  compounding: DEFAULT_COMPOUNDING,
+  projectionFrequency: 'yearly',
+  projectionDuration: 10,
+  continueFromAccumulation: false,
+  reinvestmentStrategy: 'all-in',
+  levelUpAmount: 50,
+  customGainPercent: 20,
+  customTargetAmount: 50000,
+  builtStrategy: { name: 'My Strategy', rules: [] },
+  plan: {
+    enabled: false,
+    phases: []
+  },
+  salaryAmount: 100,
+  simulationMode: 'deterministic',
+  monteCarlo: {
+    volatility: 15,
+    simulations: 1000,
+    seed: 42
+  },
+  backtest: {
+    series: 'stocks',
+    adjustForInflation: false
+  },
+  contributions: [],
+  events: [],
+  tax: {
+    enabled: false,
+    account: 'taxable',
+    capitalGainsRate: 15,
+    dividendYield: 2,
+    dividendTaxRate: 15,
+    incomeTaxRate: 22
+  },
+  fees: {
+    annualFee: 0,
+    contributionFee: 0,
+    withdrawalFee: 0
+  },
+  drawdown: { ...DEFAULT_DRAWDOWN },
+  portfolio: {
+    enabled: false,
+    assets: [
+      { id: 'stocks', name: 'Stocks', roi: 10, volatility: 15, weight: 60 },
+      { id: 'bonds', name: 'Bonds', roi: 4, volatility: 5, weight: 30 },
+      { id: 'cash', name: 'Cash', roi: 2, volatility: 1, weight: 10 }
+    ],
+    rebalance: 'annually',
+    threshold: 5
+  },
+  glidePath: {
+    enabled: false,
+    currentAge: 30,
+    retirementAge: 65,
+    startAllocation: 90,
+    endAllocation: 40,
+    growthReturn: 10,
+    defensiveReturn: 4
+  },
+  currency: { ...DEFAULT_CURRENCY }
+};
+
+export type FieldRule =
+  | { kind: 'number'; min: number; max: number; integer?: boolean }
+  | { kind: 'enum'; values: readonly string[] }
+  | { kind: 'boolean' }
+  | { kind: 'date' }
+  | { kind: 'contributions' }
+  | { kind: 'events' }
+  | { kind: 'assets' }
+  | { kind: 'strategy' }
+  | { kind: 'phases' };
+
+export interface ScenarioField {
+  path: string;   // Dot path into Scenario, e.g. 'monteCarlo.seed'
+  param: string;  // Short key used in share links
+  label: string;
+  rule: FieldRule;
+}
+
+export const SCENARIO_FIELDS: ScenarioField[] = [
+  { path: 'investmentAmount', param: 'amt', label: 'Investment Amount', rule: { kind: 'number', min: 0, max: 1e9 } },
+  { path: 'roiPercentage', param: 'roi', label: 'ROI Percentage', rule: { kind: 'number', min: -99, max: 100 } },
+  { path: 'duration', param: 'dur', label: 'Investment Duration', rule: { kind: 'number', min: 1, max: 600, integer: true } },
+  { path: 'frequency', param: 'freq', label: 'Investment Frequency', rule: { kind: 'enum', values: ['once', 'daily', 'weekly', 'monthly'] } },
+  { path: 'startDate', param: 'start', label: 'Start Date', rule: { kind: 'date' } },
+  { path: 'businessDays', param: 'bizdays', label: 'Business Days Only', rule: { kind: 'boolean' } },
+  { path: 'showTotal', param: 'total', label: 'Show Total', rule: { kind: 'boolean' } },
+  { path: 'enableInflation', param: 'infl', label: 'Inflation', rule: { kind: 'boolean' } },
+  { path: 'inflationRate', param: 'inflRate', label: 'Inflation Rate', rule: { kind: 'number', min: -10, max: 50 } },
+  { path: 'valueBasis', param: 'basis', label: 'Values', rule: { kind: 'enum', values: ['nominal', 'real'] } },
+  { path: 'compounding', param: 'comp', label: 'Compounding', rule: { kind: 'enum', values: ['annual', 'monthly', 'daily', 'continuous'] } },
+  { path: 'projectionFrequency', param: 'pfreq', label: 'Projection Frequency', rule: { kind: 'enum', values: ['yearly', 'monthly', 'weekly', 'daily'] } },
+  { path: 'projectionDuration', param: 'pdur', label: 'Projection Duration', rule: { kind: 'number', min: 1, max: 10000, integer: true } },
+  { path: 'continueFromAccumulation', param: 'carry', label: 'Continue from Accumulation', rule: { kind: 'boolean' } },
+  { path: 'reinvestmentStrategy', param: 'strat', label: 'Reinvestment Strategy', rule: { kind: 'enum', values: Object.keys(STRATEGIES) } },
+  { path: 'levelUpAmount', param: 'levelUp', label: 'Fixed Extra Amount', rule: { kind: 'number', min: 0, max: 1e9 } },
+  { path: 'customGainPercent', param: 'gainPct', label: '% of Balance per Period', rule: { kind: 'number', min: -1000, max: 1000 } },
+  { path: 'customTargetAmount', param: 'target', label: 'Target Amount', rule: { kind: 'number', min: 0, max: 1e12 } },
+  { path: 'builtStrategy', param: 'rules', label: 'Built Strategy', rule: { kind: 'strategy' } },
+  { path: 'plan.enabled', param: 'plan', label: 'Multi-phase Plan', rule: { kind: 'boolean' } },
+  { path: 'plan.phases', param: 'phases', label: 'Plan Phases', rule: { kind: 'phases' } },
+  { path: 'salaryAmount', param: 'salary', label: 'Salary Amount', rule: { kind: 'number', min: 0, max: 1e9 } },
+  { path: 'simulationMode', param: 'mode', label: 'Returns Mode', rule: { kind: 'enum', values: ['deterministic', 'monte-carlo', 'historical'] } },
+  { path: 'monteCarlo.volatility', param: 'vol', label: 'Volatility', rule: { kind: 'number', min: 0, max: 100 } },
+  { path: 'monteCarlo.simulations', param: 'sims', label: 'Simulations', rule: { kind: 'number', min: 1, max: 10000, integer: true } },
+  { path: 'monteCarlo.seed', param: 'seed', label: 'Seed', rule: { kind: 'number', min: 0, max: 4294967295, integer: true } },
+  { path: 'backtest.series', param: 'series', label: 'Historical Series', rule: { kind: 'enum', values: ['stocks', 'bonds', 'balanced'] } },
+  { path: 'backtest.adjustForInflation', param: 'real', label: 'Inflation-adjusted Returns', rule: { kind: 'boolean' } },
+  { path: 'contributions', param: 'sched', label: 'Contribution Schedule', rule: { kind: 'contributions' } },
+  { path: 'events', param: 'ev', label: 'Cash-flow Events', rule: { kind: 'events' } },
+  { path: 'tax.enabled', param: 'tax', label: 'Tax Modeling', rule: { kind: 'boolean' } },
+  { path: 'tax.account', param: 'acct', label: 'Account Type', rule: { kind: 'enum', values: ['taxable', 'tax-deferred', 'tax-free'] } },
+  { path: 'tax.capitalGainsRate', param: 'cgt', label: 'Capital Gains Rate', rule: { kind: 'number', min: 0, max: 100 } },
+  { path: 'tax.dividendYield', param: 'divYield', label: 'Dividend Yield', rule: { kind: 'number', min: 0, max: 100 } },
+  { path: 'tax.dividendTaxRate', param: 'divTax', label: 'Dividend Tax Rate', rule: { kind: 'number', min: 0, max: 100 } },
+  { path: 'tax.incomeTaxRate', param: 'incTax', label: 'Income Tax Rate', rule: { kind: 'number', min: 0, max: 100 } },
+  { path: 'fees.annualFee', param: 'fee', label: 'Annual Fee', rule: { kind: 'number', min: 0, max: 100 } },
+  { path: 'fees.contributionFee', param: 'cfee', label: 'Fee per Contribution', rule: { kind: 'number', min: 0, max: 1e6 } },
+  { path: 'fees.withdrawalFee', param: 'wfee', label: 'Withdrawal Fee', rule: { kind: 'number', min: 0, max: 100 } },
+  { path: 'drawdown.rule', param: 'wdRule', label: 'Withdrawal Rule', rule: { kind: 'enum', values: ['inflation-indexed', 'percent-of-portfolio', 'guardrails'] } },
+  { path: 'drawdown.withdrawalRate', param: 'wdRate', label: 'Withdrawal Rate', rule: { kind: 'number', min: 0, max: 100 } },
+  { path: 'drawdown.guardrail', param: 'wdGuard', label: 'Guardrail Band', rule: { kind: 'number', min: 0, max: 100 } },
+  { path: 'drawdown.adjustment', param: 'wdAdj', label: 'Guardrail Adjustment', rule: { kind: 'number', min: 0, max: 100 } },
+  { path: 'portfolio.enabled', param: 'pf', label: 'Portfolio', rule: { kind: 'boolean' } },
+  { path: 'portfolio.assets', param: 'assets', label: 'Portfolio Assets', rule: { kind: 'assets' } },
+  { path: 'portfolio.rebalance', param: 'rebal', label: 'Rebalancing', rule: { kind: 'enum', values: ['never', 'annually', 'threshold'] } },
+  { path: 'portfolio.threshold', param: 'drift', label: 'Rebalancing Threshold', rule: { kind: 'number', min: 0, max: 100 } },
+  { path: 'glidePath.enabled', param: 'glide', label: 'Glide Path', rule: { kind: 'boolean' } },
+  { path: 'glidePath.currentAge', param: 'age', label: 'Current Age', rule: { kind: 'number', min: 0, max: 120, integer: true } },
+  { path: 'glidePath.retirementAge', param: 'retireAge', label: 'Retirement Age', rule: { kind: 'number', min: 0, max: 120, integer: true } },
+  { path: 'glidePath.startAllocation', param: 'glideFrom', label: 'Starting Growth Allocation', rule: { kind: 'number', min: 0, max: 100 } },
+  { path: 'glidePath.endAllocation', param: 'glideTo', label: 'Retirement Growth Allocation', rule: { kind: 'number', min: 0, max: 100 } },
+  { path: 'glidePath.growthReturn', param: 'growthRoi', label: 'Growth Asset Return', rule: { kind: 'number', min: -99, max: 100 } },
+  { path: 'glidePath.defensiveReturn', param: 'safeRoi', label: 'Defensive Asset Return', rule: { kind: 'number', min: -99, max: 100 } },
+  { path: 'currency.code', param: 'cur', label: 'Currency', rule: { kind: 'enum', values: Object.keys(CURRENCIES) } },
+  { path: 'currency.display', param: 'view', label: 'Display Currency', rule: { kind: 'enum', values: Object.keys(CURRENCIES) } },
+  { path: 'currency.locale', param: 'locale', label: 'Number Format', rule: { kind: 'enum', values: Object.keys(NUMBER_LOCALES) } },
+  { path: 'currency.rate', param: 'fx', label: 'Exchange Rate', rule: { kind: 'number', min: 0, max: 1000000 } }
+];
+
+export const getFieldValue = (source: unknown, path: string): unknown =>
+  path.split('.').reduce<unknown>(
+    (value, key) => (value !== null && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined),
+    source
+  );
+
+const setFieldValue = (target: Record<string, unknown>, path: string, value: unknown) => {
+  const keys = path.split('.');
+  const last = keys.pop() as string;
+  const parent = keys.reduce((obj, key) => obj[key] as Record<string, unknown>, target);
+  parent[last] = value;
+};
+
+// Plain values are written as-is, lists (the event timeline) as JSON
+export const formatFieldValue = (value: unknown): string =>
+  value !== null && typeof value === 'object' ? JSON.stringify(value) : String(value);
+
+const isDate = (raw: unknown): raw is string =>
+  typeof raw === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(raw) && !isNaN(new Date(raw).getTime());
+
+const parseContribution = (raw: unknown): Contribution | undefined => {
+  if (raw === null || typeof raw !== 'object') return undefined;
+  const entry = raw as Record<string, unknown>;
+  if (!isDate(entry.date) || typeof entry.amount !== 'number' || !Number.isFinite(entry.amount)) return undefined;
+  if (entry.note !== undefined && typeof entry.note !== 'string') return undefined;
+
+  return { date: entry.date, amount: entry.amount, ...(entry.note ? { note: entry.note } : {}) };
+};
+
+const EVENT_KINDS = ['one-off', 'recurring', 'step-up', 'pause'];
+
+const parseEvent = (raw: unknown, index: number): CashFlowEvent | undefined => {
+  if (raw === null || typeof raw !== 'object') return undefined;
+  const event = raw as Record<string, unknown>;
+  if (typeof event.kind !== 'string' || !EVENT_KINDS.includes(event.kind)) return undefined;
+  if (!isDate(event.date) || (event.endDate !== undefined && !isDate(event.endDate))) return undefined;
+  if (typeof event.amount !== 'number' || !Number.isFinite(event.amount)) return undefined;
+  if (event.kind === 'step-up' && (event.amount < -100 || event.amount > 100)) return undefined;
+  if (event.interval !== undefined && event.interval !== 'monthly' && event.interval !== 'yearly') return undefined;
+
+  return {
+    id: typeof event.id === 'string' && event.id !== '' ? event.id : `event-${index + 1}`,
+    kind: event.kind as CashFlowEvent['kind'],
+    label: typeof event.label === 'string' ? event.label : '',
+    date: event.date,
+    ...(event.endDate !== undefined ? { endDate: event.endDate as string } : {}),
+    amount: event.amount,
+    ...(event.kind === 'recurring' ? { interval: (event.interval as CashFlowEvent['interval']) ?? 'monthly' } : {})
+  };
+};
+
+const isNumberIn = (raw: unknown, min: number, max: number): raw is number =>
+  typeof raw === 'number' && Number.isFinite(raw) && raw >= min && raw <= max;
+
+const parseAsset = (raw: unknown, index: number): Asset | undefined => {
+  if (raw === null || typeof raw !== 'object') return undefined;
+  const asset = raw as Record<string, unknown>;
+  if (!isNumberIn(asset.roi, -99, 100) || !isNumberIn(asset.weight, 0, 100)) return undefined;
+  if (asset.volatility !== undefined && !isNumberIn(asset.volatility, 0, 100)) return undefined;
+
+  return {
+    id: typeof asset.id === 'string' && asset.id !== '' ? asset.id : `asset-${index + 1}`,
+    name: typeof asset.name === 'string' && asset.name !== '' ? asset.name : `Asset ${index + 1}`,
+    roi: asset.roi,
+    ...(asset.volatility !== undefined ? { volatility: asset.volatility as number } : {}),
+    weight: asset.weight
+  };
+};
+
+const PHASE_TRIGGERS = ['period', 'date', 'balance'];
+
+const parsePhase = (raw: unknown, index: number): PlanPhase | undefined => {
+  if (raw === null || typeof raw !== 'object') return undefined;
+  const phase = raw as Record<string, unknown>;
+  if (typeof phase.trigger !== 'string' || !PHASE_TRIGGERS.includes(phase.trigger)) return undefined;
+  if (typeof phase.strategy !== 'string' || !(phase.strategy in STRATEGIES)) return undefined;
+  if (!isNumberIn(phase.amount, 0, 1e12)) return undefined;
+  if (phase.trigger === 'period' && !(isNumberIn(phase.period, 1, 10000) && Number.isInteger(phase.period))) return undefined;
+  if (phase.trigger === 'date' && !isDate(phase.date)) return undefined;
+  if (phase.trigger === 'balance' && !isNumberIn(phase.balance, 0, 1e12)) return undefined;
+
+  return {
+    id: typeof phase.id === 'string' && phase.id !== '' ? phase.id : `phase-${index + 1}`,
+    trigger: phase.trigger as PlanPhase['trigger'],
+    ...(phase.trigger === 'period' ? { period: phase.period as number } : {}),
+    ...(phase.trigger === 'date' ? { date: phase.date as string } : {}),
+    ...(phase.trigger === 'balance' ? { balance: phase.balance as number } : {}),
+    strategy: phase.strategy as PlanPhase['strategy'],
+    amount: phase.amount
+  };
+};
+
+// Contributions, events, assets and phases are lists: a JSON string (share links, CSV) or an array
+const parseList = <T>(raw: unknown, parseItem: (item: unknown, index: number) => T | undefined): T[] | undefined => {
+  let list = raw;
+  if (typeof raw === 'string') {
+    try {
+      list = JSON.parse(raw);
+    } catch {
+      return undefined;
+    }
+  }
+  if (!Array.isArray(list)) return undefined;
+  const items = list.map(parseItem);
+  return items.every((item) => item !== undefined) ? items as T[] : undefined;
+};
+
+// A built strategy is a name and a list of rules, as JSON (share links, CSV) or an object
+const parseBuiltStrategy = (raw: unknown): BuiltStrategy | undefined => {
+  let strategy = raw;
+  if (typeof raw === 'string') {
+    try {
+      strategy = JSON.parse(raw);
+    } catch {
+      return undefined;
+    }
+  }
+  if (strategy === null || typeof strategy !== 'object') return undefined;
+  const { name, rules } = strategy as Record<string, unknown>;
+  if (typeof name !== 'string') return undefined;
+  const parsed = parseList(rules, parseRule);
+  return parsed ? { name, rules: parsed } : undefined;
+};
+
+// Returns the parsed value, or undefined if `raw` doesn't satisfy the rule
+export const parseFieldValue = (rule: FieldRule, raw: unknown): unknown => {
+  switch (rule.kind) {
+    case 'number': {
+      if (typeof raw === 'string' && raw.trim() === '') return undefined;
+      const n = typeof raw === 'number' ? raw : typeof raw === 'string' ? Number(raw) : NaN;
+      if (!Number.isFinite(n) || n < rule.min || n > rule.max) return undefined;
+      if (rule.integer && !Number.isInteger(n)) return undefined;
+      return n;
+    }
+    case 'enum':
+      return typeof raw === 'string' && rule.values.includes(raw) ? raw : undefined;
+    case 'boolean':
+      if (raw === true || raw === 'true' || raw === '1') return true;
+      if (raw === false || raw === 'false' || raw === '0') return false;
+      return undefined;
+    case 'date':
+      return isDate(raw) ? raw : undefined;
+    case 'contributions':
+      return parseList(raw, parseContribution);
+    case 'events':
+      return parseList(raw, parseEvent);
+    case 'assets':
+      return parseList(raw, parseAsset);
+    case 'strategy':
+      return parseBuiltStrategy(raw);
+    case 'phases':
+      return parseList(raw, parsePhase);
+  }
+};
+
+export interface SanitizedScenario {
+  scenario: Scenario;
+  warnings: string[];
+}
+
+// Build a complete Scenario from untrusted input. Missing fields silently take
+// their default; present but invalid ones fall back too and produce a warning.
+export const sanitizeScenario = (
+  raw: unknown,
+  read: (field: ScenarioField) => unknown = (field) => getFieldValue(raw, field.path)
+): SanitizedScenario => {
+  const scenario = structuredClone(DEFAULT_SCENARIO);
+  const warnings: string[] = [];
+
+  for (const field of SCENARIO_FIELDS) {
+    const value = read(field);
+    if (value === undefined || value === null) continue;
+
+    const parsed = parseFieldValue(field.rule, value);
+    if (parsed === undefined) {
+      const fallback = getFieldValue(DEFAULT_SCENARIO, field.path);
+      warnings.push(`${field.label}: "${formatFieldValue(value)}" is invalid or out of range, using ${formatFieldValue(fallback)}.`);
+      continue;
+    }
+    setFieldValue(scenario as unknown as Record<string, unknown>, field.path, parsed);
+  }
+
+  return { scenario, warnings };
+};
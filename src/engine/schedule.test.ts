@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import {
+  addBusinessDays,
+  addMonths,
+  formatPeriodDate,
+  getPeriodsPerYear,
+  getProjectionStart,
+  getScheduleDates,
+  toISODate
+} from './schedule';
+import { DEFAULT_SCENARIO } from './scenario';
+import { runScenario } from './summary';
+
+const iso = (time: number | Date) => toISODate(time);
+
+describe('addMonths', () => {
+  it('clamps to the end of shorter months without drifting', () => {
+    const start = new Date('2027-01-31');
+    expect([1, 2, 3].map((n) => iso(addMonths(start, n)))).toEqual(['2027-02-28', '2027-03-31', '2027-04-30']);
+  });
+
+  it('lands on Feb 29 in leap years only', () => {
+    expect(iso(addMonths(new Date('2028-01-31'), 1))).toBe('2028-02-29');
+    expect(iso(addMonths(new Date('2024-02-29'), 12))).toBe('2025-02-28');
+    expect(iso(addMonths(new Date('2024-02-29'), 48))).toBe('2028-02-29');
+  });
+
+  it('steps backwards across years', () => {
+    expect(iso(addMonths(new Date('2026-03-31'), -13))).toBe('2025-02-28');
+  });
+});
+
+describe('addBusinessDays', () => {
+  // 2026-01-02 is a Friday
+  it('skips weekends', () => {
+    expect(iso(addBusinessDays(new Date('2026-01-02'), 1))).toBe('2026-01-05');
+    expect(iso(addBusinessDays(new Date('2026-01-02'), 5))).toBe('2026-01-09');
+    expect(iso(addBusinessDays(new Date('2026-01-02'), 6))).toBe('2026-01-12');
+  });
+
+  it('counts from a weekend as from the Friday before it', () => {
+    expect(iso(addBusinessDays(new Date('2026-01-03'), 0))).toBe('2026-01-03');
+    expect(iso(addBusinessDays(new Date('2026-01-03'), 1))).toBe('2026-01-05');
+    expect(iso(addBusinessDays(new Date('2026-01-04'), 5))).toBe('2026-01-09');
+  });
+});
+
+describe('getScheduleDates', () => {
+  it('gives every period a distinct date', () => {
+    const days = getScheduleDates(new Date('2026-01-01'), 'daily', 31);
+    expect(new Set(days.map((t) => formatPeriodDate(t, 'daily'))).size).toBe(32);
+    expect(formatPeriodDate(days[31], 'daily')).toBe('Feb 1, 2026');
+  });
+
+  it('keeps business-day schedules on weekdays', () => {
+    const days = getScheduleDates(new Date('2026-01-01'), 'daily', 20, true);
+    expect(days.slice(1).every((t) => ![0, 6].includes(new Date(t).getUTCDay()))).toBe(true);
+    expect(iso(days[20])).toBe('2026-01-29');
+  });
+
+  it('follows month ends for monthly and yearly periods', () => {
+    expect(getScheduleDates(new Date('2027-08-31'), 'monthly', 2).map(iso)).toEqual(['2027-08-31', '2027-09-30', '2027-10-31']);
+    expect(getScheduleDates(new Date('2028-02-29'), 'yearly', 1).map(iso)).toEqual(['2028-02-29', '2029-02-28']);
+  });
+});
+
+describe('getProjectionStart', () => {
+  it('begins where the accumulation phase ends', () => {
+    expect(getProjectionStart('2026-01-31', 1)).toBe('2026-02-28');
+    expect(getProjectionStart('2026-01-01', 24)).toBe('2028-01-01');
+  });
+
+  it('gives no date rather than throwing for an empty or invalid start date', () => {
+    expect(getProjectionStart('', 12)).toBe('');
+    expect(getProjectionStart('2026-13-45', 12)).toBe('');
+    expect(() => runScenario({ ...DEFAULT_SCENARIO, startDate: '' })).not.toThrow();
+  });
+});
+
+describe('getPeriodsPerYear', () => {
+  it('uses weekdays for business-day daily periods only', () => {
+    expect(getPeriodsPerYear('daily')).toBe(365);
+    expect(getPeriodsPerYear('daily', true)).toBe(260);
+    expect(getPeriodsPerYear('weekly', true)).toBe(52);
+  });
+});
@@ -0,0 +1,81 @@
+import { PROJECTION_PERIODS_PER_YEAR } from './strategies';
+import type { ProjectionFrequency } from './types';
+
+// Weekdays in a year (52 weeks of 5); public holidays are not modeled
+export const BUSINESS_DAYS_PER_YEAR = 260;
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Dates are handled in UTC, the way `new Date('YYYY-MM-DD')` parses them, so a
+// schedule never shifts by a day with the viewer's time zone or daylight saving
+const daysInMonth = (year: number, month: number) => new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+// The same day of the month `months` later, clamped to the end of shorter months.
+// Always step from a fixed anchor: Jan 31 → Feb 28 (29 in a leap year) → Mar 31.
+export const addMonths = (date: Date, months: number): Date => {
+  const total = date.getUTCMonth() + months;
+  const year = date.getUTCFullYear() + Math.floor(total / 12);
+  const month = ((total % 12) + 12) % 12;
+  const day = Math.min(date.getUTCDate(), daysInMonth(year, month));
+  const timeOfDay = date.getTime() - Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+  return new Date(Date.UTC(year, month, day) + timeOfDay);
+};
+
+export const addDays = (date: Date, days: number): Date => new Date(date.getTime() + days * DAY);
+
+const isWeekend = (date: Date) => date.getUTCDay() === 0 || date.getUTCDay() === 6;
+
+// The `days`-th weekday after `date` (0 is the date itself, even on a weekend)
+export const addBusinessDays = (date: Date, days: number): Date => {
+  if (days <= 0) return new Date(date);
+  // Counting from a weekend is the same as counting from the Friday before it
+  let next = date;
+  while (isWeekend(next)) next = addDays(next, -1);
+  next = addDays(next, Math.floor(days / 5) * 7);
+  for (let left = days % 5; left > 0; ) {
+    next = addDays(next, 1);
+    if (!isWeekend(next)) left--;
+  }
+  return next;
+};
+
+export const getPeriodsPerYear = (frequency: ProjectionFrequency, businessDays = false): number =>
+  businessDays && frequency === 'daily' ? BUSINESS_DAYS_PER_YEAR : PROJECTION_PERIODS_PER_YEAR[frequency];
+
+// Date at which period i ends (period 0 ends on the start date itself)
+export const getPeriodDate = (start: Date, frequency: ProjectionFrequency, i: number, businessDays = false): Date => {
+  switch (frequency) {
+    case 'yearly': return addMonths(start, i * 12);
+    case 'monthly': return addMonths(start, i);
+    case 'weekly': return addDays(start, i * 7);
+    default: return businessDays ? addBusinessDays(start, i) : addDays(start, i);
+  }
+};
+
+// Period i covers [dates[i - 1], dates[i])
+export const getScheduleDates = (
+  start: Date,
+  frequency: ProjectionFrequency,
+  periods: number,
+  businessDays = false
+): number[] =>
+  Array.from({ length: Math.max(0, periods) + 1 }, (_, i) => getPeriodDate(start, frequency, i, businessDays).getTime());
+
+// The projections begin where the accumulation phase (`duration` months) ends
+export const getProjectionStart = (startDate: string, duration: number): string =>
+  toISODate(addMonths(new Date(startDate), duration));
+
+// An invalid date (e.g. a cleared date field) gives '' rather than throwing mid-render
+export const toISODate = (date: Date | number): string => {
+  const time = new Date(date).getTime();
+  return Number.isNaN(time) ? '' : new Date(time).toISOString().slice(0, 10);
+};
+
+// Daily and weekly periods need the day to tell them apart
+export const formatPeriodDate = (date: Date | number | string, frequency: ProjectionFrequency): string =>
+  new Date(date).toLocaleDateString('en-US', {
+    ...(frequency === 'daily' || frequency === 'weekly' ? { day: 'numeric' } : {}),
+    month: 'short',
+    year: 'numeric',
+    timeZone: 'UTC'
+  });
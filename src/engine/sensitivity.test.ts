@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SCENARIO } from './scenario';
+import { getDefaultAxis, getSensitivityInputs, getSweepValues, measureScenario, runSensitivity, runTornado } from './sensitivity';
+import { runScenario } from './summary';
+
+describe('getSweepValues', () => {
+  it('spreads the steps evenly from min to max', () => {
+    expect(getSweepValues({ input: 'roiPercentage', min: 4, max: 12, steps: 5 })).toEqual([4, 6, 8, 10, 12]);
+  });
+
+  it('keeps values inside the field rule and drops repeats after rounding', () => {
+    expect(getSweepValues({ input: 'projectionDuration', min: 1, max: 3, steps: 5 })).toEqual([1, 2, 3]);
+    expect(getSweepValues({ input: 'roiPercentage', min: -200, max: 500, steps: 2 })).toEqual([-99, 100]);
+  });
+
+  it('centres the default sweep on the current value', () => {
+    expect(getDefaultAxis(DEFAULT_SCENARIO, 'roiPercentage')).toEqual({ input: 'roiPercentage', min: 5, max: 15, steps: 7 });
+    expect(getDefaultAxis(DEFAULT_SCENARIO, 'projectionDuration')).toEqual({ input: 'projectionDuration', min: 5, max: 15, steps: 7 });
+  });
+});
+
+describe('runSensitivity', () => {
+  it('runs the scenario for every pair of values', () => {
+    const grid = runSensitivity(
+      DEFAULT_SCENARIO,
+      { input: 'roiPercentage', min: 5, max: 15, steps: 3 },
+      { input: 'projectionDuration', min: 5, max: 10, steps: 2 },
+      'final-balance'
+    );
+    expect(grid.xValues).toEqual([5, 10, 15]);
+    expect(grid.yValues).toEqual([5, 10]);
+    expect(grid.cells[1][1]).toEqual({ x: 10, y: 10, value: runScenario(DEFAULT_SCENARIO).summary.finalBalance, depleted: false });
+    // More return and more time both grow an All In balance
+    expect(grid.cells[0][2].value).toBeGreaterThan(grid.cells[0][0].value);
+    expect(grid.cells[1][0].value).toBeGreaterThan(grid.cells[0][0].value);
+  });
+
+  it('measures how long a salary lasts', () => {
+    const scenario = { ...DEFAULT_SCENARIO, reinvestmentStrategy: 'take-salary' as const, salaryAmount: 3000 };
+    expect(measureScenario(scenario, 'depletion')).toEqual({ value: expect.any(Number), depleted: true });
+    expect(measureScenario({ ...scenario, salaryAmount: 100 }, 'depletion')).toEqual({ value: 10, depleted: false });
+  });
+});
+
+describe('runTornado', () => {
+  it('orders inputs by how far they move the result and leaves out the ones that do not', () => {
+    const { base, bars } = runTornado(DEFAULT_SCENARIO, 'final-balance');
+    expect(base).toBe(runScenario(DEFAULT_SCENARIO).summary.finalBalance);
+    const spreads = bars.map((bar) => Math.abs(bar.highResult - bar.lowResult));
+    expect(spreads).toEqual([...spreads].sort((a, b) => b - a));
+    expect(bars.map((bar) => bar.input)).toContain('roiPercentage');
+    // All In neither pays a salary nor adds a fixed amount
+    expect(bars.map((bar) => bar.input)).not.toContain('salaryAmount');
+    expect(bars.map((bar) => bar.input)).not.toContain('levelUpAmount');
+    const roi = bars.find((bar) => bar.input === 'roiPercentage');
+    expect(roi).toMatchObject({ low: 8, high: 12 });
+  });
+
+  it('leaves out the ROI when a portfolio sets the return', () => {
+    const scenario = { ...DEFAULT_SCENARIO, portfolio: { ...DEFAULT_SCENARIO.portfolio, enabled: true } };
+    expect(getSensitivityInputs(scenario)).not.toContain('roiPercentage');
+    expect(runTornado(scenario, 'final-balance').bars.map((bar) => bar.input)).not.toContain('roiPercentage');
+  });
+});
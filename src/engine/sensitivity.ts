@@ -0,0 +1,155 @@
+import { getRunway, runScenario, usesScenarioRoi } from './summary';
+import { getNumberRule } from './validation';
+import type { Scenario } from './types';
+
+export type SensitivityInput =
+  | 'roiPercentage'
+  | 'inflationRate'
+  | 'investmentAmount'
+  | 'duration'
+  | 'projectionDuration'
+  | 'salaryAmount'
+  | 'levelUpAmount';
+
+export type SensitivityMetric = 'final-balance' | 'depletion';
+
+export interface SensitivityInputInfo {
+  label: string;
+  unit?: string;       // Amounts without a unit are in the scenario currency
+  swing: number;       // How far the tornado moves it each way: points, or a fraction with `relative`
+  relative?: boolean;
+}
+
+export const SENSITIVITY_INPUTS: Record<SensitivityInput, SensitivityInputInfo> = {
+  roiPercentage: { label: 'Expected ROI', unit: '%', swing: 2 },
+  inflationRate: { label: 'Inflation Rate', unit: '%', swing: 1 },
+  investmentAmount: { label: 'Investment Amount', swing: 0.2, relative: true },
+  duration: { label: 'Investment Duration', unit: 'months', swing: 0.2, relative: true },
+  projectionDuration: { label: 'Projection Duration', unit: 'periods', swing: 0.2, relative: true },
+  salaryAmount: { label: 'Salary Amount', swing: 0.2, relative: true },
+  levelUpAmount: { label: 'Level Up Amount', swing: 0.2, relative: true }
+};
+
+export const SENSITIVITY_METRICS: Record<SensitivityMetric, string> = {
+  'final-balance': 'Final balance',
+  'depletion': 'Years the money lasts'
+};
+
+export const MAX_SWEEP_STEPS = 12;
+
+export interface SweepAxis {
+  input: SensitivityInput;
+  min: number;
+  max: number;
+  steps: number;  // Values from min to max, both included
+}
+
+export interface SensitivityOutcome {
+  value: number;      // The metric: final balance, or years until the balance runs out
+  depleted: boolean;  // The balance ran out within the projection
+}
+
+export interface SensitivityCell extends SensitivityOutcome {
+  x: number;
+  y: number;
+}
+
+export interface SensitivityGrid {
+  xValues: number[];
+  yValues: number[];
+  cells: SensitivityCell[][];  // cells[row][column]: one row per y value
+}
+
+export interface TornadoBar {
+  input: SensitivityInput;
+  low: number;   // The input moved down...
+  high: number;  // ...and up
+  lowResult: number;
+  highResult: number;
+}
+
+export interface TornadoResult {
+  base: number;
+  bars: TornadoBar[];  // Widest spread first; inputs that don't move the result are left out
+}
+
+// The inputs that move this scenario's result: with a portfolio or glide path the ROI doesn't
+export const getSensitivityInputs = (scenario: Scenario): SensitivityInput[] =>
+  (Object.keys(SENSITIVITY_INPUTS) as SensitivityInput[]).filter((input) => input !== 'roiPercentage' || usesScenarioRoi(scenario));
+
+// Keep a swept value inside the input's field rule
+const clampToRule = (input: SensitivityInput, value: number): number => {
+  const rule = getNumberRule(input);
+  if (!rule) return value;
+  const clamped = Math.min(rule.max, Math.max(rule.min, value));
+  return rule.integer ? Math.round(clamped) : Number(clamped.toFixed(2));
+};
+
+// Evenly spaced values from min to max; integer inputs can repeat after rounding, so
+// those are dropped
+export const getSweepValues = (axis: SweepAxis): number[] => {
+  const steps = Math.min(MAX_SWEEP_STEPS, Math.max(2, Math.round(axis.steps)));
+  const values = Array.from({ length: steps }, (_, i) =>
+    clampToRule(axis.input, axis.min + ((axis.max - axis.min) * i) / (steps - 1)));
+  return [...new Set(values)];
+};
+
+// A sweep around the current value: half to one and a half times it, or 2.5 swings each way for rates
+export const getDefaultAxis = (scenario: Scenario, input: SensitivityInput, steps = 7): SweepAxis => {
+  const { swing, relative } = SENSITIVITY_INPUTS[input];
+  const value = scenario[input];
+  const [min, max] = relative
+    ? [value * 0.5, (value || 1000) * 1.5]
+    : [value - swing * 2.5, value + swing * 2.5];
+  return { input, min: clampToRule(input, min), max: clampToRule(input, max), steps };
+};
+
+export const measureScenario = (scenario: Scenario, metric: SensitivityMetric): SensitivityOutcome => {
+  const { projections, summary } = runScenario(scenario);
+  const runway = getRunway(projections, scenario.projectionFrequency, scenario.businessDays);
+  return {
+    value: metric === 'final-balance' ? summary.finalBalance : runway.years,
+    depleted: runway.depletedPeriod !== null
+  };
+};
+
+// Run the scenario's strategy for every pair of swept values
+export const runSensitivity = (
+  scenario: Scenario,
+  xAxis: SweepAxis,
+  yAxis: SweepAxis,
+  metric: SensitivityMetric
+): SensitivityGrid => {
+  const xValues = getSweepValues(xAxis);
+  const yValues = getSweepValues(yAxis);
+  return {
+    xValues,
+    yValues,
+    cells: yValues.map((y) => xValues.map((x) => ({
+      x,
+      y,
+      ...measureScenario({ ...scenario, [xAxis.input]: x, [yAxis.input]: y }, metric)
+    })))
+  };
+};
+
+// Move one input at a time by its swing and see how far the result moves
+export const runTornado = (scenario: Scenario, metric: SensitivityMetric): TornadoResult => {
+  const base = measureScenario(scenario, metric).value;
+  const bars = getSensitivityInputs(scenario)
+    .map((input): TornadoBar => {
+      const { swing, relative } = SENSITIVITY_INPUTS[input];
+      const value = scenario[input];
+      const low = clampToRule(input, relative ? value * (1 - swing) : value - swing);
+      const high = clampToRule(input, relative ? value * (1 + swing) : value + swing);
+      return {
+        input,
+        low,
+        high,
+        lowResult: measureScenario({ ...scenario, [input]: low }, metric).value,
+        highResult: measureScenario({ ...scenario, [input]: high }, metric).value
+      };
+    })
+    .filter((bar) => bar.lowResult !== base || bar.highResult !== base);
+  return { base, bars: bars.sort((a, b) => Math.abs(b.highResult - b.lowResult) - Math.abs(a.highResult - a.lowResult)) };
+};
@@ -0,0 +1,5 @@
+// The slice of localStorage the saved scenario and strategy lists need, so tests can pass a Map-backed stand-in
+export type KeyValueStorage = Pick<Storage, 'getItem' | 'setItem'>;
+
+// Short, time-ordered ids for saved entries and list items
+export const createId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
@@ -0,0 +1,23 @@
+import type { ProjectionFrequency, ReinvestmentStrategy, StrategyInfo } from './types';
+
+export const STRATEGIES: Record<ReinvestmentStrategy, StrategyInfo> = {
+  '2x': { name: '2X', color: 'bg-red-600', chartColor: '#dc2626' },
+  'repeat': { name: 'Repeat', color: 'bg-orange-600', chartColor: '#ea580c' },
+  'all-in': { name: 'All In', color: 'bg-green-600', chartColor: '#16a34a' },
+  'double-down': { name: 'Double Down', color: 'bg-blue-600', chartColor: '#2563eb' },
+  'shield-value': { name: 'Shield Value', color: 'bg-cyan-600', chartColor: '#0891b2' },
+  'level-up': { name: 'Level Up', color: 'bg-purple-600', chartColor: '#9333ea' },
+  'pay-yourself': { name: 'Pay Yourself', color: 'bg-pink-600', chartColor: '#db2777' },
+  'capital-protect': { name: 'Capital Protect', color: 'bg-amber-600', chartColor: '#d97706' },
+  'take-salary': { name: 'Take Salary', color: 'bg-gray-600', chartColor: '#4b5563' },
+  'drawdown': { name: 'Drawdown', color: 'bg-teal-600', chartColor: '#0d9488' },
+  'custom': { name: 'Custom', color: 'bg-indigo-600', chartColor: '#4f46e5' },
+  'built': { name: 'Built Strategy', color: 'bg-lime-600', chartColor: '#65a30d' }
+};
+
+export const PROJECTION_PERIODS_PER_YEAR: Record<ProjectionFrequency, number> = {
+  yearly: 1,
+  monthly: 12,
+  weekly: 52,
+  daily: 365
+};
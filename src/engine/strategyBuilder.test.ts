@@ -0,0 +1,126 @@
+import { describe, expect, it } from 'vitest';
+import { parseFieldValue } from './scenario';
+import {
+  STRATEGY_STORAGE_KEY,
+  addStrategy,
+  applyRules,
+  describeBuiltStrategy,
+  getStrategyName,
+  loadStrategies,
+  removeStrategy,
+  saveStrategies
+} from './strategyBuilder';
+import type { StrategyRule } from './types';
+
+const rule = (kind: StrategyRule['kind'], value: number, every = 1): StrategyRule => ({ id: kind, kind, value, every });
+
+const createStorage = (initial: Record<string, string> = {}) => {
+  const data = new Map(Object.entries(initial));
+  return {
+    getItem: (key: string) => data.get(key) ?? null,
+    setItem: (key: string, value: string) => { data.set(key, value); }
+  };
+};
+
+const format = (n: number) => `$${n.toLocaleString('en-US')}`;
+
+describe('applyRules', () => {
+  it('puts cash in before growth and takes withdrawals out after it', () => {
+    expect(applyRules([rule('add-fixed', 100), rule('withdraw-fixed', 50)], 1, 1000, 0.1, 0)).toEqual({
+      newCash: 100,
+      cashOut: 50,
+      endValue: 1160
+    });
+  });
+
+  it('adds a share of last period profit or of the balance', () => {
+    expect(applyRules([rule('add-profit', 50)], 1, 1000, 0, 200).newCash).toBe(100);
+    expect(applyRules([rule('add-profit', 50)], 1, 1000, 0, -200).newCash).toBe(0);
+    expect(applyRules([rule('add-balance', 10)], 1, 1000, 0, 0).newCash).toBe(100);
+  });
+
+  it('withdraws everything above a floor, capped', () => {
+    expect(applyRules([rule('withdraw-above', 1000)], 1, 1200, 0.1, 0).cashOut).toBeCloseTo(320);
+    expect(applyRules([rule('withdraw-above', 1000), rule('cap-withdrawals', 100)], 1, 1200, 0.1, 0)).toEqual({
+      newCash: 0,
+      cashOut: 100,
+      endValue: 1220
+    });
+  });
+
+  it('withdraws a share of growth, never more than the balance', () => {
+    expect(applyRules([rule('withdraw-profit', 50)], 1, 1000, 0.1, 0).cashOut).toBeCloseTo(50);
+    expect(applyRules([rule('withdraw-profit', 50)], 1, 1000, -0.1, 0).cashOut).toBe(0);
+    expect(applyRules([rule('withdraw-fixed', 5000), rule('withdraw-fixed', 10)], 1, 1000, 0, 0)).toEqual({
+      newCash: 0,
+      cashOut: 1000,
+      endValue: 0
+    });
+  });
+
+  it('only acts every Nth period', () => {
+    const rules = [rule('add-fixed', 100, 3)];
+    expect([1, 2, 3, 4, 5, 6].map((period) => applyRules(rules, period, 1000, 0, 0).newCash)).toEqual([0, 0, 100, 0, 0, 100]);
+  });
+});
+
+describe('describeBuiltStrategy', () => {
+  it('groups the rules by how often they act', () => {
+    expect(describeBuiltStrategy([
+      rule('add-profit', 50),
+      rule('withdraw-above', 10000, 4),
+      rule('cap-withdrawals', 2000, 4),
+      rule('add-fixed', 100)
+    ], format)).toBe(
+      "Every period, add 50% of last period's profit and add $100. " +
+      'Every 4th period, withdraw everything above $10,000 and take out no more than $2,000 in total.'
+    );
+    expect(describeBuiltStrategy([rule('withdraw-fixed', 10, 2), rule('add-fixed', 5, 12)], format))
+      .toBe('Every 2nd period, withdraw $10. Every 12th period, add $5.');
+  });
+
+  it('explains an empty strategy', () => {
+    expect(describeBuiltStrategy([], format)).toMatch(/just compounds/);
+  });
+});
+
+describe('built strategy storage', () => {
+  it('saves, replaces by name and removes strategies', () => {
+    let saved = addStrategy([], { name: '  Skim  ', rules: [rule('withdraw-above', 1000)] });
+    saved = addStrategy(saved, { name: 'Top up', rules: [rule('add-fixed', 50)] });
+    saved = addStrategy(saved, { name: 'Skim', rules: [rule('withdraw-above', 2000)] });
+    expect(saved.map((s) => [s.name, s.rules[0].value])).toEqual([['Skim', 2000], ['Top up', 50]]);
+
+    const storage = createStorage();
+    saveStrategies(storage, saved);
+    expect(loadStrategies(storage)).toEqual(saved);
+    expect(removeStrategy(saved, saved[0].id).map((s) => s.name)).toEqual(['Top up']);
+  });
+
+  it('drops corrupt entries', () => {
+    expect(loadStrategies(createStorage({ [STRATEGY_STORAGE_KEY]: 'not json' }))).toEqual([]);
+    const storage = createStorage({
+      [STRATEGY_STORAGE_KEY]: JSON.stringify([
+        { id: 'a', name: 'Good', rules: [{ kind: 'add-fixed', value: 10 }] },
+        { id: 'b', name: 'Bad', rules: [{ kind: 'borrow', value: 10 }] }
+      ])
+    });
+    expect(loadStrategies(storage)).toEqual([
+      { id: 'a', name: 'Good', savedAt: new Date(0).toISOString(), rules: [{ id: 'rule-1', kind: 'add-fixed', value: 10, every: 1 }] }
+    ]);
+  });
+
+  it('parses a built strategy from a share link', () => {
+    const strategy = { name: 'Skim', rules: [rule('withdraw-above', 1000, 2)] };
+    expect(parseFieldValue({ kind: 'strategy' }, JSON.stringify(strategy))).toEqual(strategy);
+    expect(parseFieldValue({ kind: 'strategy' }, '{"name":"Skim","rules":[{"kind":"add-fixed","value":-5}]}')).toBeUndefined();
+  });
+});
+
+describe('getStrategyName', () => {
+  it('uses the name of the built strategy', () => {
+    expect(getStrategyName('built', { name: 'Skim', rules: [] })).toBe('Skim');
+    expect(getStrategyName('built')).toBe('Built Strategy');
+    expect(getStrategyName('2x', { name: 'Skim', rules: [] })).toBe('2X');
+  });
+});
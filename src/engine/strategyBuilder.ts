@@ -0,0 +1,169 @@
+import { createId } from './storage';
+import { STRATEGIES } from './strategies';
+import type { KeyValueStorage } from './storage';
+import type { BuiltStrategy, ReinvestmentStrategy, StrategyRule, StrategyRuleKind } from './types';
+
+export interface RuleKindInfo {
+  label: string;
+  unit: 'percent' | 'amount';
+}
+
+export const RULE_KINDS: Record<StrategyRuleKind, RuleKindInfo> = {
+  'add-profit': { label: "Add % of last period's profit", unit: 'percent' },
+  'add-balance': { label: 'Add % of the balance', unit: 'percent' },
+  'add-fixed': { label: 'Add a fixed amount', unit: 'amount' },
+  'withdraw-profit': { label: "Withdraw % of the period's growth", unit: 'percent' },
+  'withdraw-fixed': { label: 'Withdraw a fixed amount', unit: 'amount' },
+  'withdraw-above': { label: 'Withdraw everything above a floor', unit: 'amount' },
+  'cap-withdrawals': { label: 'Cap withdrawals at', unit: 'amount' }
+};
+
+export const STRATEGY_STORAGE_KEY = 'wealth-projector:strategies';
+
+export interface SavedStrategy extends BuiltStrategy {
+  id: string;
+  savedAt: string;  // ISO timestamp
+}
+
+export interface RuleOutcome {
+  newCash: number;
+  cashOut: number;
+  endValue: number;
+}
+
+export const createRule = (kind: StrategyRuleKind, value = 0, every = 1): StrategyRule =>
+  ({ id: createId(), kind, value, every });
+
+export const isRuleActive = (rule: StrategyRule, period: number): boolean =>
+  period % Math.max(1, Math.round(rule.every)) === 0;
+
+// Run one period of a built strategy. Cash in goes in at the start and grows with the
+// balance; withdrawals come out of what is there after growth, in rule order.
+export const applyRules = (
+  rules: StrategyRule[],
+  period: number,
+  startValue: number,
+  rate: number,
+  previousProfit: number
+): RuleOutcome => {
+  const active = rules.filter((rule) => isRuleActive(rule, period));
+
+  let newCash = 0;
+  for (const rule of active) {
+    if (rule.kind === 'add-profit') newCash += Math.max(0, previousProfit) * rule.value / 100;
+    else if (rule.kind === 'add-balance') newCash += startValue * rule.value / 100;
+    else if (rule.kind === 'add-fixed') newCash += rule.value;
+  }
+  newCash = Math.max(0, newCash);
+
+  const afterGrowth = (startValue + newCash) * (1 + rate);
+  const growth = afterGrowth - startValue - newCash;
+
+  let cashOut = 0;
+  for (const rule of active) {
+    const available = afterGrowth - cashOut;
+    if (rule.kind === 'withdraw-profit') cashOut += Math.min(Math.max(0, growth) * rule.value / 100, available);
+    else if (rule.kind === 'withdraw-fixed') cashOut += Math.min(Math.max(0, rule.value), available);
+    else if (rule.kind === 'withdraw-above') cashOut += Math.max(0, available - rule.value);
+  }
+  for (const rule of active) {
+    if (rule.kind === 'cap-withdrawals') cashOut = Math.min(cashOut, Math.max(0, rule.value));
+  }
+  cashOut = Math.max(0, Math.min(cashOut, afterGrowth));
+
+  return { newCash, cashOut, endValue: Math.max(0, afterGrowth - cashOut) };
+};
+
+const ordinal = (n: number): string => {
+  const tens = n % 100;
+  const suffix = tens >= 11 && tens <= 13 ? 'th' : ['th', 'st', 'nd', 'rd'][n % 10] ?? 'th';
+  return `${n}${suffix}`;
+};
+
+const describeRule = (rule: StrategyRule, formatNum: (n: number) => string): string => {
+  switch (rule.kind) {
+    case 'add-profit': return `add ${rule.value}% of last period's profit`;
+    case 'add-balance': return `add ${rule.value}% of the balance`;
+    case 'add-fixed': return `add ${formatNum(rule.value)}`;
+    case 'withdraw-profit': return `withdraw ${rule.value}% of the period's growth`;
+    case 'withdraw-fixed': return `withdraw ${formatNum(rule.value)}`;
+    case 'withdraw-above': return `withdraw everything above ${formatNum(rule.value)}`;
+    case 'cap-withdrawals': return `take out no more than ${formatNum(rule.value)} in total`;
+  }
+};
+
+// Plain-language summary, one sentence per schedule: "Every period, add 50% of last
+// period's profit. Every 4th period, withdraw everything above $10,000."
+export const describeBuiltStrategy = (rules: StrategyRule[], formatNum: (n: number) => string): string => {
+  if (rules.length === 0) return 'No rules yet, so the balance just compounds. Add a rule to put cash in or take it out.';
+
+  const schedules = [...new Set(rules.map((rule) => Math.max(1, Math.round(rule.every))))];
+  return schedules
+    .map((every) => {
+      const steps = rules
+        .filter((rule) => Math.max(1, Math.round(rule.every)) === every)
+        .map((rule) => describeRule(rule, formatNum));
+      const list = steps.length > 1 ? `${steps.slice(0, -1).join(', ')} and ${steps[steps.length - 1]}` : steps[0];
+      return `${every === 1 ? 'Every period' : `Every ${ordinal(every)} period`}, ${list}.`;
+    })
+    .join(' ');
+};
+
+export const getStrategyName = (strategy: ReinvestmentStrategy, builtStrategy?: BuiltStrategy): string =>
+  strategy === 'built' && builtStrategy?.name ? builtStrategy.name : STRATEGIES[strategy].name;
+
+const isFiniteNumber = (raw: unknown): raw is number => typeof raw === 'number' && Number.isFinite(raw);
+
+// Returns undefined for anything that isn't a complete rule
+export const parseRule = (raw: unknown, index: number): StrategyRule | undefined => {
+  if (raw === null || typeof raw !== 'object') return undefined;
+  const rule = raw as Record<string, unknown>;
+  if (typeof rule.kind !== 'string' || !(rule.kind in RULE_KINDS)) return undefined;
+  if (!isFiniteNumber(rule.value) || rule.value < 0) return undefined;
+  if (rule.every !== undefined && (!Number.isInteger(rule.every) || (rule.every as number) < 1)) return undefined;
+
+  return {
+    id: typeof rule.id === 'string' && rule.id !== '' ? rule.id : `rule-${index + 1}`,
+    kind: rule.kind as StrategyRuleKind,
+    value: rule.value,
+    every: (rule.every as number | undefined) ?? 1
+  };
+};
+
+// Stored strategies are re-validated; entries with a broken rule are dropped
+export const loadStrategies = (storage: KeyValueStorage): SavedStrategy[] => {
+  try {
+    const raw = JSON.parse(storage.getItem(STRATEGY_STORAGE_KEY) ?? '[]');
+    if (!Array.isArray(raw)) return [];
+    return raw.flatMap((entry) => {
+      if (!entry || typeof entry.id !== 'string' || typeof entry.name !== 'string' || !Array.isArray(entry.rules)) return [];
+      const rules = (entry.rules as unknown[]).map(parseRule);
+      if (!rules.every((rule) => rule !== undefined)) return [];
+      return [{
+        id: entry.id,
+        name: entry.name,
+        savedAt: typeof entry.savedAt === 'string' ? entry.savedAt : new Date(0).toISOString(),
+        rules: rules as StrategyRule[]
+      }];
+    });
+  } catch {
+    return [];
+  }
+};
+
+export const saveStrategies = (storage: KeyValueStorage, strategies: SavedStrategy[]) => {
+  storage.setItem(STRATEGY_STORAGE_KEY, JSON.stringify(strategies));
+};
+
+// Saving under an existing name replaces that strategy
+export const addStrategy = (strategies: SavedStrategy[], strategy: BuiltStrategy): SavedStrategy[] => {
+  const name = strategy.name.trim() || 'Untitled';
+  const entry: SavedStrategy = { id: createId(), name, savedAt: new Date().toISOString(), rules: structuredClone(strategy.rules) };
+  const index = strategies.findIndex((saved) => saved.name === name);
+  return index === -1
+    ? [...strategies, entry]
+    : strategies.map((saved, i) => (i === index ? { ...entry, id: saved.id } : saved));
+};
+
+export const removeStrategy = (strategies: SavedStrategy[], id: string): SavedStrategy[] =>
+  strategies.filter((saved) => saved.id !== id);
@@ -0,0 +1,143 @@
+import { describe, expect, it } from 'vitest';
+import { compareStrategies, getRunway, runScenario, summarizeProjections, toRealResult } from './summary';
+import { STRATEGIES } from './strategies';
+import { DEFAULT_SCENARIO } from './scenario';
+import type { ProjectionData } from './types';
+
+const row = (overrides: Partial<ProjectionData>): ProjectionData => ({
+  period: 1,
+  startValue: 0,
+  newCash: 0,
+  totalInvested: 0,
+  profit: 0,
+  afterGrowth: 0,
+  cashOut: 0,
+  endValue: 0,
+  ...overrides
+});
+
+describe('summarizeProjections', () => {
+  it('totals the summary card figures', () => {
+    expect(summarizeProjections([
+      row({ newCash: 1000, profit: 100, endValue: 1100 }),
+      row({ period: 2, profit: 110, cashOut: 300, endValue: 910 })
+    ])).toEqual({
+      finalBalance: 910,
+      totalCashIn: 1000,
+      totalCashOut: 300,
+      netCashFlow: -700,
+      totalGain: 210,
+      totalTaxPaid: 0,
+      totalFeesPaid: 0,
+      feeDrag: 0
+    });
+  });
+
+  it('counts cash out after tax when the projections model tax', () => {
+    const summary = summarizeProjections([
+      row({ newCash: 1000, endValue: 1100 }),
+      row({ period: 2, cashOut: 300, taxPaid: 45, netCashOut: 255, endValue: 900 })
+    ]);
+    expect(summary.totalCashOut).toBe(255);
+    expect(summary.totalTaxPaid).toBe(45);
+    expect(summary.netCashFlow).toBe(-745);
+  });
+
+  it('is all zeros without projections', () => {
+    expect(summarizeProjections([]).finalBalance).toBe(0);
+  });
+});
+
+describe('getRunway', () => {
+  it('counts the part of the last withdrawal the balance could still cover', () => {
+    const runway = getRunway([
+      row({ newCash: 1000, endValue: 1100 }),
+      row({ period: 2, cashOut: 600, plannedWithdrawal: 600, endValue: 500 }),
+      row({ period: 3, cashOut: 300, plannedWithdrawal: 600, endValue: 0 })
+    ], 'yearly');
+    expect(runway).toEqual({ depletedPeriod: 3, years: 2.5 });
+  });
+
+  it('spans the whole horizon when the money lasts', () => {
+    expect(getRunway([row({ endValue: 10 }), row({ period: 2, endValue: 5 })], 'monthly')).toEqual({
+      depletedPeriod: null,
+      years: 2 / 12
+    });
+  });
+});
+
+describe('runScenario', () => {
+  it('feeds the accumulated value into the projections', () => {
+    const result = runScenario({ ...DEFAULT_SCENARIO, reinvestmentStrategy: 'custom', customTargetAmount: 30000 });
+    expect(result.calculations).toHaveLength(13);
+    expect(result.projections).toHaveLength(DEFAULT_SCENARIO.projectionDuration);
+    expect(result.summary.finalBalance).toBe(result.projections[result.projections.length - 1].endValue);
+  });
+
+  it('continues the projections from the end of the growth chart when asked', () => {
+    const { calculations, projections } = runScenario({ ...DEFAULT_SCENARIO, continueFromAccumulation: true });
+    const final = calculations[calculations.length - 1];
+    expect(projections[0].startValue).toBe(final.currentValue);
+    expect(projections[0].newCash).toBe(0);
+    expect(projections[0].date).toBe('2028-01-01');
+  });
+
+  it('summarizes the deflated rows in today\'s money', () => {
+    const result = runScenario({ ...DEFAULT_SCENARIO, enableInflation: true, reinvestmentStrategy: 'take-salary' });
+    const real = toRealResult(result);
+    expect(real.calculations).toBe(result.calculations);
+    expect(real.summary.finalBalance).toBe(real.projections[real.projections.length - 1].endValue);
+    expect(real.summary.finalBalance).toBeLessThan(result.summary.finalBalance);
+    expect(real.summary.totalCashOut).toBeLessThan(result.summary.totalCashOut);
+  });
+
+  it('invests the scenario\'s contribution schedule instead of the fixed amount', () => {
+    const contributions = [{ date: '2026-01-15', amount: 5000 }, { date: '2026-06-15', amount: -1000 }];
+    const { calculations } = runScenario({ ...DEFAULT_SCENARIO, contributions });
+    expect(calculations[calculations.length - 1].totalInvested).toBe(4000);
+    expect(runScenario({ ...DEFAULT_SCENARIO, contributions: [] })).toEqual(runScenario(DEFAULT_SCENARIO));
+  });
+});
+
+describe('compareStrategies', () => {
+  it('runs every strategy on the same inputs', () => {
+    const outcomes = compareStrategies({
+      investmentAmount: 1000,
+      roiPercentage: 10,
+      inflationRate: 3,
+      compounding: 'annual',
+      projectionFrequency: 'yearly',
+      projectionDuration: 3,
+      reinvestmentStrategy: 'all-in',
+      levelUpAmount: 50,
+      salaryAmount: 100,
+      customTargetAmount: 5000,
+      accumulatedValue: 1000
+    });
+    expect(outcomes.map((o) => o.strategy)).toEqual(Object.keys(STRATEGIES).filter((key) => key !== 'built'));
+    const byStrategy = Object.fromEntries(outcomes.map((o) => [o.strategy, o.summary]));
+    expect(byStrategy['all-in'].finalBalance).toBe(1331);
+    expect(byStrategy['2x'].finalBalance).toBe(5324);
+    expect(byStrategy['take-salary'].totalCashOut).toBe(200);
+  });
+
+  it('includes the built strategy once it has rules', () => {
+    const outcomes = compareStrategies({
+      investmentAmount: 1000,
+      roiPercentage: 10,
+      inflationRate: 3,
+      compounding: 'annual',
+      projectionFrequency: 'yearly',
+      projectionDuration: 3,
+      reinvestmentStrategy: 'all-in',
+      levelUpAmount: 50,
+      salaryAmount: 100,
+      customTargetAmount: 5000,
+      accumulatedValue: 1000,
+      builtStrategy: { name: 'Top up', rules: [{ id: 'r1', kind: 'add-fixed', value: 50, every: 1 }] }
+    });
+    const built = outcomes.find((o) => o.strategy === 'built');
+    const levelUp = outcomes.find((o) => o.strategy === 'level-up');
+    expect(built?.summary).toEqual(levelUp?.summary);
+  });
+});
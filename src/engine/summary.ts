@@ -0,0 +1,138 @@
+import { findDepletionPeriod } from './backtest';
+import { calculateGrowth } from './calculations';
+import { getProjectionBoundaries, resolveEvents } from './events';
+import { hasGlidePath } from './glidePath';
+import { getExpectedReturn, hasPortfolio } from './portfolio';
+import { projectFuture } from './projections';
+import { toRealProjections } from './rates';
+import { getPeriodsPerYear, getProjectionStart } from './schedule';
+import { STRATEGIES } from './strategies';
+import type {
+  CalculationData,
+  ProjectionData,
+  ProjectionFrequency,
+  ProjectionInputs,
+  ReinvestmentStrategy,
+  Scenario
+} from './types';
+
+// The figures shown in the Future Projections summary cards. Cash out is net of
+// tax and withdrawal fees when the projections model them.
+export interface ProjectionSummary {
+  finalBalance: number;
+  totalCashIn: number;
+  totalCashOut: number;
+  netCashFlow: number;
+  totalGain: number;
+  totalTaxPaid: number;
+  totalFeesPaid: number;
+  feeDrag: number;  // What the fees would have grown to had they stayed invested
+}
+
+export interface ScenarioResult {
+  calculations: CalculationData[];
+  projections: ProjectionData[];
+  summary: ProjectionSummary;
+}
+
+export interface StrategyOutcome {
+  strategy: ReinvestmentStrategy;
+  projections: ProjectionData[];
+  summary: ProjectionSummary;
+}
+
+export const summarizeProjections = (projections: ProjectionData[]): ProjectionSummary => {
+  const totalCashIn = projections.reduce((sum, p) => sum + p.newCash, 0);
+  const totalCashOut = projections.reduce((sum, p) => sum + (p.netCashOut ?? p.cashOut), 0);
+  return {
+    finalBalance: projections[projections.length - 1]?.endValue ?? 0,
+    totalCashIn,
+    totalCashOut,
+    netCashFlow: totalCashOut - totalCashIn,
+    totalGain: projections.reduce((sum, p) => sum + p.profit, 0),
+    totalTaxPaid: projections.reduce((sum, p) => sum + (p.taxPaid ?? 0), 0),
+    totalFeesPaid: projections.reduce((sum, p) => sum + (p.feesPaid ?? 0), 0),
+    feeDrag: projections[projections.length - 1]?.feeDrag ?? 0
+  };
+};
+
+// A result with its projections in today's money, summarized again from the deflated rows
+export const toRealResult = <T extends { projections: ProjectionData[]; summary: ProjectionSummary }>(result: T): T => {
+  const projections = toRealProjections(result.projections);
+  return { ...result, projections, summary: summarizeProjections(projections) };
+};
+
+export interface Runway {
+  depletedPeriod: number | null;  // First period that ends at $0, or null if the money lasts
+  years: number;                  // Years the balance funds withdrawals, or the whole horizon if it lasts
+}
+
+export const getRunway = (projections: ProjectionData[], frequency: ProjectionFrequency, businessDays = false): Runway => {
+  const periodsPerYear = getPeriodsPerYear(frequency, businessDays);
+  const depletedPeriod = findDepletionPeriod('drawdown', projections);
+  if (depletedPeriod === null) return { depletedPeriod, years: projections.length / periodsPerYear };
+
+  // The last period only covers the part of the withdrawal that was left
+  const row = projections[depletedPeriod - 1];
+  const planned = row.plannedWithdrawal ?? row.cashOut;
+  const covered = planned > 0 ? Math.min(1, row.cashOut / planned) : 1;
+  return { depletedPeriod, years: (depletedPeriod - 1 + covered) / periodsPerYear };
+};
+
+// A portfolio or glide path sets the return itself; the scenario's own ROI only counts without them
+export const usesScenarioRoi = (scenario: Scenario): boolean =>
+  !hasPortfolio(scenario.portfolio) && !hasGlidePath(scenario.glidePath);
+
+export const getProjectionInputs = (scenario: Scenario, accumulatedValue: number, accumulatedBasis = 0): ProjectionInputs => ({
+  investmentAmount: scenario.investmentAmount,
+  roiPercentage: getExpectedReturn(scenario.roiPercentage, scenario.portfolio),
+  inflationRate: scenario.inflationRate,
+  compounding: scenario.compounding,
+  projectionFrequency: scenario.projectionFrequency,
+  projectionDuration: scenario.projectionDuration,
+  reinvestmentStrategy: scenario.reinvestmentStrategy,
+  levelUpAmount: scenario.levelUpAmount,
+  salaryAmount: scenario.salaryAmount,
+  customTargetAmount: scenario.customTargetAmount,
+  builtStrategy: scenario.builtStrategy,
+  plan: scenario.plan,
+  accumulatedValue,
+  accumulatedBasis,
+  continueFromAccumulation: scenario.continueFromAccumulation,
+  tax: scenario.tax,
+  fees: scenario.fees,
+  enableInflation: scenario.enableInflation,
+  elapsedYears: scenario.duration / 12,
+  drawdown: scenario.drawdown,
+  portfolio: scenario.portfolio,
+  glidePath: scenario.glidePath,
+  startDate: getProjectionStart(scenario.startDate, scenario.duration),
+  businessDays: scenario.businessDays,
+  ...(scenario.events.length > 0
+    ? {
+        periodEvents: resolveEvents(
+          scenario.events,
+          getProjectionBoundaries(
+            scenario.startDate, scenario.duration, scenario.projectionFrequency, scenario.projectionDuration, scenario.businessDays
+          )
+        )
+      }
+    : {})
+});
+
+// Run a whole scenario the same way the calculator does: accumulation, then projections
+export const runScenario = (scenario: Scenario): ScenarioResult => {
+  const calculations = calculateGrowth(scenario);
+  const final = calculations[calculations.length - 1];
+  const projections = projectFuture(getProjectionInputs(scenario, final?.currentValue ?? 0, final?.totalInvested ?? 0));
+  return { calculations, projections, summary: summarizeProjections(projections) };
+};
+
+// Run the same inputs through every entry in STRATEGIES (the built one only once it has rules)
+export const compareStrategies = (inputs: ProjectionInputs): StrategyOutcome[] =>
+  (Object.keys(STRATEGIES) as ReinvestmentStrategy[])
+    .filter((strategy) => strategy !== 'built' || (inputs.builtStrategy?.rules.length ?? 0) > 0)
+    .map((strategy) => {
+      const projections = projectFuture({ ...inputs, reinvestmentStrategy: strategy });
+      return { strategy, projections, summary: summarizeProjections(projections) };
+    });
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { getDividendTax, getWithdrawalTax } from './tax';
+import type { TaxSettings } from './types';
+
+const tax: TaxSettings = {
+  enabled: true,
+  account: 'taxable',
+  capitalGainsRate: 15,
+  dividendYield: 2,
+  dividendTaxRate: 20,
+  incomeTaxRate: 25
+};
+
+describe('getDividendTax', () => {
+  it('taxes the per-period dividend in a taxable account', () => {
+    expect(getDividendTax(tax, 12000, 12)).toEqual({ dividends: 20, taxPaid: 4 });
+  });
+
+  it('is zero in tax-advantaged accounts', () => {
+    expect(getDividendTax({ ...tax, account: 'tax-deferred' }, 12000, 12).taxPaid).toBe(0);
+    expect(getDividendTax({ ...tax, account: 'tax-free' }, 12000, 12).taxPaid).toBe(0);
+  });
+});
+
+describe('getWithdrawalTax', () => {
+  it('taxes only the gain share of a taxable withdrawal', () => {
+    // Half the value is cost basis, so half of the withdrawal is gain
+    expect(getWithdrawalTax(tax, 1000, 4000, 2000)).toEqual({ taxPaid: 75, basisUsed: 500 });
+  });
+
+  it('taxes nothing when the holdings are at a loss', () => {
+    expect(getWithdrawalTax(tax, 1000, 4000, 5000)).toEqual({ taxPaid: 0, basisUsed: 1000 });
+  });
+
+  it('taxes the whole withdrawal as income in a tax-deferred account', () => {
+    expect(getWithdrawalTax({ ...tax, account: 'tax-deferred' }, 1000, 4000, 2000).taxPaid).toBe(250);
+  });
+
+  it('is free in a tax-free account', () => {
+    expect(getWithdrawalTax({ ...tax, account: 'tax-free' }, 1000, 4000, 0).taxPaid).toBe(0);
+  });
+});
@@ -0,0 +1,40 @@
+import type { TaxSettings } from './types';
+
+export interface DividendTax {
+  dividends: number;
+  taxPaid: number;
+}
+
+export interface WithdrawalTax {
+  taxPaid: number;
+  basisUsed: number;  // Cost basis that leaves the account with the withdrawal
+}
+
+// Only a taxable account pays tax on dividends as they're paid out
+export const getDividendTax = (tax: TaxSettings, invested: number, periodsPerYear: number): DividendTax => {
+  if (tax.account !== 'taxable' || invested <= 0) return { dividends: 0, taxPaid: 0 };
+  const dividends = invested * tax.dividendYield / 100 / periodsPerYear;
+  return { dividends, taxPaid: dividends * tax.dividendTaxRate / 100 };
+};
+
+// A withdrawal sells a proportional slice of the holdings: basis / value of it is
+// returned cost and the rest is realized gain. Tax-deferred withdrawals are taxed
+// in full as income, tax-free ones not at all.
+export const getWithdrawalTax = (
+  tax: TaxSettings,
+  amount: number,
+  value: number,
+  costBasis: number
+): WithdrawalTax => {
+  if (amount <= 0 || value <= 0) return { taxPaid: 0, basisUsed: 0 };
+  const basisUsed = amount * Math.min(1, Math.max(0, costBasis) / value);
+
+  switch (tax.account) {
+    case 'taxable':
+      return { taxPaid: (amount - basisUsed) * tax.capitalGainsRate / 100, basisUsed };
+    case 'tax-deferred':
+      return { taxPaid: amount * tax.incomeTaxRate / 100, basisUsed };
+    default:
+      return { taxPaid: 0, basisUsed };
+  }
+};
@@ -0,0 +1,327 @@
+export interface CalculationData {
+  period: number;
+  date: string;
+  totalInvested: number;
+  currentValue: number;
+  profit: number;
+  displayValue: number;
+  events?: string[];  // Labels of timeline events that happen in this period
+  feesPaid?: number;  // Cumulative fees (when fees are set)
+  feeDrag?: number;   // What those fees would be worth now had they stayed invested
+  deflator?: number;  // Multiply any nominal figure by this for today's money (when inflation is on)
+  assetValues?: number[];  // Value per portfolio asset, in the order of PortfolioSettings.assets
+  allocation?: number;     // Glide path: growth-asset share (%) during this period
+}
+
+export interface AuditOperand {
+  label: string;            // What the number is, e.g. 'start' or 'rate'
+  value: number;
+  unit: 'money' | 'rate';   // Rates are per period, as fractions
+}
+
+// One line of a row's audit trail. `formula` refers to its operands as {0}, {1}, …
+export interface AuditStep {
+  label: string;        // The figure being derived, e.g. 'Cash Out'
+  note: string;         // The rule behind it, in words
+  formula?: string;
+  operands?: AuditOperand[];
+  value?: number;       // Result of the step
+  unit?: AuditOperand['unit'];  // Unit of `value`; money unless set
+}
+
+export interface ProjectionData {
+  period: number;
+  date?: string;          // YYYY-MM-DD the period ends (when ProjectionInputs.startDate is set)
+  startValue: number;
+  newCash: number;
+  totalInvested: number;  // Start + Cash In (what's actually invested before growth)
+  profit: number;         // The actual interest/growth earned this period
+  afterGrowth: number;    // Total Invested + Profit (value after growth, before cash out)
+  cashOut: number;
+  endValue: number;
+  events?: string[];      // Labels of timeline events that happen in this period
+  taxPaid?: number;          // Dividend tax plus tax on this period's withdrawal (when tax is modeled)
+  netCashOut?: number;       // What actually reaches you from cashOut, after tax and withdrawal fees
+  feesPaid?: number;         // Fees charged this period (when fees are set)
+  feeDrag?: number;          // Cumulative: what all fees so far would be worth had they stayed invested
+  deflator?: number;         // Multiply any nominal figure by this for today's money (when inflation is on)
+  plannedWithdrawal?: number; // Drawdown: what the rule asked for this period; cashOut is less once the money runs out
+  assetValues?: number[];     // End value per portfolio asset, in the order of PortfolioSettings.assets
+  allocation?: number;        // Glide path: growth-asset share (%) during this period
+  phase?: number;                     // Plan: 0 while the scenario's own strategy runs, then 1, 2… for each phase
+  strategy?: ReinvestmentStrategy;    // Plan: the strategy run this period
+  audit?: AuditStep[];                // How each figure was worked out (when ProjectionInputs.explain is set)
+}
+
+export type Frequency = 'once' | 'daily' | 'weekly' | 'monthly';
+export type Compounding = 'annual' | 'monthly' | 'daily' | 'continuous';
+export type ValueBasis = 'nominal' | 'real';  // Real shows every amount in today's money
+export type ProjectionFrequency = 'yearly' | 'monthly' | 'weekly' | 'daily';
+export type ReinvestmentStrategy =
+  | '2x'
+  | 'repeat'
+  | 'all-in'
+  | 'double-down'
+  | 'shield-value'
+  | 'level-up'
+  | 'pay-yourself'
+  | 'capital-protect'
+  | 'take-salary'
+  | 'drawdown'
+  | 'custom'
+  | 'built';
+
+export type StrategyRuleKind =
+  | 'add-profit'       // % of last period's profit as new cash
+  | 'add-balance'      // % of the balance as new cash
+  | 'add-fixed'        // Fixed amount of new cash
+  | 'withdraw-profit'  // % of this period's growth
+  | 'withdraw-fixed'   // Fixed amount
+  | 'withdraw-above'   // Everything above a floor
+  | 'cap-withdrawals'; // Upper limit on the period's total withdrawal
+
+// One step of a built strategy. Cash-in rules apply at the start of a period,
+// withdrawals after growth in the order they are listed, then the caps.
+export interface StrategyRule {
+  id: string;
+  kind: StrategyRuleKind;
+  value: number;  // Percent for the % kinds, an amount for the others
+  every: number;  // Acts every Nth period (1 = every period)
+}
+
+// A user-defined strategy, run when reinvestmentStrategy is 'built'
+export interface BuiltStrategy {
+  name: string;
+  rules: StrategyRule[];
+}
+
+export type PhaseTrigger = 'period' | 'date' | 'balance';
+
+// A later stage of a plan. The scenario's own strategy runs until the first phase
+// starts; phases start in order, each one once its trigger fires.
+export interface PlanPhase {
+  id: string;
+  trigger: PhaseTrigger;
+  period?: number;   // 'period': first projection period of the phase
+  date?: string;     // 'date': YYYY-MM-DD; the phase starts with the first period that begins on or after it
+  balance?: number;  // 'balance': starts once the balance reaches this
+  strategy: ReinvestmentStrategy;
+  amount: number;    // Level Up extra, salary (Take Salary, Drawdown) or Custom target; unused by the rest
+}
+
+export interface PlanSettings {
+  enabled: boolean;
+  phases: PlanPhase[];
+}
+
+export interface StrategyInfo {
+  name: string;
+  color: string;       // Tailwind background class for buttons
+  chartColor: string;  // Hex stroke for chart lines
+}
+
+// Inputs for the accumulation phase (the main growth chart)
+export interface CalculationInputs {
+  investmentAmount: number;
+  roiPercentage: number;
+  duration: number;         // months
+  frequency: Frequency;
+  startDate: string;        // YYYY-MM-DD
+  showTotal: boolean;
+  enableInflation: boolean; // Adds a deflator to each row; values themselves stay nominal
+  inflationRate: number;
+  compounding?: Compounding;       // Defaults to monthly
+  contributions?: Contribution[];  // Dated schedule replacing the uniform investmentAmount
+  events?: CashFlowEvent[];        // Timeline applied on top of the contributions
+  fees?: FeeSettings;
+  portfolio?: PortfolioSettings;   // When enabled, each asset grows at its own rate instead of roiPercentage
+  glidePath?: GlidePathSettings;   // When enabled (and no portfolio), the return follows the investor's age
+  businessDays?: boolean;          // Daily investing on weekdays only
+}
+
+// A dated cash flow: positive amounts are contributions, negative are withdrawals
+export interface Contribution {
+  date: string;   // YYYY-MM-DD
+  amount: number;
+  note?: string;
+}
+
+export type CashFlowEventKind = 'one-off' | 'recurring' | 'step-up' | 'pause';
+
+// An entry on the cash-flow timeline. One-off and recurring events move cash in
+// (positive amount) or out (negative); step-ups and pauses change the regular contribution.
+export interface CashFlowEvent {
+  id: string;
+  kind: CashFlowEventKind;
+  label: string;
+  date: string;                        // YYYY-MM-DD, the first occurrence
+  endDate?: string;                    // Last day of a recurring event or pause; open-ended if absent
+  amount: number;                      // Cash amount, or % per year for a step-up
+  interval?: 'monthly' | 'yearly';     // Recurring events only
+}
+
+// What the timeline does to one period of a date grid
+export interface PeriodEventEffect {
+  cashFlow: number;            // Net one-off and recurring cash
+  contributionFactor: number;  // Multiplier on the regular contribution (0 while paused)
+  labels: string[];            // Events that start in this period
+}
+
+// Inputs for the future projections table
+export interface ProjectionInputs {
+  investmentAmount: number;
+  roiPercentage: number;
+  inflationRate: number;    // Shield Value always uses this, regardless of the inflation toggle
+  compounding?: Compounding; // Defaults to monthly, as in the growth chart
+  projectionFrequency: ProjectionFrequency;
+  projectionDuration: number;
+  reinvestmentStrategy: ReinvestmentStrategy;
+  levelUpAmount: number;
+  salaryAmount: number;
+  customTargetAmount: number;
+  builtStrategy?: BuiltStrategy;  // Rules for the 'built' strategy
+  plan?: PlanSettings;            // Later phases that switch to another strategy
+  accumulatedValue: number; // Final value of the accumulation phase, used by 'custom'
+  accumulatedBasis?: number; // Cash put in during the accumulation phase, the cost basis carried over
+  continueFromAccumulation?: boolean; // Start from accumulatedValue instead of cashing in investmentAmount
+  periodRates?: number[];   // Per-period returns overriding roiPercentage (simulations, backtests)
+  periodEvents?: PeriodEventEffect[];  // Timeline effects, one entry per projection period
+  tax?: TaxSettings;        // Omitted (or disabled) for pre-tax figures
+  fees?: FeeSettings;
+  enableInflation?: boolean; // Adds a deflator to each row
+  elapsedYears?: number;     // Time from the start date to the first projection period, for deflating
+  drawdown?: DrawdownSettings; // Rule for the 'drawdown' strategy; defaults to inflation-indexed
+  portfolio?: PortfolioSettings;
+  glidePath?: GlidePathSettings;
+  startDate?: string;        // YYYY-MM-DD the first period begins, usually the end of the accumulation phase
+  businessDays?: boolean;    // Daily periods are weekdays only
+  explain?: boolean;         // Record an audit trail on every row
+}
+
+export interface Asset {
+  id: string;
+  name: string;
+  roi: number;          // Expected annual return (%)
+  volatility?: number;  // Annual standard deviation (%)
+  weight: number;       // Target allocation (%); weights are normalized if they don't add up to 100
+}
+
+// Moves from growth to defensive assets as retirement approaches. The growth share
+// steps from startAllocation at currentAge to endAllocation at retirementAge, once a
+// year, and stays there afterwards. Ages are on the start date; rates in percent.
+export interface GlidePathSettings {
+  enabled: boolean;
+  currentAge: number;
+  retirementAge: number;
+  startAllocation: number;  // Growth share at currentAge
+  endAllocation: number;    // Growth share from retirementAge on
+  growthReturn: number;     // Expected annual return of the growth assets
+  defensiveReturn: number;  // Expected annual return of the defensive assets
+}
+
+export type RebalancePolicy = 'never' | 'annually' | 'threshold';
+
+export interface PortfolioSettings {
+  enabled: boolean;
+  assets: Asset[];
+  rebalance: RebalancePolicy;
+  threshold: number;    // Threshold policy: rebalance once any asset drifts this many points from its target
+}
+
+export type WithdrawalRule = 'inflation-indexed' | 'percent-of-portfolio' | 'guardrails';
+
+// How the 'drawdown' strategy sets each withdrawal. Indexed and guardrail rules start
+// from salaryAmount and rise with inflation; all rates in percent.
+export interface DrawdownSettings {
+  rule: WithdrawalRule;
+  withdrawalRate: number;  // Percent-of-portfolio: share of the balance withdrawn per year
+  guardrail: number;       // Guardrails: how far the withdrawal rate may drift from its starting rate
+  adjustment: number;      // Guardrails: spending cut or raise when it drifts past the band
+}
+
+export interface FeeSettings {
+  annualFee: number;        // % of the balance per year (expense ratio or AUM fee), taken from the return
+  contributionFee: number;  // Flat $ per contribution
+  withdrawalFee: number;    // % of each withdrawal
+}
+
+export type AccountType = 'taxable' | 'tax-deferred' | 'tax-free';
+
+// All rates in percent
+export interface TaxSettings {
+  enabled: boolean;
+  account: AccountType;
+  capitalGainsRate: number;  // Taxable: on the gain portion of each withdrawal
+  dividendYield: number;     // Taxable: share of the annual return paid out as dividends
+  dividendTaxRate: number;   // Taxable: on dividends as they're paid
+  incomeTaxRate: number;     // Tax-deferred: on the whole withdrawal
+}
+
+// One year of a bundled historical dataset, all values in percent
+export interface HistoricalYear {
+  year: number;
+  stocks: number;
+  bonds: number;
+  inflation: number;
+}
+
+export type HistoricalSeries = 'stocks' | 'bonds' | 'balanced';
+
+export type SimulationMode = 'deterministic' | 'monte-carlo' | 'historical';
+
+export interface MonteCarloSettings {
+  volatility: number;
+  simulations: number;
+  seed: number;
+}
+
+export interface BacktestSettings {
+  series: HistoricalSeries;
+  adjustForInflation: boolean;
+}
+
+export type CurrencyCode = 'USD' | 'EUR' | 'GBP' | 'BDT' | 'INR' | 'JPY';
+
+// Amounts are entered and computed in `code`; every figure is shown in `display`
+export interface CurrencySettings {
+  code: CurrencyCode;
+  display: CurrencyCode;
+  locale: string;  // Number formatting and digit grouping, e.g. 'en-IN' for lakh / crore
+  rate: number;    // Units of `display` per unit of `code`; 0 uses the bundled table
+}
+
+// Every user-editable input of the calculator, as saved, shared or imported
+export interface Scenario {
+  investmentAmount: number;
+  roiPercentage: number;
+  duration: number;
+  frequency: Frequency;
+  startDate: string;
+  showTotal: boolean;
+  enableInflation: boolean;
+  inflationRate: number;
+  valueBasis: ValueBasis;
+  compounding: Compounding;
+  projectionFrequency: ProjectionFrequency;
+  projectionDuration: number;
+  reinvestmentStrategy: ReinvestmentStrategy;
+  levelUpAmount: number;
+  customGainPercent: number;
+  customTargetAmount: number;
+  builtStrategy: BuiltStrategy;
+  plan: PlanSettings;
+  salaryAmount: number;
+  simulationMode: SimulationMode;
+  monteCarlo: MonteCarloSettings;
+  backtest: BacktestSettings;
+  contributions: Contribution[];  // Dated schedule replacing investmentAmount; empty for none
+  events: CashFlowEvent[];
+  tax: TaxSettings;
+  fees: FeeSettings;
+  drawdown: DrawdownSettings;
+  portfolio: PortfolioSettings;
+  glidePath: GlidePathSettings;
+  businessDays: boolean;
+  continueFromAccumulation: boolean;
+  currency: CurrencySettings;
+}
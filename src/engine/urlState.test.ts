@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { decodeScenario, encodeScenario } from './urlState';
+import { DEFAULT_SCENARIO, sanitizeScenario } from './scenario';
+import type { Scenario } from './types';
+
+const scenario: Scenario = {
+  ...DEFAULT_SCENARIO,
+  investmentAmount: 2500,
+  roiPercentage: 7.5,
+  frequency: 'weekly',
+  startDate: '2030-06-15',
+  enableInflation: true,
+  reinvestmentStrategy: 'take-salary',
+  salaryAmount: 400,
+  simulationMode: 'monte-carlo',
+  monteCarlo: { volatility: 18, simulations: 2000, seed: 7 },
+  backtest: { series: 'balanced', adjustForInflation: true },
+  contributions: [
+    { date: '2030-07-01', amount: 1200, note: 'Bonus, after tax' },
+    { date: '2031-02-01', amount: -800 }
+  ],
+  events: [
+    { id: 'a', kind: 'one-off', label: 'Bonus', date: '2031-03-01', amount: 5000 },
+    { id: 'b', kind: 'recurring', label: 'Rent, "flat"', date: '2031-01-01', endDate: '2032-01-01', amount: -300, interval: 'monthly' }
+  ],
+  portfolio: {
+    enabled: true,
+    assets: [
+      { id: 'eq', name: 'Global equity', roi: 8, volatility: 16, weight: 70 },
+      { id: 'gilts', name: 'Gilts', roi: 3, weight: 30 }
+    ],
+    rebalance: 'threshold',
+    threshold: 7.5
+  }
+};
+
+describe('encodeScenario / decodeScenario', () => {
+  it('round-trips every field', () => {
+    const decoded = decodeScenario(`?${encodeScenario(scenario)}`);
+    expect(decoded).toEqual({ scenario, warnings: [] });
+  });
+
+  it('rejects a malformed event timeline as a whole', () => {
+    const decoded = decodeScenario(`?v=2&ev=${encodeURIComponent('[{"kind":"lottery","date":"2030-01-01","amount":1}]')}`);
+    expect(decoded?.scenario.events).toEqual([]);
+    expect(decoded?.warnings[0]).toContain('Cash-flow Events');
+  });
+
+  it('rejects portfolio assets with out-of-range returns or weights', () => {
+    const assets = '[{"name":"Crypto","roi":500,"weight":10}]';
+    const decoded = decodeScenario(`?v=2&pf=1&assets=${encodeURIComponent(assets)}`);
+    expect(decoded?.scenario.portfolio.enabled).toBe(true);
+    expect(decoded?.scenario.portfolio.assets).toEqual(DEFAULT_SCENARIO.portfolio.assets);
+    expect(decoded?.warnings[0]).toContain('Portfolio Assets');
+  });
+
+  it('returns null when the URL has no scenario', () => {
+    expect(decodeScenario('')).toBeNull();
+    expect(decodeScenario('?utm_source=mail')).toBeNull();
+  });
+
+  it('falls back to defaults for bad or out-of-range values with a warning each', () => {
+    const decoded = decodeScenario('?v=2&amt=abc&roi=5000&dur=-3&freq=hourly&start=2026-13-45&strat=moon&total=maybe');
+    expect(decoded?.scenario).toEqual(DEFAULT_SCENARIO);
+    expect(decoded?.warnings).toHaveLength(7);
+    expect(decoded?.warnings[0]).toContain('Investment Amount');
+  });
+
+  it('keeps valid fields next to invalid ones', () => {
+    const decoded = decodeScenario('?v=2&amt=5000&roi=&salary=-1');
+    expect(decoded?.scenario.investmentAmount).toBe(5000);
+    expect(decoded?.scenario.roiPercentage).toBe(DEFAULT_SCENARIO.roiPercentage);
+    expect(decoded?.scenario.salaryAmount).toBe(DEFAULT_SCENARIO.salaryAmount);
+    expect(decoded?.warnings).toHaveLength(2);
+  });
+
+  it('warns about missing or unknown versions', () => {
+    expect(decodeScenario('?amt=5000')?.warnings).toHaveLength(1);
+    expect(decodeScenario('?v=99&amt=5000')?.warnings[0]).toContain('version 99');
+    // Links from before the compounding and inflation rework are read, but flagged
+    expect(decodeScenario('?v=1&amt=5000')?.warnings[0]).toContain('version 1');
+  });
+});
+
+describe('sanitizeScenario', () => {
+  it('accepts typed values from parsed JSON', () => {
+    expect(sanitizeScenario(scenario)).toEqual({ scenario, warnings: [] });
+  });
+
+  it('rejects non-integer durations', () => {
+    const { scenario: result, warnings } = sanitizeScenario({ projectionDuration: 2.5 });
+    expect(result.projectionDuration).toBe(DEFAULT_SCENARIO.projectionDuration);
+    expect(warnings).toHaveLength(1);
+  });
+});
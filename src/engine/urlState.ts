@@ -0,0 +1,35 @@
+import { SCENARIO_FIELDS, SCENARIO_VERSION, formatFieldValue, getFieldValue, sanitizeScenario } from './scenario';
+import type { SanitizedScenario } from './scenario';
+import type { Scenario } from './types';
+
+const VERSION_PARAM = 'v';
+
+// Serialize every field so a shared link doesn't depend on today's defaults
+export const encodeScenario = (scenario: Scenario): string => {
+  const params = new URLSearchParams();
+  params.set(VERSION_PARAM, String(SCENARIO_VERSION));
+  for (const field of SCENARIO_FIELDS) {
+    params.set(field.param, formatFieldValue(getFieldValue(scenario, field.path)));
+  }
+  return params.toString();
+};
+
+// Returns null when the query string carries no scenario at all
+export const decodeScenario = (search: string): SanitizedScenario | null => {
+  const params = new URLSearchParams(search);
+  const hasScenario = params.has(VERSION_PARAM) || SCENARIO_FIELDS.some((field) => params.has(field.param));
+  if (!hasScenario) return null;
+
+  const result = sanitizeScenario(params, (field) => params.get(field.param) ?? undefined);
+
+  const version = params.get(VERSION_PARAM);
+  if (version !== String(SCENARIO_VERSION)) {
+    result.warnings.unshift(
+      version === null
+        ? 'This link has no scenario version; values were read as the current version.'
+        : `This link uses scenario version ${version}; values were read as version ${SCENARIO_VERSION}.`
+    );
+  }
+
+  return result;
+};
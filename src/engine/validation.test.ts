@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SCENARIO } from './scenario';
+import { MAX_SWEEP_STEPS } from './sensitivity';
+import { runScenario } from './summary';
+import { checkDateInput, checkNumberInput, checkScenario, getNumberRule } from './validation';
+import type { Scenario } from './types';
+
+const format = (n: number) => `$${n.toLocaleString('en-US')}`;
+
+const check = (overrides: Partial<Scenario>) => {
+  const scenario = { ...DEFAULT_SCENARIO, ...overrides };
+  const { calculations, projections } = runScenario(scenario);
+  return checkScenario(scenario, calculations, projections, format);
+};
+
+describe('checkNumberInput', () => {
+  it('passes values inside the rule through', () => {
+    expect(checkNumberInput('duration', '24', 12)).toEqual({ value: 24 });
+    expect(checkNumberInput('roiPercentage', '-5.5', 10)).toEqual({ value: -5.5 });
+  });
+
+  it('keeps the current value when the box is empty or not a number', () => {
+    expect(checkNumberInput('duration', '', 12)).toEqual({ value: 12, error: 'Enter a value; still using 12' });
+    expect(checkNumberInput('duration', 'abc', 12)).toEqual({ value: 12, error: 'Not a number; still using 12' });
+  });
+
+  it('clamps to the field rule and rounds integer fields', () => {
+    expect(checkNumberInput('duration', '-3', 12)).toEqual({ value: 1, error: 'At least 1; using 1' });
+    expect(checkNumberInput('roiPercentage', '5000', 10)).toEqual({ value: 100, error: 'At most 100; using 100' });
+    expect(checkNumberInput('projectionDuration', '7.6', 10)).toEqual({ value: 8, error: 'Whole numbers only; using 8' });
+  });
+
+  it('only bounds fields that have a number rule', () => {
+    expect(getNumberRule('monteCarlo.simulations')).toEqual({ kind: 'number', min: 1, max: 10000, integer: true });
+    expect(getNumberRule('frequency')).toBeUndefined();
+    expect(checkNumberInput('not-a-field', '-1e6', 0)).toEqual({ value: -1e6 });
+  });
+
+  it('bounds the list and panel inputs that are not scenario fields', () => {
+    expect(checkNumberInput('portfolio.assets.roi', '-150', 7)).toEqual({ value: -99, error: 'At least -99; using -99' });
+    expect(checkNumberInput('plan.phases.period', '2.5', 12)).toEqual({ value: 3, error: 'Whole numbers only; using 3' });
+    expect(checkNumberInput('loan.termMonths', '900', 60)).toEqual({ value: 600, error: 'At most 600; using 600' });
+    expect(getNumberRule('sensitivity.steps')?.max).toBe(MAX_SWEEP_STEPS);
+  });
+});
+
+describe('checkDateInput', () => {
+  it('keeps the current date when the box is cleared or the date is invalid', () => {
+    expect(checkDateInput('2027-03-01', '2026-01-01')).toEqual({ value: '2027-03-01' });
+    expect(checkDateInput('', '2026-01-01')).toEqual({ value: '2026-01-01', error: 'Enter a date; still using 2026-01-01' });
+    expect(checkDateInput('2026-02-30x', '2026-01-01')).toEqual({ value: '2026-01-01', error: 'Not a valid date; still using 2026-01-01' });
+  });
+});
+
+describe('checkScenario', () => {
+  it('finds nothing wrong with the defaults', () => {
+    expect(check({})).toEqual([]);
+  });
+
+  it('flags a return that would divide by nothing invested', () => {
+    expect(check({ investmentAmount: 0 })).toContainEqual(expect.objectContaining({ field: 'investmentAmount', severity: 'flagged' }));
+  });
+
+  it('flags daily periods over decades', () => {
+    const issues = check({ projectionFrequency: 'daily', projectionDuration: 365 * 20 });
+    expect(issues).toEqual([expect.objectContaining({ field: 'projectionDuration', severity: 'flagged' })]);
+    expect(issues[0].message).toContain('7,300 daily periods (about 20 years)');
+    expect(check({ projectionFrequency: 'daily', projectionDuration: 365 })).toEqual([]);
+  });
+
+  it('blocks projections that overflow', () => {
+    const issues = check({ reinvestmentStrategy: '2x', projectionDuration: 2000 });
+    expect(issues).toEqual([expect.objectContaining({ field: 'projectionDuration', severity: 'blocked' })]);
+    expect(issues[0].message).toBe('2X grows past the largest number a double can hold by period 888. Shorten the projection.');
+  });
+
+  it('blocks a Custom target with no balance to solve from', () => {
+    expect(check({ reinvestmentStrategy: 'custom', investmentAmount: 0 }))
+      .toContainEqual(expect.objectContaining({ field: 'customTargetAmount', severity: 'blocked' }));
+  });
+
+  it('reaches a Custom target from whichever balance the projections start with', () => {
+    expect(check({ reinvestmentStrategy: 'custom', customTargetAmount: 100000 })).toEqual([]);
+    expect(check({ reinvestmentStrategy: 'custom', customTargetAmount: 5000 })).toEqual([]);
+    expect(check({ reinvestmentStrategy: 'custom', customTargetAmount: 100000, continueFromAccumulation: true })).toEqual([]);
+    expect(check({ reinvestmentStrategy: 'custom', customTargetAmount: 5000, continueFromAccumulation: true })).toEqual([]);
+  });
+
+  it('flags a Custom target the projection ends short of', () => {
+    const withdrawal = { id: 'w', kind: 'one-off' as const, label: 'House', date: '2030-06-01', amount: -20000 };
+    const issues = check({ reinvestmentStrategy: 'custom', customTargetAmount: 100000, events: [withdrawal] });
+    expect(issues).toEqual([expect.objectContaining({ field: 'customTargetAmount', severity: 'flagged' })]);
+  });
+});
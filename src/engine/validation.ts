@@ -0,0 +1,161 @@
+import { hasPlan } from './phases';
+import { SCENARIO_FIELDS, parseFieldValue } from './scenario';
+import { getPeriodsPerYear } from './schedule';
+import { STRATEGIES } from './strategies';
+import type { CalculationData, ProjectionData, Scenario } from './types';
+import type { FieldRule } from './scenario';
+
+export interface NumberCheck {
+  value: number;    // What the scenario should use
+  error?: string;   // Why that isn't what was typed
+}
+
+export interface DateCheck {
+  value: string;    // YYYY-MM-DD the scenario should use
+  error?: string;
+}
+
+export type IssueSeverity = 'blocked' | 'flagged';
+
+// A result that shouldn't be trusted. Blocked results are hidden, flagged ones shown with a warning.
+export interface ScenarioIssue {
+  field: string;  // Scenario path of the input to change, e.g. 'projectionDuration'
+  severity: IssueSeverity;
+  message: string;
+}
+
+// Daily periods over more years than this are flagged
+export const MAX_DAILY_YEARS = 10;
+
+// Beyond this, a double can no longer hold every cent
+const MAX_PRECISE_VALUE = Number.MAX_SAFE_INTEGER / 100;
+
+type NumberRule = Extract<FieldRule, { kind: 'number' }>;
+
+// Inputs that aren't a scenario field of their own: an item in one of the scenario's lists
+// (within the bounds its parser accepts, so a share link reproduces it) or a panel setting
+const INPUT_RULES: Record<string, NumberRule> = {
+  'portfolio.assets.roi': { kind: 'number', min: -99, max: 100 },
+  'portfolio.assets.volatility': { kind: 'number', min: 0, max: 100 },
+  'portfolio.assets.weight': { kind: 'number', min: 0, max: 100 },
+  'events.amount': { kind: 'number', min: -1e9, max: 1e9 },
+  'events.stepUp': { kind: 'number', min: -100, max: 100 },
+  'plan.phases.period': { kind: 'number', min: 1, max: 10000, integer: true },
+  'plan.phases.balance': { kind: 'number', min: 0, max: 1e12 },
+  'plan.phases.amount': { kind: 'number', min: 0, max: 1e12 },
+  'builtStrategy.rules.value': { kind: 'number', min: 0, max: 1e9 },
+  'builtStrategy.rules.every': { kind: 'number', min: 1, max: 10000, integer: true },
+  'loan.principal': { kind: 'number', min: 0, max: 1e9 },
+  'loan.apr': { kind: 'number', min: 0, max: 100 },
+  'loan.termMonths': { kind: 'number', min: 1, max: 600, integer: true },
+  'loan.extraPayment': { kind: 'number', min: 0, max: 1e9 },
+  'goal.target': { kind: 'number', min: 0, max: 1e12 },
+  'sensitivity.steps': { kind: 'number', min: 2, max: 12, integer: true }  // Up to MAX_SWEEP_STEPS
+};
+
+export const getNumberRule = (path: string): NumberRule | undefined => {
+  const rule = SCENARIO_FIELDS.find((field) => field.path === path)?.rule ?? INPUT_RULES[path];
+  return rule?.kind === 'number' ? rule : undefined;
+};
+
+const formatLimit = (n: number) => n.toLocaleString('en-US');
+
+// Read what was typed into a number input. Empty or non-numeric input keeps `current`,
+// out-of-range input is clamped to the field's rule and integer fields are rounded.
+export const checkNumberInput = (path: string, raw: string, current: number): NumberCheck => {
+  if (raw.trim() === '') return { value: current, error: `Enter a value; still using ${formatLimit(current)}` };
+  const n = Number(raw);
+  if (!Number.isFinite(n)) return { value: current, error: `Not a number; still using ${formatLimit(current)}` };
+
+  const rule = getNumberRule(path);
+  if (!rule) return { value: n };
+  const rounded = rule.integer ? Math.round(n) : n;
+  const value = Math.min(rule.max, Math.max(rule.min, rounded));
+  if (n < rule.min) return { value, error: `At least ${formatLimit(rule.min)}; using ${formatLimit(value)}` };
+  if (n > rule.max) return { value, error: `At most ${formatLimit(rule.max)}; using ${formatLimit(value)}` };
+  if (value !== n) return { value, error: `Whole numbers only; using ${formatLimit(value)}` };
+  return { value };
+};
+
+// Dates follow the same rule as share links; anything else keeps the current date
+export const checkDateInput = (raw: string, current: string): DateCheck => {
+  if (raw.trim() === '') return { value: current, error: `Enter a date; still using ${current}` };
+  const value = parseFieldValue({ kind: 'date' }, raw);
+  return typeof value === 'string' ? { value } : { value: current, error: `Not a valid date; still using ${current}` };
+};
+
+const dailyIssue = (field: string, what: string, periods: number, periodsPerYear: number): ScenarioIssue[] => {
+  const years = periods / periodsPerYear;
+  return years > MAX_DAILY_YEARS
+    ? [{
+        field,
+        severity: 'flagged',
+        message: `${what} runs ${formatLimit(periods)} daily periods (about ${Math.round(years)} years). Day-by-day figures over decades are too fine to read; a monthly or yearly view shows the same growth.`
+      }]
+    : [];
+};
+
+// Look for results that are mathematically meaningless: numbers too large to hold, a
+// Custom target nothing can reach, or daily periods stretched over decades
+export const checkScenario = (
+  scenario: Scenario,
+  calculations: CalculationData[],
+  projections: ProjectionData[] | null,
+  formatNum: (n: number) => string
+): ScenarioIssue[] => {
+  const issues: ScenarioIssue[] = [];
+  const finalData = calculations[calculations.length - 1];
+  const daysPerYear = getPeriodsPerYear('daily', scenario.businessDays);
+
+  if (scenario.frequency === 'daily') {
+    issues.push(...dailyIssue('frequency', 'The growth chart', calculations.length, daysPerYear));
+  }
+  if (finalData && finalData.totalInvested <= 0) {
+    issues.push({ field: 'investmentAmount', severity: 'flagged', message: 'Nothing is invested, so there is no return to measure.' });
+  }
+  if (finalData && Math.abs(finalData.currentValue) > MAX_PRECISE_VALUE) {
+    issues.push({ field: 'roiPercentage', severity: 'flagged', message: `The growth chart ends at ${formatNum(finalData.currentValue)}, too large to keep exact to the cent.` });
+  }
+
+  if (!projections) return issues;
+
+  if (scenario.projectionFrequency === 'daily') {
+    issues.push(...dailyIssue('projectionDuration', 'The projection', scenario.projectionDuration, daysPerYear));
+  }
+
+  const overflow = projections.find((row) => !Number.isFinite(row.endValue));
+  const last = projections[projections.length - 1];
+  if (overflow) {
+    issues.push({
+      field: 'projectionDuration',
+      severity: 'blocked',
+      message: `${STRATEGIES[overflow.strategy ?? scenario.reinvestmentStrategy].name} grows past the largest number a double can hold by period ${overflow.period}. Shorten the projection.`
+    });
+  } else if (last && Math.abs(last.endValue) > MAX_PRECISE_VALUE) {
+    issues.push({ field: 'projectionDuration', severity: 'flagged', message: `The projection ends at ${formatNum(last.endValue)}, too large to keep exact to the cent.` });
+  }
+
+  // With a plan, Custom only runs for part of the projection, so the end balance says nothing about its target
+  if (scenario.reinvestmentStrategy === 'custom' && !hasPlan(scenario.plan) && finalData && last && !overflow) {
+    const target = scenario.customTargetAmount;
+    // The projections start from the growth chart's balance, or from the investment amount
+    const [start, from] = scenario.continueFromAccumulation
+      ? [finalData.currentValue, 'the balance the growth chart ends with']
+      : [scenario.investmentAmount, 'the investment amount'];
+    if (start <= 0 && target > 0) {
+      issues.push({
+        field: 'customTargetAmount',
+        severity: 'blocked',
+        message: `Custom solves from ${from}, which is ${formatNum(start)}; no amount per period reaches ${formatNum(target)} from there.`
+      });
+    } else if (target - last.endValue > Math.max(1, target * 0.01)) {
+      issues.push({
+        field: 'customTargetAmount',
+        severity: 'flagged',
+        message: `Custom ends at ${formatNum(last.endValue)}, short of the ${formatNum(target)} target. Events, fees, taxes or a balance that runs out keep the solved amount from reaching it.`
+      });
+    }
+  }
+
+  return issues;
+};